@@ -0,0 +1,187 @@
+// Sync server for shared boards. Speaks the y-websocket protocol: each connection joins the
+// room named by its URL path, and every room keeps one Yjs document that all its clients share.
+//
+//   npm run collab                 # ws://localhost:1234
+//   COLLAB_PORT=4000 npm run collab
+//
+// Documents are written to COLLAB_DATA_DIR (default .collab-data) so boards survive a restart.
+
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+const PORT = Number(process.env.COLLAB_PORT || 1234);
+const DATA_DIR = process.env.COLLAB_DATA_DIR || '.collab-data';
+const PERSIST_DELAY = 1000;
+const PING_INTERVAL = 30000;
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+mkdirSync(DATA_DIR, { recursive: true });
+
+const rooms = new Map();
+
+const getRoomFile = (name) => join(DATA_DIR, `${encodeURIComponent(name)}.bin`);
+
+const send = (conn, message) => {
+    if (conn.readyState !== conn.OPEN) return;
+    conn.send(message, (err) => {
+        if (err) conn.close();
+    });
+};
+
+const getRoom = (name) => {
+    let room = rooms.get(name);
+    if (room) return room;
+
+    const doc = new Y.Doc();
+    const file = getRoomFile(name);
+    if (existsSync(file)) {
+        Y.applyUpdate(doc, readFileSync(file));
+    }
+
+    const awareness = new awarenessProtocol.Awareness(doc);
+    awareness.setLocalState(null);
+    // Connection -> awareness client ids it controls, so they can be cleared when it leaves
+    const conns = new Map();
+    let persistTimeout = null;
+
+    const persist = () => {
+        clearTimeout(persistTimeout);
+        persistTimeout = null;
+        writeFileSync(file, Y.encodeStateAsUpdate(doc));
+    };
+    // Writes now what is still waiting for the delay
+    const flush = () => {
+        if (persistTimeout !== null) persist();
+    };
+
+    doc.on('update', (update) => {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.writeUpdate(encoder, update);
+        const message = encoding.toUint8Array(encoder);
+        conns.forEach((_, conn) => send(conn, message));
+
+        clearTimeout(persistTimeout);
+        persistTimeout = setTimeout(persist, PERSIST_DELAY);
+    });
+
+    awareness.on('update', ({ added, updated, removed }, conn) => {
+        const changed = added.concat(updated, removed);
+        const controlled = conns.get(conn);
+        if (controlled) {
+            added.forEach((id) => controlled.add(id));
+            removed.forEach((id) => controlled.delete(id));
+        }
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changed));
+        const message = encoding.toUint8Array(encoder);
+        conns.forEach((_, other) => send(other, message));
+    });
+
+    room = { doc, awareness, conns, flush };
+    rooms.set(name, room);
+    return room;
+};
+
+// Once everyone has left, the room is written out and let go; the next visitor loads it from disk again
+const closeRoom = (name, room) => {
+    room.flush();
+    room.awareness.destroy();
+    room.doc.destroy();
+    if (rooms.get(name) === room) rooms.delete(name);
+};
+
+const handleMessage = (room, conn, data) => {
+    const decoder = decoding.createDecoder(new Uint8Array(data));
+    const encoder = encoding.createEncoder();
+    switch (decoding.readVarUint(decoder)) {
+        case MESSAGE_SYNC:
+            encoding.writeVarUint(encoder, MESSAGE_SYNC);
+            syncProtocol.readSyncMessage(decoder, encoder, room.doc, conn);
+            // Only answer when the message asked for something (sync step 1)
+            if (encoding.length(encoder) > 1) send(conn, encoding.toUint8Array(encoder));
+            break;
+        case MESSAGE_AWARENESS:
+            awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), conn);
+            break;
+        default:
+            break;
+    }
+};
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (conn, req) => {
+    const name = decodeURIComponent((req.url || '/').slice(1).split('?')[0]) || 'default';
+    const room = getRoom(name);
+    room.conns.set(conn, new Set());
+    conn.binaryType = 'arraybuffer';
+
+    conn.on('message', (data) => {
+        try {
+            handleMessage(room, conn, data);
+        } catch (err) {
+            console.error(`Bad message in room "${name}":`, err);
+        }
+    });
+
+    // Drop connections that stop answering pings, which also clears their presence
+    let alive = true;
+    conn.on('pong', () => {
+        alive = true;
+    });
+    const ping = setInterval(() => {
+        if (!alive) {
+            conn.terminate();
+            return;
+        }
+        alive = false;
+        conn.ping();
+    }, PING_INTERVAL);
+
+    conn.on('close', () => {
+        clearInterval(ping);
+        const controlled = room.conns.get(conn);
+        room.conns.delete(conn);
+        if (controlled) {
+            awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(controlled), null);
+        }
+        if (room.conns.size === 0) closeRoom(name, room);
+    });
+
+    // Start the handshake: send our state vector, then everyone currently present
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, room.doc);
+    send(conn, encoding.toUint8Array(encoder));
+
+    const states = room.awareness.getStates();
+    if (states.size > 0) {
+        const awarenessEncoder = encoding.createEncoder();
+        encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(
+            awarenessEncoder,
+            awarenessProtocol.encodeAwarenessUpdate(room.awareness, Array.from(states.keys()))
+        );
+        send(conn, encoding.toUint8Array(awarenessEncoder));
+    }
+});
+
+// Edits still waiting for the delay are written before the server stops
+const shutdown = () => {
+    rooms.forEach((room) => room.flush());
+    process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+console.log(`Collaboration server listening on ws://localhost:${PORT}`);
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import {
+    COMMANDS,
+    DEFAULT_KEYMAP,
+    eventToBinding,
+    formatBinding,
+    rebindCommand,
+    type CommandId,
+    type Keymap,
+} from './keymap';
+
+interface CommandPaletteProps {
+    keymap: Keymap;
+    // Commands that cannot run right now, e.g. Group with nothing selected, are listed but greyed out
+    isAvailable: (id: CommandId) => boolean;
+    onRun: (id: CommandId) => void;
+    onKeymapChange: (keymap: Keymap) => void;
+    onClose: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ keymap, isAvailable, onRun, onKeymapChange, onClose }) => {
+    const [query, setQuery] = useState('');
+    const [activeIndex, setActiveIndex] = useState(0);
+    // The command waiting for its new key, while one is being rebound
+    const [recordingId, setRecordingId] = useState<CommandId | null>(null);
+
+    const search = query.trim().toLowerCase();
+    const matches = COMMANDS.filter(
+        (command) => command.label.toLowerCase().includes(search) || command.category.toLowerCase().includes(search)
+    );
+    const active = matches[Math.min(activeIndex, matches.length - 1)];
+
+    const run = (id: CommandId) => {
+        if (!isAvailable(id)) return;
+        onClose();
+        onRun(id);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (recordingId) {
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.key === 'Escape') {
+                setRecordingId(null);
+                return;
+            }
+            const binding = eventToBinding(e.nativeEvent);
+            if (!binding) return;
+            onKeymapChange(rebindCommand(keymap, recordingId, binding));
+            setRecordingId(null);
+        } else if (e.key === 'Escape') {
+            onClose();
+        } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex((Math.max(0, matches.indexOf(active)) + step + matches.length) % Math.max(1, matches.length));
+        } else if (e.key === 'Enter' && active) {
+            e.preventDefault();
+            run(active.id);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-center items-start pt-24 bg-black/20" onClick={onClose}>
+            <div
+                className="w-[28rem] max-h-[60vh] flex flex-col bg-white text-black rounded shadow-lg text-sm"
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={handleKeyDown}
+            >
+                <input
+                    type="search"
+                    value={query}
+                    placeholder="Type a command"
+                    onChange={(e) => {
+                        setQuery(e.target.value);
+                        setActiveIndex(0);
+                    }}
+                    autoFocus
+                    className="m-2 p-2 border rounded"
+                />
+                <ul className="overflow-y-auto pb-1">
+                    {matches.map((command) => (
+                        <li
+                            key={command.id}
+                            onClick={() => run(command.id)}
+                            onMouseEnter={() => setActiveIndex(matches.indexOf(command))}
+                            className={`flex items-center gap-2 px-3 py-1 cursor-pointer ${
+                                command === active ? 'bg-blue-100' : ''
+                            } ${isAvailable(command.id) ? '' : 'text-gray-400'}`}
+                        >
+                            <span className="flex-1">{command.label}</span>
+                            <span className="text-xs text-gray-400">{command.category}</span>
+                            {recordingId === command.id ? (
+                                <span className="text-xs text-blue-600">Press a key… (Esc to cancel)</span>
+                            ) : (
+                                keymap[command.id].map((binding) => (
+                                    <kbd key={binding} className="flex items-center gap-1 px-1 border rounded bg-gray-50 text-xs">
+                                        {formatBinding(binding)}
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                onKeymapChange({
+                                                    ...keymap,
+                                                    [command.id]: keymap[command.id].filter((existing) => existing !== binding),
+                                                });
+                                            }}
+                                            title="Remove this shortcut"
+                                            className="text-gray-400 hover:text-black"
+                                        >
+                                            ✕
+                                        </button>
+                                    </kbd>
+                                ))
+                            )}
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setRecordingId(command.id);
+                                }}
+                                title="Add a shortcut"
+                                className="px-1 text-gray-400 hover:text-black"
+                            >
+                                +
+                            </button>
+                        </li>
+                    ))}
+                    {matches.length === 0 && <li className="px-3 py-1 text-gray-500">No commands match</li>}
+                </ul>
+                <div className="flex justify-end px-3 py-2 border-t">
+                    <button onClick={() => onKeymapChange(DEFAULT_KEYMAP)} className="text-gray-500 hover:text-black">
+                        Reset all shortcuts
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CommandPalette;
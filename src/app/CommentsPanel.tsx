@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import type { CommentThread, Shape } from './drawingTypes';
+import { isMentioned, isResolved } from './comments';
+import { getLayerName } from './layerPreview';
+import { findShapeInTree } from './shapeTree';
+
+interface CommentsPanelProps {
+    // Oldest first, numbered like their pins
+    threads: CommentThread[];
+    shapes: Shape[];
+    userName: string;
+    openThreadId: string | null;
+    onShow: (thread: CommentThread) => void;
+    onClose: () => void;
+}
+
+type ThreadFilter = 'open' | 'mentions' | 'resolved';
+
+const FILTERS: { value: ThreadFilter; label: string }[] = [
+    { value: 'open', label: 'Open' },
+    { value: 'mentions', label: 'Mentions' },
+    { value: 'resolved', label: 'Resolved' },
+];
+
+const CommentsPanel: React.FC<CommentsPanelProps> = ({ threads, shapes, userName, openThreadId, onShow, onClose }) => {
+    const [filter, setFilter] = useState<ThreadFilter>('open');
+
+    const matches = (thread: CommentThread) => {
+        if (filter === 'resolved') return isResolved(thread);
+        if (filter === 'mentions') return !isResolved(thread) && isMentioned(thread, userName);
+        return !isResolved(thread);
+    };
+    const listed = threads.map((thread, index) => ({ thread, number: index + 1 })).filter(({ thread }) => matches(thread));
+
+    return (
+        <div className="fixed left-20 top-28 z-50 w-72 max-h-[40vh] flex flex-col bg-white text-black rounded shadow-lg text-sm">
+            <div className="flex justify-between items-center px-3 py-2 border-b">
+                <h3 className="font-medium">Comments</h3>
+                <button onClick={onClose}>✕</button>
+            </div>
+            <div className="flex gap-1 px-3 py-2 border-b">
+                {FILTERS.map((item) => (
+                    <button
+                        key={item.value}
+                        onClick={() => setFilter(item.value)}
+                        className={`px-2 py-0.5 rounded ${filter === item.value ? 'bg-blue-500 text-white' : 'hover:bg-gray-100'}`}
+                    >
+                        {item.label}
+                    </button>
+                ))}
+            </div>
+            {listed.length === 0 && (
+                <p className="px-3 py-2 text-gray-500">
+                    {threads.length === 0 ? 'No comments yet. Pick the comment tool and click the board to start one.' : 'Nothing here.'}
+                </p>
+            )}
+            <ul className="overflow-y-auto py-1">
+                {listed.map(({ thread, number }) => {
+                    const [first] = thread.comments;
+                    const shape = thread.shapeId ? findShapeInTree(shapes, thread.shapeId) : undefined;
+                    const replies = thread.comments.length - 1;
+                    return (
+                        <li
+                            key={thread.id}
+                            onClick={() => onShow(thread)}
+                            className={`px-3 py-1 cursor-pointer ${thread.id === openThreadId ? 'bg-blue-100' : 'hover:bg-gray-100'}`}
+                        >
+                            <div className="flex items-center gap-2 text-xs text-gray-500">
+                                <span className="font-medium text-black">#{number}</span>
+                                <span className="flex-1 truncate">
+                                    {first?.author}
+                                    {shape && ` on ${getLayerName(shape)}`}
+                                </span>
+                                {isMentioned(thread, userName) && <span className="text-blue-600">@you</span>}
+                            </div>
+                            <p className="truncate">{first?.text}</p>
+                            {replies > 0 && (
+                                <div className="text-xs text-gray-500">
+                                    {replies} {replies === 1 ? 'reply' : 'replies'}
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default CommentsPanel;
@@ -1,54 +1,351 @@
 'use client';
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Stage, Layer, Line, Rect, Circle, Text, Transformer, Image as KonvaImage, Arrow, Group } from 'react-konva';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import {
+    Stage,
+    Layer,
+    Line,
+    Rect,
+    Circle,
+    Text,
+    Transformer,
+    Image as KonvaImage,
+    Shape as KonvaShape,
+    Path,
+    Arrow,
+    Group,
+    Label,
+    Tag,
+} from 'react-konva';
+import type Konva from 'konva';
 import type { KonvaEventObject } from 'konva/lib/Node';
 import { useGesture } from '@use-gesture/react';
-import { FaPlus, FaMinus } from 'react-icons/fa';
+import { FaPlus, FaMinus, FaUndo, FaRedo, FaTh, FaLayerGroup, FaExpand, FaCrosshairs, FaMap, FaKeyboard, FaDesktop, FaPlay, FaHistory, FaComment } from 'react-icons/fa';
+import {
+    MdAlignHorizontalCenter,
+    MdAlignHorizontalLeft,
+    MdAlignHorizontalRight,
+    MdAlignVerticalBottom,
+    MdAlignVerticalCenter,
+    MdAlignVerticalTop,
+    MdFormatAlignCenter,
+    MdFormatAlignLeft,
+    MdFormatAlignRight,
+    MdFormatBold,
+    MdFormatItalic,
+    MdFormatUnderlined,
+    MdHorizontalDistribute,
+    MdLink,
+    MdVerticalDistribute,
+} from 'react-icons/md';
+import { saveAs } from 'file-saver';
+import type { CommitOptions } from './useHistory';
+import { useSharedScene } from './useSharedScene';
+import { usePresence } from './usePresence';
+import { matchViewport } from './presence';
+import { createSpatialIndex, memoizeBounds } from './spatialIndex';
+import {
+    DEFAULT_BRUSH,
+    FREEHAND_TENSION,
+    getLineStyle,
+    getPenPressure,
+    getStrokeOutline,
+    simplifyLine,
+    streamlinePoint,
+    usesPressure,
+} from './brush';
+import { cutLine, hitTestLine, hitTestShape, sampleSegment, type EraserMode } from './eraser';
+import type {
+    ArrowheadType,
+    BrushDash,
+    BrushSettings,
+    CommentThread,
+    ConnectorEnd,
+    ConnectorRouting,
+    DrawLine,
+    Point,
+    Scene,
+    Shape,
+    Slide,
+    TextAlign,
+    Tool,
+    ToolType,
+} from './drawingTypes';
+import { deserializeScene, parseSceneDocument, serializeScene } from './sceneFormat';
+import { getLoadedAsset, importImageFile } from './assetStore';
+import { createImageShape, cropImage, getNaturalSize, getUncroppedBounds } from './images';
+import { DEFAULT_BOARD_ID, isBoardShared, loadSceneFromStorage, markBoardShared, saveSceneToStorage } from './sceneStorage';
+import { exportScene, type ExportOptions } from './sceneExport';
+import {
+    boundsIntersect,
+    expandBounds,
+    getLineBounds,
+    getPointsBounds,
+    getShapeBounds,
+    normalizeBounds,
+    transformBounds,
+    unionBounds,
+    type Bounds,
+} from './geometry';
+import { bringToFront, moveBackward, moveForward, moveNextTo, sendToBack } from './shapeOrder';
+import {
+    findShapeInTree,
+    getAncestorIds,
+    isGroup,
+    mapShapeTree,
+    pruneToSelection,
+    releaseFromGroup,
+    translateShape,
+    updateChildren,
+} from './shapeTree';
+import {
+    ANCHOR_SIDES,
+    CONNECTOR_BAR_SIZE,
+    CONNECTOR_DOT_RADIUS,
+    CONNECTOR_LABEL_FONT_SIZE,
+    CONNECTOR_LABEL_PADDING,
+    getAnchorPoint,
+    getConnectorLabelBounds,
+    getConnectorTip,
+    getNearestAnchor,
+    getWorldBounds,
+    isBindable,
+    routeConnector,
+    syncConnectors,
+} from './connectors';
+import { snapBounds, snapPoint, snapToGrid, type SnapFeedback } from './snapping';
+import { alignShapes, distributeShapes, type AlignMode, type DistributeAxis } from './alignment';
+import {
+    PASTE_OFFSET,
+    cloneWithFreshIds,
+    offsetShapes,
+    readShapesFromClipboardText,
+    writeShapesToClipboard,
+} from './clipboard';
+import {
+    FRAME_TITLE_COLOR,
+    FRAME_TITLE_FONT_SIZE,
+    FRAME_TITLE_OFFSET,
+    getFrameBounds,
+    getFrameMembers,
+    getNextFrameName,
+    isFrame,
+} from './frames';
+import {
+    STICKY_COLORS,
+    STICKY_LINE_HEIGHT,
+    STICKY_PADDING,
+    STICKY_SIZE,
+    STICKY_TEXT_COLOR,
+    layoutStickyText,
+} from './stickyNotes';
+import {
+    DEFAULT_FONT_SIZE,
+    DEFAULT_LINE_HEIGHT,
+    LINK_COLOR,
+    UNDERLINE_OFFSET,
+    UNDERLINE_THICKNESS,
+    findLinkAt,
+    getFontStyle,
+    getTextRuns,
+    layoutText,
+    measureText,
+    type TextLayout,
+} from './textLayout';
+import { hasInlineStyles, isSafeLink, readRunsFromHtml, runsToHtml } from './richText';
+import {
+    DEFAULT_CORNER_RADIUS,
+    DEFAULT_STAR_INNER_RADIUS,
+    DEFAULT_STAR_POINTS,
+    PATH_SHAPE_TYPES,
+    getShapePath,
+} from './shapeLibrary';
+import { ICONS, ICON_VIEWBOX, findIcon } from './shapeIcons';
+import { createViewSlide, getPresentationSlides, getSlideBounds } from './slides';
+import { SNAPSHOT_CHECK_INTERVAL, type SceneSnapshot } from './snapshots';
+import { createComment, createThread, getMentionNames, getThreadPosition, isMentioned, isResolved, keepPinsInPlace } from './comments';
+import { getLayerName } from './layerPreview';
+import { createId } from './ids';
+import { eventToBinding, findCommandForBinding, formatBinding, loadKeymap, saveKeymap, type CommandId, type Keymap } from './keymap';
+import ExportMenu from './ExportMenu';
+import IconPicker from './IconPicker';
+import LayersPanel from './LayersPanel';
+import Minimap from './Minimap';
+import CommandPalette from './CommandPalette';
+import SlidesPanel from './SlidesPanel';
+import PresenterView from './PresenterView';
+import HistoryPanel from './HistoryPanel';
+import CommentsPanel from './CommentsPanel';
+import ThreadPopover from './ThreadPopover';
 
-type ToolType = 'cursor' | 'draw' | 'eraser' | 'rectangle' | 'circle' | 'text' | 'image' | 'pen';
+type ConnectorStyle = Pick<Shape, 'stroke' | 'strokeWidth' | 'startArrow' | 'endArrow'>;
 
-interface Tool {
-    name: ToolType;
-    icon: string;
-}
+const CONNECTOR_ROUTINGS: Array<{ value: ConnectorRouting; label: string }> = [
+    { value: 'straight', label: 'Straight' },
+    { value: 'elbow', label: 'Elbow' },
+    { value: 'curved', label: 'Curved' },
+];
+
+const ARROWHEADS: Array<{ value: ArrowheadType; label: string }> = [
+    { value: 'none', label: 'None' },
+    { value: 'arrow', label: 'Arrow' },
+    { value: 'dot', label: 'Dot' },
+    { value: 'bar', label: 'Bar' },
+];
+
+const BRUSH_DASHES: Array<{ value: BrushDash; label: string }> = [
+    { value: 'solid', label: 'Solid' },
+    { value: 'dashed', label: 'Dashed' },
+    { value: 'dotted', label: 'Dotted' },
+];
+
+// The shape library, offered together behind one toolbar button
+const SHAPE_TOOLS: Array<{ value: ToolType; label: string; icon: string }> = [
+    { value: 'ellipse', label: 'Ellipse', icon: '⬭' },
+    { value: 'roundedRectangle', label: 'Rounded rectangle', icon: '▢' },
+    { value: 'line', label: 'Line', icon: '╱' },
+    { value: 'polyline', label: 'Polyline', icon: '〽️' },
+    { value: 'diamond', label: 'Diamond', icon: '◇' },
+    { value: 'triangle', label: 'Triangle', icon: '△' },
+    { value: 'star', label: 'Star', icon: '☆' },
+    { value: 'cylinder', label: 'Cylinder', icon: '⛁' },
+    { value: 'cloud', label: 'Cloud', icon: '☁️' },
+    { value: 'icon', label: 'Icon', icon: '★' },
+];
+
+// Tools that draw a shape by dragging out its box
+const BOX_TOOLS: ToolType[] = ['rectangle', 'roundedRectangle', 'circle', 'ellipse', 'diamond', 'triangle', 'star', 'cylinder', 'cloud', 'frame'];
+
+const ICON_SIZE = 64;
+
+const ERASER_MODES: Array<{ value: EraserMode; label: string }> = [
+    { value: 'object', label: 'Erase items' },
+    { value: 'stroke', label: 'Cut strokes' },
+];
+
+const ALIGN_COMMANDS: Array<{ mode: AlignMode; label: string; icon: React.ReactNode }> = [
+    { mode: 'left', label: 'Align left', icon: <MdAlignHorizontalLeft size={20} /> },
+    { mode: 'center', label: 'Align center', icon: <MdAlignHorizontalCenter size={20} /> },
+    { mode: 'right', label: 'Align right', icon: <MdAlignHorizontalRight size={20} /> },
+    { mode: 'top', label: 'Align top', icon: <MdAlignVerticalTop size={20} /> },
+    { mode: 'middle', label: 'Align middle', icon: <MdAlignVerticalCenter size={20} /> },
+    { mode: 'bottom', label: 'Align bottom', icon: <MdAlignVerticalBottom size={20} /> },
+];
+
+const DISTRIBUTE_COMMANDS: Array<{ axis: DistributeAxis; label: string; icon: React.ReactNode }> = [
+    { axis: 'horizontal', label: 'Distribute horizontally', icon: <MdHorizontalDistribute size={20} /> },
+    { axis: 'vertical', label: 'Distribute vertically', icon: <MdVerticalDistribute size={20} /> },
+];
+
+const TEXT_STYLES: Array<{ command: 'bold' | 'italic' | 'underline'; label: string; icon: React.ReactNode }> = [
+    { command: 'bold', label: 'Bold', icon: <MdFormatBold size={20} /> },
+    { command: 'italic', label: 'Italic', icon: <MdFormatItalic size={20} /> },
+    { command: 'underline', label: 'Underline', icon: <MdFormatUnderlined size={20} /> },
+];
+
+const TEXT_ALIGNS: Array<{ value: TextAlign; label: string; icon: React.ReactNode }> = [
+    { value: 'left', label: 'Align text left', icon: <MdFormatAlignLeft size={20} /> },
+    { value: 'center', label: 'Center text', icon: <MdFormatAlignCenter size={20} /> },
+    { value: 'right', label: 'Align text right', icon: <MdFormatAlignRight size={20} /> },
+];
+
+// Draws laid-out text one styled segment at a time, with underlines under underlined text and links
+const drawTextLayout = (context: Konva.Context, shape: Shape, layout: TextLayout) => {
+    const fontSize = shape.fontSize || DEFAULT_FONT_SIZE;
+    const fontFamily = shape.fontFamily || 'Arial';
+    context.textBaseline = 'middle';
+    layout.lines.forEach((line) => {
+        const middle = line.y + layout.lineHeight / 2;
+        line.segments.forEach((segment) => {
+            context.font = `${getFontStyle(segment.run)} ${fontSize}px ${fontFamily}`.trim();
+            context.fillStyle = segment.run.link ? LINK_COLOR : shape.fill || '#000000';
+            context.fillText(segment.text, segment.x, middle);
+            if (segment.run.underline || segment.run.link) {
+                const thickness = Math.max(1, fontSize * UNDERLINE_THICKNESS);
+                context.fillRect(segment.x, middle + fontSize * UNDERLINE_OFFSET - thickness, segment.width, thickness);
+            }
+        });
+    });
+};
 
-interface DrawLine {
-    tool: ToolType;
-    points: number[];
-    color: string;
+// How long a laser pointer mark stays visible, fading out as it ages
+const LASER_FADE_MS = 1000;
+// In screen pixels
+const LASER_WIDTH = 6;
+
+interface LaserPoint extends Point {
+    time: number;
+    // First point of a stroke, so it is not joined to the end of the previous one
+    isStart?: boolean;
 }
 
-interface Shape {
-    id: string;
-    type: 'rectangle' | 'circle' | 'text' | 'image' | 'pen';
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    fill: string;
-    stroke: string;
-    strokeWidth: number;
-    text?: string;
-    fontSize?: number;
-    fontFamily?: string;
-    image?: HTMLImageElement; // For image shapes
-    points?: Array<{ x: number; y: number }>;
+const drawLaserTrail = (context: Konva.Context, trail: LaserPoint[], zoom: number) => {
+    const now = performance.now();
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.lineWidth = LASER_WIDTH / zoom;
+    context.strokeStyle = '#ef4444';
+    for (let i = 1; i < trail.length; i++) {
+        if (trail[i].isStart) continue;
+        context.globalAlpha = Math.max(0, 1 - (now - trail[i].time) / LASER_FADE_MS);
+        context.beginPath();
+        context.moveTo(trail[i - 1].x, trail[i - 1].y);
+        context.lineTo(trail[i].x, trail[i].y);
+        context.stroke();
+    }
+    context.globalAlpha = 1;
+};
+
+const getCachedShapeBounds = memoizeBounds(getShapeBounds);
+
+// Hidden and locked items are left alone by selection and the eraser
+const isSelectable = (shape: Shape) => !shape.hidden && !shape.locked;
+const getCachedLineBounds = memoizeBounds(getLineBounds);
+
+// Resolution of the grid tile relative to world units, so dots stay round when zoomed in
+const GRID_TILE_SCALE = 2;
+
+// One grid cell with its dot in the middle, repeated as the fill of a single rectangle
+const createGridTile = (spacing: number, dotSize: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = spacing * GRID_TILE_SCALE;
+    canvas.height = spacing * GRID_TILE_SCALE;
+    const context = canvas.getContext('2d');
+    if (context) {
+        context.fillStyle = 'red';
+        context.beginPath();
+        context.arc(canvas.width / 2, canvas.height / 2, dotSize * GRID_TILE_SCALE, 0, Math.PI * 2);
+        context.fill();
+    }
+    return canvas;
 };
 
-const DrawingApp = () => {
+// The zoom range, as scale factors, unless the app is given its own
+const DEFAULT_MIN_ZOOM = 0.1;
+const DEFAULT_MAX_ZOOM = 8;
+
+interface DrawingAppProps {
+    minZoom?: number;
+    maxZoom?: number;
+}
+
+const DrawingApp: React.FC<DrawingAppProps> = ({ minZoom = DEFAULT_MIN_ZOOM, maxZoom = DEFAULT_MAX_ZOOM }) => {
     const [tool, setTool] = useState<ToolType>('cursor');
-    const [lines, setLines] = useState<DrawLine[]>([]);
-    const [shapes, setShapes] = useState<Shape[]>([]);
+    // Everyone who opens the same ?board= id edits the same shared scene
+    const [boardId] = useState(() => new URLSearchParams(window.location.search).get('board') || DEFAULT_BOARD_ID);
+    const history = useSharedScene(boardId);
+    const presence = usePresence(history.awareness);
+    const { shapes, lines, slides, comments } = history.present;
     const [isDrawing, setIsDrawing] = useState(false);
-    const [selectedShapeId, setSelectedShapeId] = useState<string | null>(null);
+    const [selectedShapeIds, setSelectedShapeIds] = useState<string[]>([]);
+    const [selectionRect, setSelectionRect] = useState<Bounds | null>(null);
+    const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
     const [fillColor, setFillColor] = useState('#FFFFFF');
     const [strokeColor, setStrokeColor] = useState('#000000');
-    const [textInput, setTextInput] = useState('');
-    const [isTextInputVisible, setIsTextInputVisible] = useState(false);
-    const [textInputPosition, setTextInputPosition] = useState({ x: 0, y: 0 });
-    const [isEditingText, setIsEditingText] = useState(false);
-    const [currentText, setCurrentText] = useState('');
+    // The text shape open in the inline editor: a working copy, not yet in the scene when it is new
+    const [editingText, setEditingText] = useState<{ shape: Shape; isNew: boolean; html: string } | null>(null);
+    // Wrap width of a text being resized from a side handle, before the resize is committed
+    const [textWrapPreview, setTextWrapPreview] = useState<{ id: string; width: number } | null>(null);
     const [textProps, setTextProps] = useState({
         fontSize: 20,
         fontFamily: 'Arial',
@@ -57,63 +354,441 @@ const DrawingApp = () => {
     const [currentPenPath, setCurrentPenPath] = useState<Array<{ x: number; y: number }>>([]);
     const [mousePosition, setMousePosition] = useState<{ x: number; y: number } | null>(null);
     const [isShiftPressed, setIsShiftPressed] = useState(false);
+    const [isSpacePressed, setIsSpacePressed] = useState(false);
+    // Last pointer position, on screen, of a space+drag or middle-button pan
+    const [panPointer, setPanPointer] = useState<Point | null>(null);
     const [position, setPosition] = useState({ x: 0, y: 0 });
     const [zoom, setZoom] = useState(1);
+    // The zoom as last set, which zoomAt builds on before the next render catches up
+    const currentZoom = useRef(zoom);
+    currentZoom.current = zoom;
+    // Size of the canvas on screen, which the stage fills
+    const [viewSize, setViewSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+    const [isSceneRestored, setIsSceneRestored] = useState(false);
+    const [error, setError] = useState('');
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [connectorDraft, setConnectorDraft] = useState<{ start: ConnectorEnd; end: ConnectorEnd } | null>(null);
+    // Shapes with the in-progress drag applied, so bound connectors follow before the move is committed
+    const [dragPreview, setDragPreview] = useState<Shape[] | null>(null);
+    const [isGridSnapEnabled, setIsGridSnapEnabled] = useState(false);
+    const [snapFeedback, setSnapFeedback] = useState<SnapFeedback | null>(null);
+    const [brush, setBrush] = useState<BrushSettings>(DEFAULT_BRUSH);
+    const [eraserMode, setEraserMode] = useState<EraserMode>('object');
+    // Pointer position shown as the eraser's outline
+    const [eraserPosition, setEraserPosition] = useState<Point | null>(null);
+    // Awareness client id of the collaborator whose view this one follows
+    const [followingId, setFollowingId] = useState<number | null>(null);
+    const [editingSticky, setEditingSticky] = useState<{ id: string; text: string } | null>(null);
+    // The image being cropped, and the part of it to keep, in the image's own space
+    const [croppingImage, setCroppingImage] = useState<{ id: string; box: Bounds } | null>(null);
+    const cropBoxRef = useRef<Konva.Rect>(null);
+    const cropTransformerRef = useRef<Konva.Transformer>(null);
+    const [isFrameListOpen, setIsFrameListOpen] = useState(false);
+    const [isLayersPanelOpen, setIsLayersPanelOpen] = useState(false);
+    const [isMinimapOpen, setIsMinimapOpen] = useState(true);
+    const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+    const [keymap, setKeymap] = useState(loadKeymap);
+    const [isSlidesPanelOpen, setIsSlidesPanelOpen] = useState(false);
+    // The running presentation: which of its slides is showing, and since when it runs, for the presenter's clock
+    const [presentation, setPresentation] = useState<{ index: number; startedAt: number } | null>(null);
+    const [isPresenterViewOpen, setIsPresenterViewOpen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isCommentsPanelOpen, setIsCommentsPanelOpen] = useState(false);
+    // The comment thread shown beside its pin, and a new pin whose first comment is still being written
+    const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+    const [draftThread, setDraftThread] = useState<CommentThread | null>(null);
+    // The library shape the toolbar's shapes button picks, and the icon the icon tool places
+    const [libraryTool, setLibraryTool] = useState<ToolType>('ellipse');
+    const [iconName, setIconName] = useState(ICONS[0].name);
+    // Corners of the polyline being placed, plus where the pointer is for the segment still to be placed
+    const [polylineDraft, setPolylineDraft] = useState<{ points: Point[]; cursor: Point } | null>(null);
     const stageRef = useRef<any>(null);
     const transformerRef = useRef<any>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const sceneFileInputRef = useRef<HTMLInputElement>(null);
     const isCtrlPressed = useRef(false);
+    const viewAnimation = useRef<number | null>(null);
+    const toolBeforePresentation = useRef<ToolType>('cursor');
+    // Laser points live outside React state so the fading trail redraws without re-rendering the app
+    const laserTrail = useRef<LaserPoint[]>([]);
+    const laserFrame = useRef<number | null>(null);
+    const laserLayerRef = useRef<Konva.Layer>(null);
+    const isLaserDown = useRef(false);
     const containerRef = useRef<HTMLDivElement>(null);
+    const gestureKey = useRef<string | null>(null);
+    // Id of the line or shape being drawn; other people's items may land on top of it meanwhile
+    const drawingItemId = useRef<string | null>(null);
+    const lastErasePoint = useRef<Point | null>(null);
+    const marqueeStart = useRef<Point | null>(null);
+    const didMarqueeSelect = useRef(false);
+    // Last copied shapes in world coordinates, for when the system clipboard is unavailable
+    const clipboardShapes = useRef<Shape[] | null>(null);
+    // Each frame's contents layer, moved along with the frame while it is dragged or resized
+    const frameContents = useRef(new Map<string, Konva.Group>());
+    const textEditorRef = useRef<HTMLDivElement>(null);
+    const isPromptingLink = useRef(false);
+
+    // Double-clicking a group enters it: its children become the items that can be selected
+    const activeGroup = activeGroupId ? findShapeInTree(shapes, activeGroupId) : undefined;
+    const scopeShapes = activeGroup?.children ?? shapes;
+
+    // Groups from the top level down to the entered one, used to map its children into world space
+    const activeGroupChain = activeGroupId
+        ? [...(getAncestorIds(shapes, activeGroupId) ?? []), activeGroupId]
+            .map((id) => findShapeInTree(shapes, id))
+            .filter((group): group is Shape => !!group)
+        : [];
+
+    const selectedShapes = scopeShapes.filter((shape) => selectedShapeIds.includes(shape.id));
+    const selectedShape = selectedShapes.length === 1 ? selectedShapes[0] : undefined;
+    const primaryShape = selectedShapes[0];
 
-    const MIN_ZOOM = 0.3;
-    const MAX_ZOOM = 1.8;
-    const ZOOM_STEP = 0.05;
+    const toWorldBounds = (bounds: Bounds) =>
+        activeGroupChain.reduceRight((result, group) => transformBounds(result, group), bounds);
+
+    // Each press of the zoom buttons scales the view by this factor
+    const ZOOM_STEP = 1.25;
+    // How strongly Ctrl+wheel zooms, per pixel of scroll; a trackpad pinch arrives as Ctrl+wheel too
+    const WHEEL_ZOOM_SPEED = 0.005;
+    // Mouse wheels scroll in large steps, so each event's effect is capped
+    const MAX_WHEEL_DELTA = 50;
     const SPACING = 50;
     const DOT_SIZE = 2;
+    const BUFFER_FACTOR = 1.5;
+    const MARQUEE_THRESHOLD = 3;
+    const AUTOSAVE_DELAY = 500;
+    const EXPORT_PADDING = 20;
+    const ROTATION_SNAP_STEP = 15;
+    const ROTATION_SNAPS = Array.from({ length: 360 / ROTATION_SNAP_STEP }, (_, i) => i * ROTATION_SNAP_STEP);
+    const SNAP_THRESHOLD = 6;
+    // World units the arrow keys move the selection, without and with Shift
+    const NUDGE_STEP = 1;
+    const LARGE_NUDGE_STEP = 10;
+    // In screen pixels, so the eraser covers the same part of the view at any zoom
+    const ERASER_RADIUS = 10;
+    // In screen pixels: how far simplification may move a finished freehand stroke
+    const SIMPLIFY_TOLERANCE = 0.75;
+    // Size of a frame placed with a click instead of a drag
+    const DEFAULT_FRAME_WIDTH = 480;
+    const DEFAULT_FRAME_HEIGHT = 320;
+    // Screen pixels left around content fitted into the view
+    const FIT_PADDING = 40;
+    // How long the view takes to glide from one slide to the next
+    const VIEW_TRANSITION_MS = 600;
+    const CORNER_ANCHORS = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+    const ALL_ANCHORS = [...CORNER_ANCHORS, 'top-center', 'middle-right', 'bottom-center', 'middle-left'];
+    const TEXT_ANCHORS = [...CORNER_ANCHORS, 'middle-right', 'middle-left'];
 
+    // All edits to shapes and lines go through the history so they can be undone.
+    // Connectors are re-routed on every edit so they stay attached to the shapes they bind.
+    // Pins on the shapes an edit deletes stay where they were, written along with the delete
+    const keepPins = (prev: Scene, next: Scene): Scene => {
+        const nextComments = keepPinsInPlace(next.comments, prev.shapes, next.shapes);
+        return nextComments === next.comments ? next : { ...next, comments: nextComments };
+    };
 
-    const generateDots = () => {
-        const dots = [];
-        const CANVAS_WIDTH = 2000;
-        const CANVAS_HEIGHT = 2000;
-
-        // Calculate the starting positions by negating the stage position
-        const startX = -position.x / zoom;
-        const startY = -position.y / zoom;
-
-        // Calculate how many dots we need in each direction
-        const dotsX = Math.ceil(CANVAS_WIDTH / SPACING);
-        const dotsY = Math.ceil(CANVAS_HEIGHT / SPACING);
-
-        for (let i = 0; i <= dotsX; i++) {
-            for (let j = 0; j <= dotsY; j++) {
-                const x = startX + (i * SPACING);
-                const y = startY + (j * SPACING);
-
-                dots.push(
-                    <Circle
-                        key={`${x}-${y}`}
-                        x={x}
-                        y={y}
-                        radius={DOT_SIZE}
-                        fill="red"
-                        listening={false}
-                    />
-                );
-            }
-        }
-        return dots;
+    const updateShapes = (updater: (shapes: Shape[]) => Shape[], options?: CommitOptions) => {
+        history.commit((scene) => {
+            const nextShapes = syncConnectors(updater(scene.shapes));
+            return nextShapes === scene.shapes ? scene : keepPins(scene, { ...scene, shapes: nextShapes });
+        }, options);
+    };
+
+    const updateLines = (updater: (lines: DrawLine[]) => DrawLine[], options?: CommitOptions) => {
+        history.commit((scene) => {
+            const nextLines = updater(scene.lines);
+            return nextLines === scene.lines ? scene : { ...scene, lines: nextLines };
+        }, options);
+    };
+
+    const updateSlides = (updater: (slides: Slide[]) => Slide[], options?: CommitOptions) => {
+        history.commit((scene) => {
+            const nextSlides = updater(scene.slides);
+            return nextSlides === scene.slides ? scene : { ...scene, slides: nextSlides };
+        }, options);
+    };
+
+    // Comments are shared but not undoable; see sharedScene.ts
+    const updateComments = (updater: (comments: CommentThread[]) => CommentThread[]) => {
+        history.commit((scene) => {
+            const nextComments = updater(scene.comments);
+            return nextComments === scene.comments ? scene : { ...scene, comments: nextComments };
+        });
+    };
+
+    // Applies per-shape patches in one history entry, e.g. after a multi-node drag or transform
+    const updateShapesById = (patches: Record<string, Partial<Shape>>, options?: CommitOptions) => {
+        if (Object.keys(patches).length === 0) return;
+        updateShapes((prev) => mapShapeTree(prev, (shape) => (patches[shape.id] ? { ...shape, ...patches[shape.id] } : shape)), options);
+    };
+
+    // Edits the items at the current group level (the top level when no group is entered)
+    const updateScope = (updater: (shapes: Shape[]) => Shape[], options?: CommitOptions) => {
+        updateShapes((prev) => updateChildren(prev, activeGroupId, updater), options);
+    };
+
+    const [gridTile] = useState(() => createGridTile(SPACING, DOT_SIZE));
+
+    // Rebuilt only when the scene changes; bounds of unchanged items come from the cache
+    const shapeIndex = useMemo(() => createSpatialIndex(shapes, getCachedShapeBounds), [shapes]);
+    const lineIndex = useMemo(() => createSpatialIndex(lines, getCachedLineBounds), [lines]);
+    const frameMembers = useMemo(() => getFrameMembers(shapes), [shapes]);
+    const frames = shapes.filter(isFrame);
+
+    // The world area on screen, grown by BUFFER_FACTOR so a short pan does not reveal missing items
+    const getVisibleBounds = (): Bounds => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        const width = (rect?.width ?? window.innerWidth) / zoom;
+        const height = (rect?.height ?? window.innerHeight) / zoom;
+        return {
+            x: -position.x / zoom - (width * (BUFFER_FACTOR - 1)) / 2,
+            y: -position.y / zoom - (height * (BUFFER_FACTOR - 1)) / 2,
+            width: width * BUFFER_FACTOR,
+            height: height * BUFFER_FACTOR,
+        };
+    };
+
+    const renderGrid = (visible: Bounds) => {
+        // Start on a grid line so the dots sit on multiples of SPACING in world space
+        const x = Math.floor(visible.x / SPACING) * SPACING;
+        const y = Math.floor(visible.y / SPACING) * SPACING;
+        return (
+            <Rect
+                x={x}
+                y={y}
+                width={visible.x + visible.width - x}
+                height={visible.y + visible.height - y}
+                // Konva takes a canvas as a pattern, although its prop types only list images
+                fillPatternImage={gridTile as unknown as HTMLImageElement}
+                fillPatternScale={{ x: 1 / GRID_TILE_SCALE, y: 1 / GRID_TILE_SCALE }}
+                fillPatternOffset={{ x: (SPACING * GRID_TILE_SCALE) / 2, y: (SPACING * GRID_TILE_SCALE) / 2 }}
+                listening={false}
+                perfectDrawEnabled={false}
+            />
+        );
     };
 
-    
-    const handleZoom = (delta: number) => {
-        const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom + delta));
+    const clampZoom = (value: number) => Math.max(minZoom, Math.min(maxZoom, value));
+
+    // Sets the zoom and moves the world point that was at `from` on screen to `anchor`, so
+    // zooming keeps the point under the cursor in place and a pinch can pan as it zooms.
+    // Wheel events come faster than renders, so each one builds on the zoom the last one set.
+    const zoomAt = (nextZoom: number | ((zoom: number) => number), anchor: Point, from: Point = anchor) => {
+        setFollowingId(null);
+        const prevZoom = currentZoom.current;
+        const newZoom = clampZoom(typeof nextZoom === 'function' ? nextZoom(prevZoom) : nextZoom);
+        currentZoom.current = newZoom;
         setZoom(newZoom);
+        setPosition((prev) => ({
+            x: anchor.x - ((from.x - prev.x) / prevZoom) * newZoom,
+            y: anchor.y - ((from.y - prev.y) / prevZoom) * newZoom,
+        }));
+    };
+
+    const viewCenter = { x: viewSize.width / 2, y: viewSize.height / 2 };
+
+    const handleZoom = (factor: number) => zoomAt((current) => current * factor, viewCenter);
+
+    const resetZoom = () => zoomAt(1, viewCenter);
+
+    // The view that centers the bounds and fits them on screen, as far as the zoom limits allow
+    const getFitView = (bounds: Bounds) => {
+        const fit = Math.min(
+            (viewSize.width - FIT_PADDING * 2) / Math.max(bounds.width, 1),
+            (viewSize.height - FIT_PADDING * 2) / Math.max(bounds.height, 1)
+        );
+        const newZoom = clampZoom(fit);
+        return {
+            zoom: newZoom,
+            position: {
+                x: viewSize.width / 2 - (bounds.x + bounds.width / 2) * newZoom,
+                y: viewSize.height / 2 - (bounds.y + bounds.height / 2) * newZoom,
+            },
+        };
+    };
+
+    const fitBounds = (bounds: Bounds) => {
+        setFollowingId(null);
+        const view = getFitView(bounds);
+        setZoom(view.zoom);
+        setPosition(view.position);
+    };
+
+    // Glides to the view: the zoom changes at an even rate and the center moves in a straight line
+    const animateView = (target: { zoom: number; position: Point }) => {
+        if (viewAnimation.current !== null) cancelAnimationFrame(viewAnimation.current);
+        setFollowingId(null);
+        const getCenter = (at: Point, scale: number) => ({
+            x: (viewSize.width / 2 - at.x) / scale,
+            y: (viewSize.height / 2 - at.y) / scale,
+        });
+        const from = getCenter(position, zoom);
+        const to = getCenter(target.position, target.zoom);
+        const fromZoom = zoom;
+        const start = performance.now();
+        const step = (now: number) => {
+            const t = Math.min(1, (now - start) / VIEW_TRANSITION_MS);
+            const eased = t < 0.5 ? 2 * t * t : 1 - (2 - 2 * t) ** 2 / 2;
+            const nextZoom = fromZoom * (target.zoom / fromZoom) ** eased;
+            setZoom(nextZoom);
+            setPosition({
+                x: viewSize.width / 2 - (from.x + (to.x - from.x) * eased) * nextZoom,
+                y: viewSize.height / 2 - (from.y + (to.y - from.y) * eased) * nextZoom,
+            });
+            viewAnimation.current = t < 1 ? requestAnimationFrame(step) : null;
+        };
+        viewAnimation.current = requestAnimationFrame(step);
+    };
+
+    const zoomToFit = () => {
+        const bounds = unionBounds([
+            ...shapes.filter((shape) => !shape.hidden).map(getCachedShapeBounds),
+            ...lines.map(getCachedLineBounds),
+        ]);
+        if (bounds) fitBounds(bounds);
+    };
+
+    const zoomToSelection = () => {
+        const bounds = unionBounds(selectedShapes.map((shape) => toWorldBounds(getShapeBounds(shape))));
+        if (bounds) fitBounds(bounds);
+    };
+
+    // Fits the frame in the view and selects it
+    const jumpToFrame = (frame: Shape) => {
+        setIsFrameListOpen(false);
+        fitBounds(getFrameBounds(frame));
+        setActiveGroupId(null);
+        setSelectedShapeIds([frame.id]);
+    };
+
+    // Recenters the view on a world point, e.g. one picked on the minimap
+    const centerOn = (point: Point) => {
+        setFollowingId(null);
+        setPosition({ x: viewSize.width / 2 - point.x * zoom, y: viewSize.height / 2 - point.y * zoom });
+    };
+
+    const openThread = draftThread ?? comments.find((thread) => thread.id === openThreadId);
+
+    const closeThread = () => {
+        setOpenThreadId(null);
+        setDraftThread(null);
+    };
+
+    const showThread = (thread: CommentThread) => {
+        setDraftThread(null);
+        setOpenThreadId(thread.id);
+    };
+
+    // The shape a new pin goes on: the topmost one at the point, though not a frame when something inside it was hit
+    const getShapeAt = (point: Point) => {
+        const hits = shapeIndex.searchPoint(point).filter((shape) => !shape.hidden && hitTestShape(shape, point, 0));
+        return hits.reverse().find((shape) => !isFrame(shape)) ?? hits[0];
+    };
+
+    const updateThread = (id: string, updater: (thread: CommentThread) => CommentThread) =>
+        updateComments((prev) => prev.map((thread) => (thread.id === id ? updater(thread) : thread)));
+
+    // The first comment posts the new pin along with it
+    const postComment = (text: string, mentions: string[]) => {
+        const comment = createComment(presence.user.name, text, mentions);
+        if (draftThread) {
+            updateComments((prev) => [...prev, { ...draftThread, comments: [comment] }]);
+            showThread(draftThread);
+        } else if (openThreadId) {
+            updateThread(openThreadId, (thread) => ({ ...thread, comments: [...thread.comments, comment] }));
+        }
+    };
+
+    const resolveThread = (id: string, resolved: boolean) =>
+        updateThread(id, (thread) => ({
+            ...thread,
+            resolvedBy: resolved ? presence.user.name : undefined,
+            resolvedAt: resolved ? Date.now() : undefined,
+        }));
+
+    const deleteThread = (id: string) => {
+        updateComments((prev) => prev.filter((thread) => thread.id !== id));
+        closeThread();
+    };
+
+    const presentationSlides = getPresentationSlides(slides, shapes);
+    const slideIndex = presentation ? Math.min(presentation.index, presentationSlides.length - 1) : -1;
+
+    const showSlide = (slide: Slide, animate: boolean) => {
+        const bounds = getSlideBounds(slide, shapes);
+        if (!bounds) return;
+        if (animate) {
+            animateView(getFitView(bounds));
+        } else {
+            fitBounds(bounds);
+        }
+    };
+
+    const addViewSlide = () => {
+        updateSlides((prev) => [...prev, createViewSlide({
+            x: -position.x / zoom,
+            y: -position.y / zoom,
+            width: viewSize.width / zoom,
+            height: viewSize.height / zoom,
+        })]);
+    };
+
+    // Hides the editing tools and switches to the laser pointer until the presentation ends
+    const startPresentation = (slideId?: string) => {
+        if (presentationSlides.length === 0) {
+            setError('Add a frame or a slide to present.');
+            return;
+        }
+        const index = Math.max(0, presentationSlides.findIndex((slide) => slide.id === slideId));
+        toolBeforePresentation.current = tool;
+        selectTool('laser');
+        setSelectedShapeIds([]);
+        setActiveGroupId(null);
+        setPresentation({ index, startedAt: Date.now() });
+        showSlide(presentationSlides[index], true);
+        // Browsers may refuse full screen, and the presentation works without it
+        document.documentElement.requestFullscreen?.().catch(() => undefined);
+    };
+
+    const goToSlide = (index: number) => {
+        if (!presentation || presentationSlides.length === 0) return;
+        const next = Math.max(0, Math.min(presentationSlides.length - 1, index));
+        setPresentation({ ...presentation, index: next });
+        showSlide(presentationSlides[next], true);
+    };
+
+    const stopPresentation = () => {
+        setPresentation(null);
+        setIsPresenterViewOpen(false);
+        setTool(toolBeforePresentation.current);
+        if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+    };
+
+    // Keeps the trail fading by redrawing its layer every frame until the last point has faded
+    const addLaserPoint = (point: Point, isStart = false) => {
+        laserTrail.current.push({ ...point, time: performance.now(), isStart });
+        if (laserFrame.current !== null) return;
+        const step = () => {
+            const now = performance.now();
+            laserTrail.current = laserTrail.current.filter((item) => now - item.time < LASER_FADE_MS);
+            laserLayerRef.current?.batchDraw();
+            laserFrame.current = laserTrail.current.length > 0 ? requestAnimationFrame(step) : null;
+        };
+        laserFrame.current = requestAnimationFrame(step);
+    };
+
+    const toContainerPoint = (clientX: number, clientY: number): Point => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        return { x: clientX - (rect?.left ?? 0), y: clientY - (rect?.top ?? 0) };
     };
 
-    const bind = useGesture({
+    // Bound to the container rather than spread onto it, so the wheel listener is not passive
+    // and can stop the browser from zooming the page
+    useGesture({
         onDrag: ({ delta: [dx, dy], event, down }) => {
             if (!(event.ctrlKey && down)) return;
+            setFollowingId(null);
 
             setPosition(prev => ({
                 x: prev.x + dx,
@@ -121,11 +796,37 @@ const DrawingApp = () => {
             }));
         },
         onWheel: ({ event }) => {
-            if (!event.ctrlKey || !(event instanceof WheelEvent)) return;
+            // Leave scrolling to the panels over the canvas
+            if (!(event instanceof WheelEvent) || !stageRef.current?.container().contains(event.target as Node)) return;
             event.preventDefault();
-            const delta = event.deltaY < 0 ? ZOOM_STEP : -ZOOM_STEP;
-            handleZoom(delta);
-        }
+            if (event.ctrlKey || event.metaKey) {
+                const delta = Math.max(-MAX_WHEEL_DELTA, Math.min(MAX_WHEEL_DELTA, event.deltaY));
+                zoomAt((current) => current * Math.exp(-delta * WHEEL_ZOOM_SPEED), toContainerPoint(event.clientX, event.clientY));
+            } else {
+                // Two fingers on a trackpad, or a plain mouse wheel, scroll the view
+                setFollowingId(null);
+                setPosition((prev) => ({ x: prev.x - event.deltaX, y: prev.y - event.deltaY }));
+            }
+        },
+        // Touch screens and Safari's trackpad gestures; moving the fingers together pans as well
+        onPinch: ({ origin: [ox, oy], offset: [scale], first, memo }) => {
+            const anchor = toContainerPoint(ox, oy);
+            if (first) {
+                // The first finger down may have started a rubber band
+                marqueeStart.current = null;
+                setSelectionRect(null);
+            }
+            zoomAt(scale, anchor, first ? anchor : memo);
+            return anchor;
+        },
+    }, {
+        target: containerRef,
+        eventOptions: { passive: false },
+        pinch: {
+            from: () => [currentZoom.current, 0],
+            scaleBounds: { min: minZoom, max: maxZoom },
+            pinchOnWheel: false,
+        },
     });
 
     const adjustCoordinates = (stage: any, x: number, y: number) => {
@@ -143,9 +844,12 @@ const DrawingApp = () => {
     useEffect(() => {
         const container = containerRef.current;
         if (container) {
+            // The world origin starts in the middle of the view; later resizes keep the view where it is
+            const rect = container.getBoundingClientRect();
+            setPosition({ x: rect.width / 2, y: rect.height / 2 });
             const handleResize = () => {
-                const rect = container.getBoundingClientRect();
-                setPosition({ x: rect.width / 2, y: rect.height / 2 });
+                const { width, height } = container.getBoundingClientRect();
+                setViewSize({ width, height });
             };
             window.addEventListener('resize', handleResize);
             handleResize();
@@ -153,8 +857,207 @@ const DrawingApp = () => {
         }
     }, []);
 
+    const { setSelection: shareSelection, setViewport: shareViewport } = presence;
+
+    useEffect(() => {
+        shareSelection(selectedShapeIds);
+    }, [selectedShapeIds, shareSelection]);
+
+    useEffect(() => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        shareViewport({
+            position,
+            zoom,
+            width: rect?.width ?? window.innerWidth,
+            height: rect?.height ?? window.innerHeight,
+        });
+    }, [position, zoom, shareViewport]);
+
+    // Following keeps this view centered where the collaborator looks, until they leave
+    const followedPeer = presence.peers.find((peer) => peer.clientId === followingId);
+    const isFollowedPresent = !!followedPeer;
+    const followedViewport = followedPeer?.viewport;
+
+    useEffect(() => {
+        if (followingId === null) return;
+        if (!isFollowedPresent) {
+            setFollowingId(null);
+            return;
+        }
+        if (!followedViewport) return;
+        const rect = containerRef.current?.getBoundingClientRect();
+        // Their zoom limits may differ from ours; the view keeps their center at the nearest zoom we allow
+        const nextZoom = Math.max(minZoom, Math.min(maxZoom, followedViewport.zoom));
+        const next = matchViewport(followedViewport, rect?.width ?? window.innerWidth, rect?.height ?? window.innerHeight, nextZoom);
+        // Their state is replaced whenever their pointer moves, so keep the view when it did not change
+        setPosition((prev) => (prev.x === next.x && prev.y === next.y ? prev : next));
+        setZoom(nextZoom);
+    }, [followingId, isFollowedPresent, followedViewport, minZoom, maxZoom]);
+
+    const handleRename = () => {
+        const name = window.prompt('Your name on this board', presence.user.name)?.trim();
+        if (name) presence.setName(name);
+    };
+
+    const { initialize: initializeScene, isSynced } = history;
+
+    // Once the shared board has loaded, restore this browser's last view of it. The autosaved scene
+    // fills the board only the first time this browser opens it, and only if it is still empty, e.g. one
+    // drawn before boards were shared. Later it would bring back what collaborators have since cleared.
+    useEffect(() => {
+        if (!isSynced) return;
+        let cancelled = false;
+        Promise.all([loadSceneFromStorage(boardId), isBoardShared(boardId)])
+            .then(async ([doc, isShared]) => {
+                if (cancelled) return;
+                if (doc && !isShared) {
+                    const { scene } = await deserializeScene(doc);
+                    if (cancelled) return;
+                    initializeScene(scene);
+                }
+                if (!isShared) await markBoardShared(boardId);
+                if (!doc || cancelled) return;
+                setPosition(doc.viewport.position);
+                setZoom(doc.viewport.zoom);
+            })
+            .catch(() => setError('Failed to restore the saved board.'))
+            .finally(() => {
+                if (!cancelled) setIsSceneRestored(true);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isSynced, boardId, initializeScene]);
+
+    // What the autosave writes. Only edits trigger it: the view goes along with them, so panning
+    // and zooming never re-serialize the board frame by frame.
+    const latestSave = useRef({ scene: history.present, viewport: { position, zoom } });
+    latestSave.current = { scene: history.present, viewport: { position, zoom } };
+
+    // Autosave after edits settle; waits for the restore so an empty board never overwrites the saved one
+    useEffect(() => {
+        if (!isSceneRestored) return;
+        const save = () => {
+            const { scene, viewport } = latestSave.current;
+            serializeScene(scene, viewport)
+                .then((doc) => saveSceneToStorage(doc, boardId))
+                .catch(() => setError('Failed to save the board in this browser.'));
+        };
+        // Leaving the page keeps the view as it is then, however far it moved since the last edit
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') save();
+        };
+        const timeout = window.setTimeout(save, AUTOSAVE_DELAY);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            window.clearTimeout(timeout);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
+    }, [isSceneRestored, shapes, lines, slides, comments, boardId]);
+
+    const { takeAutoSnapshot, watchSnapshots } = history;
+    const userName = presence.user.name;
+
+    // Every client checks now and then; one of them takes snapshots for the whole board, see takeAutoSnapshot
+    useEffect(() => {
+        if (!isSynced) return;
+        const interval = window.setInterval(() => takeAutoSnapshot(userName), SNAPSHOT_CHECK_INTERVAL);
+        return () => window.clearInterval(interval);
+    }, [isSynced, takeAutoSnapshot, userName]);
+
+    // The versions are only loaded while they are shown
+    useEffect(() => (isHistoryOpen ? watchSnapshots() : undefined), [isHistoryOpen, watchSnapshots]);
+
+    // Restoring is one undo step, and the board as it was is kept as a version first.
+    // The discussion carries on: comments stay as they are now.
+    const restoreSnapshot = (snapshot: SceneSnapshot, scene: Scene) => {
+        history.takeSnapshot(presence.user.name, `Before restoring ${snapshot.name || new Date(snapshot.createdAt).toLocaleString()}`);
+        history.commit((present) => keepPins(present, { ...scene, comments: present.comments }));
+        setSelectedShapeIds([]);
+        setActiveGroupId(null);
+        setIsHistoryOpen(false);
+    };
+
+    const handleSaveSceneFile = async () => {
+        const doc = await serializeScene({ shapes, lines, slides, comments }, { position, zoom });
+        const blob = new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' });
+        saveAs(blob, `board-${new Date().toISOString().slice(0, 10)}.json`);
+    };
+
+    const handleExport = async (options: ExportOptions) => {
+        let scene: Scene = { shapes, lines, slides: [], comments: [] };
+        let bounds: Bounds | null;
+
+        if (options.scope === 'viewport') {
+            const rect = containerRef.current?.getBoundingClientRect();
+            bounds = {
+                x: -position.x / zoom,
+                y: -position.y / zoom,
+                width: (rect?.width ?? window.innerWidth) / zoom,
+                height: (rect?.height ?? window.innerHeight) / zoom,
+            };
+        } else if (options.scope === 'frame') {
+            const frame = frames.find((shape) => shape.id === options.frameId);
+            bounds = frame ? getFrameBounds(frame) : null;
+            if (frame && bounds) {
+                // The frame with its contents, the connectors between them, and the strokes drawn across it
+                const members = frameMembers.get(frame.id) || [];
+                const memberIds = new Set(members.map((shape) => shape.id));
+                const connectors = shapes.filter((shape) =>
+                    shape.type === 'connector'
+                    && !!shape.start?.shapeId && memberIds.has(shape.start.shapeId)
+                    && !!shape.end?.shapeId && memberIds.has(shape.end.shapeId)
+                );
+                scene = { shapes: [frame, ...members, ...connectors], lines: lineIndex.search(bounds), slides: [], comments: [] };
+            }
+        } else {
+            if (options.scope === 'selection') {
+                // Keep the enclosing groups so children of an entered group export in place
+                scene = { shapes: pruneToSelection(shapes, selectedShapeIds), lines: [], slides: [], comments: [] };
+            }
+            const contentBounds = unionBounds([
+                ...scene.shapes.filter((shape) => !shape.hidden).map(getShapeBounds),
+                ...scene.lines.map(getLineBounds),
+            ]);
+            bounds = contentBounds && expandBounds(contentBounds, EXPORT_PADDING);
+        }
 
+        if (!bounds) {
+            setError('There is nothing to export.');
+            return;
+        }
+
+        setError('');
+        setIsExporting(true);
+        try {
+            const blob = await exportScene(scene, bounds, options);
+            saveAs(blob, `board-${new Date().toISOString().slice(0, 10)}.${options.format}`);
+            setIsExportMenuOpen(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to export the board.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
+    const handleOpenSceneFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setError('');
+        try {
+            const { scene, viewport } = await deserializeScene(await parseSceneDocument(await file.text()));
+            // Opening a board is undoable like any other edit
+            history.commit(() => scene);
+            setSelectedShapeIds([]);
+            setActiveGroupId(null);
+            setPosition(viewport.position);
+            setZoom(viewport.zoom);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to open the board file.');
+        }
+    };
 
     const tools: Tool[] = [
         { name: 'cursor', icon: '👆' },
@@ -165,15 +1068,57 @@ const DrawingApp = () => {
         { name: 'text', icon: 'T' },
         { name: 'image', icon: '🖼️' }, // New image tool
         { name: 'pen', icon: '🖋️' },
+        { name: 'connector', icon: '🔗' },
+        { name: 'sticky', icon: '🗒️' },
+        { name: 'frame', icon: '⬚' },
+        { name: 'laser', icon: '🔴' },
+        { name: 'comment', icon: '💬' },
+        { name: libraryTool, icon: '🔷' },
     ];
 
     const selectTool = (newTool: ToolType) => {
         if (tool === 'pen' && currentPenPath.length > 0) {
             commitPenPath();
         }
+        if (croppingImage) {
+            finishCropping();
+        }
+        if (polylineDraft) {
+            commitPolyline();
+        }
+        if (draftThread) {
+            setDraftThread(null);
+        }
+        if (SHAPE_TOOLS.some((item) => item.value === newTool)) {
+            setLibraryTool(newTool);
+        }
         setTool(newTool);
     };
 
+    // Places the polyline drawn so far; repeated clicks on one spot, as from a double-click, add no corners
+    const commitPolyline = () => {
+        if (!polylineDraft) return;
+        const corners = polylineDraft.points.filter((point, index, all) =>
+            index === 0 || point.x !== all[index - 1].x || point.y !== all[index - 1].y
+        );
+        setPolylineDraft(null);
+        if (corners.length < 2) return;
+        const [origin] = corners;
+        const newShape: Shape = {
+            id: createId('line'),
+            type: 'line',
+            x: origin.x,
+            y: origin.y,
+            width: 0,
+            height: 0,
+            fill: '',
+            stroke: strokeColor,
+            strokeWidth: 2,
+            points: corners.map((point) => ({ x: point.x - origin.x, y: point.y - origin.y })),
+        };
+        updateShapes((prev) => [...prev, newShape]);
+    };
+
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
             if (e.key === 'Escape' && tool === 'pen' && currentPenPath.length > 0) {
@@ -187,7 +1132,7 @@ const DrawingApp = () => {
     const commitPenPath = () => {
         if (currentPenPath.length > 0) {
             const newShape: Shape = {
-                id: `pen-${Date.now()}`,
+                id: createId('pen'),
                 type: 'pen',
                 x: 0,
                 y: 0,
@@ -198,65 +1143,281 @@ const DrawingApp = () => {
                 strokeWidth: 2,
                 points: [...currentPenPath],
             };
-            setShapes([...shapes, newShape]);
+            updateShapes((prev) => [...prev, newShape]);
             setCurrentPenPath([]);
         }
     };
 
-    // Handle mouse down for drawing, shapes, and text
-    const handleMouseDown = (e: KonvaEventObject<MouseEvent>) => {
+    // Erases what the pointer crossed between two moves. Top-level items go as a whole, so a group is
+    // erased by touching any of its children; in stroke mode freehand lines lose only the part crossed.
+    const eraseAlong = (from: Point, to: Point) => {
+        const radius = ERASER_RADIUS / zoom;
+        const samples = sampleSegment(from, to, radius / 2);
+        const area = expandBounds(getPointsBounds(samples)!, radius);
+        const shapeIds = new Set(
+            shapeIndex.search(area)
+                .filter((shape) => isSelectable(shape) && samples.some((point) => hitTestShape(shape, point, radius)))
+                .map((shape) => shape.id)
+        );
+        const lineIds = new Set(
+            lineIndex.search(area)
+                .filter((line) => samples.some((point) => hitTestLine(line, point, radius)))
+                .map((line) => line.id)
+        );
+        if (shapeIds.size === 0 && lineIds.size === 0) return;
+
+        history.commit((scene) => {
+            const newLines = eraserMode === 'stroke'
+                ? scene.lines.flatMap((line) => (lineIds.has(line.id) ? cutLine(line, samples, radius) : [line]))
+                : scene.lines.filter((line) => !lineIds.has(line.id));
+            const newShapes = scene.shapes.filter((shape) => !shapeIds.has(shape.id));
+            return keepPins(scene, {
+                ...scene,
+                lines: lineIds.size > 0 ? newLines : scene.lines,
+                // Connectors bound to an erased shape keep their last position as a free end
+                shapes: shapeIds.size > 0 ? syncConnectors(newShapes) : scene.shapes,
+            });
+        }, { mergeKey: gestureKey.current ?? undefined });
+    };
+
+    // Handle pointer down for drawing, shapes, and text
+    const handlePointerDown = (e: KonvaEventObject<PointerEvent>) => {
+        // Holding space or pressing the middle button pans whatever the tool
+        if (isSpacePressed || e.evt.button === 1) {
+            setPanPointer({ x: e.evt.clientX, y: e.evt.clientY });
+            return;
+        }
+        // Further fingers belong to a pinch, not to the tool
+        if (!e.evt.isPrimary) return;
+        // Pressing anywhere but the crop box and its handles applies the crop
+        if (croppingImage && e.target !== cropBoxRef.current && e.target.getParent() !== cropTransformerRef.current) {
+            finishCropping();
+            return;
+        }
+        // Pressing anywhere off an open comment thread closes it
+        if (openThread) {
+            closeThread();
+            return;
+        }
         const stage = e.target.getStage();
         const pos = stage?.getPointerPosition();
+        if (tool === 'comment') {
+            if (pos) {
+                const point = adjustCoordinates(stage, pos.x, pos.y);
+                setDraftThread(createThread(point, shapes, getShapeAt(point)?.id));
+            }
+            return;
+        }
+        if (tool === 'laser') {
+            if (pos) {
+                isLaserDown.current = true;
+                addLaserPoint(adjustCoordinates(stage, pos.x, pos.y), true);
+            }
+            return;
+        }
         if (pos) {
             const adjustedPos = adjustCoordinates(stage, pos.x, pos.y);
 
-            if (tool === 'draw') {
+            if (tool === 'cursor' && e.target === stage && !e.evt.ctrlKey) {
+                // Pressing on empty canvas starts a rubber-band selection
+                marqueeStart.current = adjustedPos;
+                setSelectionRect({ x: adjustedPos.x, y: adjustedPos.y, width: 0, height: 0 });
+            } else if (tool === 'draw') {
+                const pressure = getPenPressure(e.evt);
+                const newLine: DrawLine = {
+                    id: createId('line'),
+                    tool,
+                    points: [adjustedPos.x, adjustedPos.y],
+                    color: strokeColor,
+                    ...brush,
+                    ...(pressure !== undefined && { pressures: [pressure] }),
+                };
+                drawingItemId.current = newLine.id;
+                gestureKey.current = `draw-${newLine.id}`;
                 setIsDrawing(true);
-                setLines([...lines, { tool, points: [adjustedPos.x, adjustedPos.y], color: strokeColor }]);
-            } else if (['rectangle', 'circle'].includes(tool)) {
+                updateLines((prev) => [...prev, newLine], { mergeKey: gestureKey.current });
+            } else if (BOX_TOOLS.includes(tool) || tool === 'line') {
+                const origin = snapToGridIfEnabled(adjustedPos);
                 const newShape: Shape = {
-                    id: `shape-${Date.now()}`,
+                    id: createId('shape'),
                     type: tool as Shape['type'],
-                    x: adjustedPos.x,
-                    y: adjustedPos.y,
+                    x: origin.x,
+                    y: origin.y,
                     width: 0,
                     height: 0,
                     fill: fillColor,
                     stroke: strokeColor,
                     strokeWidth: 2,
+                    // A rounded rectangle is a rectangle with its corners rounded
+                    ...(tool === 'roundedRectangle' && { type: 'rectangle', cornerRadius: DEFAULT_CORNER_RADIUS }),
+                    // A line runs from where it was pressed to where the pointer is
+                    ...(tool === 'line' && { fill: '', points: [{ x: 0, y: 0 }, { x: 0, y: 0 }] }),
+                    // Frames are see-through with a light border, so what is drawn under them stays visible
+                    ...(tool === 'frame' && { fill: '', stroke: '#9ca3af', strokeWidth: 1, text: getNextFrameName(shapes) }),
                 };
-                setShapes([...shapes, newShape]);
+                drawingItemId.current = newShape.id;
+                gestureKey.current = `create-${newShape.id}`;
+                updateShapes((prev) => [...prev, newShape], { mergeKey: gestureKey.current });
                 setIsDrawing(true);
+            } else if (tool === 'polyline') {
+                const corner = snapToGridIfEnabled(adjustedPos);
+                setPolylineDraft({ points: [...(polylineDraft?.points ?? []), corner], cursor: corner });
+            } else if (tool === 'icon') {
+                const center = snapToGridIfEnabled(adjustedPos);
+                const newShape: Shape = {
+                    id: createId('icon'),
+                    type: 'icon',
+                    x: center.x - ICON_SIZE / 2,
+                    y: center.y - ICON_SIZE / 2,
+                    width: ICON_SIZE,
+                    height: ICON_SIZE,
+                    // Icons are solid glyphs, so they take the stroke color
+                    fill: strokeColor,
+                    stroke: '',
+                    strokeWidth: 0,
+                    icon: iconName,
+                };
+                updateShapes((prev) => [...prev, newShape]);
+            } else if (tool === 'sticky') {
+                const center = snapToGridIfEnabled(adjustedPos);
+                const newShape: Shape = {
+                    id: createId('sticky'),
+                    type: 'sticky',
+                    x: center.x - STICKY_SIZE / 2,
+                    y: center.y - STICKY_SIZE / 2,
+                    width: STICKY_SIZE,
+                    height: STICKY_SIZE,
+                    fill: STICKY_COLORS[0].value,
+                    stroke: '',
+                    strokeWidth: 0,
+                    text: '',
+                    fontFamily: 'Arial',
+                };
+                updateShapes((prev) => [...prev, newShape]);
+                // A new note goes straight into editing
+                setEditingSticky({ id: newShape.id, text: '' });
             } else if (tool === 'text') {
-                setTextInputPosition({ x: adjustedPos.x, y: adjustedPos.y });
-                setIsTextInputVisible(true);
+                // Clicking away from the text being written finishes it instead of starting another
+                if (editingText) {
+                    finishTextEditing();
+                    return;
+                }
+                startTextEditing({
+                    id: createId('text'),
+                    type: 'text',
+                    x: adjustedPos.x,
+                    y: adjustedPos.y,
+                    width: 0,
+                    height: 0,
+                    fill: textProps.fill,
+                    stroke: '#000000',
+                    strokeWidth: 0,
+                    text: '',
+                    fontSize: textProps.fontSize,
+                    fontFamily: textProps.fontFamily,
+                }, true);
             } else if (tool === 'eraser') {
-                const newLines = lines.filter((line) => {
-                    return !line.points.some((point, index) => {
-                        const x = line.points[index];
-                        const y = line.points[index + 1];
-                        return Math.abs(x - adjustedPos.x) < 10 && Math.abs(y - adjustedPos.y) < 10;
-                    });
-                });
-                setLines(newLines);
-
-                const newShapes = shapes.filter((shape) => {
-                    return !(
-                        adjustedPos.x >= shape.x &&
-                        adjustedPos.x <= shape.x + shape.width &&
-                        adjustedPos.y >= shape.y &&
-                        adjustedPos.y <= shape.y + shape.height
-                    );
-                });
-                setShapes(newShapes);
+                // Everything erased in one drag is a single history entry
+                gestureKey.current = `erase-${Date.now()}`;
+                lastErasePoint.current = adjustedPos;
+                setIsDrawing(true);
+                eraseAlong(adjustedPos, adjustedPos);
             } else if (tool === 'pen') {
                 setCurrentPenPath([...currentPenPath, { x: adjustedPos.x, y: adjustedPos.y }]);
+            } else if (tool === 'connector') {
+                const start = getConnectorEnd(e.target, adjustedPos);
+                setConnectorDraft({ start, end: { point: adjustedPos } });
+            }
+        }
+    };
+
+    const snapToGridIfEnabled = (point: Point) =>
+        isGridSnapEnabled ? { x: snapToGrid(point.x, SPACING), y: snapToGrid(point.y, SPACING) } : point;
+
+    // Binds a connector end to the nearest anchor of the shape under the pointer, if it has one
+    const getConnectorEnd = (node: Konva.Node | null, point: Point, excludeId?: string): ConnectorEnd => {
+        let current = node;
+        while (current && current !== stageRef.current) {
+            const shape = current.id() ? findShapeInTree(shapes, current.id()) : undefined;
+            const bounds = shape && shape.id !== excludeId && isBindable(shape) ? getWorldBounds(shapes, shape.id) : null;
+            if (shape && bounds) {
+                const anchor = getNearestAnchor(bounds, point);
+                return { shapeId: shape.id, anchor, point: getAnchorPoint(bounds, anchor) };
             }
+            current = current.getParent();
         }
+        return { point };
+    };
+
+    const finishConnector = () => {
+        const draft = connectorDraft;
+        setConnectorDraft(null);
+        if (!draft) return;
+
+        const length = Math.hypot(draft.end.point.x - draft.start.point.x, draft.end.point.y - draft.start.point.y);
+        if (length * zoom < MARQUEE_THRESHOLD) return;
+
+        // Connectors always live at the top level since their path is stored in world coordinates
+        const connector: Shape = {
+            id: createId('connector'),
+            type: 'connector',
+            x: 0,
+            y: 0,
+            width: 0,
+            height: 0,
+            fill: '',
+            stroke: strokeColor,
+            strokeWidth: 2,
+            start: draft.start,
+            end: draft.end,
+            routing: 'straight',
+            startArrow: 'none',
+            endArrow: 'arrow',
+            text: '',
+        };
+        updateShapes((prev) => [...prev, connector]);
     };
 
-    // Handle mouse move for drawing and resizing shapes
-    const handleMouseMove = (e: KonvaEventObject<MouseEvent>) => {
+    // Handle pointer move for drawing and resizing shapes
+    const handlePointerMove = (e: KonvaEventObject<PointerEvent>) => {
+        if (panPointer) {
+            const next = { x: e.evt.clientX, y: e.evt.clientY };
+            setFollowingId(null);
+            setPosition((prev) => ({ x: prev.x + next.x - panPointer.x, y: prev.y + next.y - panPointer.y }));
+            setPanPointer(next);
+            return;
+        }
+        const pointerStage = e.target.getStage();
+        const pointer = pointerStage?.getPointerPosition();
+        if (pointer) {
+            const worldPointer = adjustCoordinates(pointerStage, pointer.x, pointer.y);
+            presence.setCursor(worldPointer);
+            if (tool === 'eraser') setEraserPosition(worldPointer);
+            if (tool === 'laser' && isLaserDown.current) addLaserPoint(worldPointer);
+            if (polylineDraft) setPolylineDraft({ ...polylineDraft, cursor: snapToGridIfEnabled(worldPointer) });
+        }
+
+        if (connectorDraft) {
+            const stage = e.target.getStage();
+            const pos = stage?.getPointerPosition();
+            if (pos) {
+                const adjustedPos = adjustCoordinates(stage, pos.x, pos.y);
+                setConnectorDraft({ ...connectorDraft, end: getConnectorEnd(e.target, adjustedPos, connectorDraft.start.shapeId) });
+            }
+            return;
+        }
+
+        const start = marqueeStart.current;
+        if (start) {
+            const stage = e.target.getStage();
+            const pos = stage?.getPointerPosition();
+            if (pos) {
+                const adjustedPos = adjustCoordinates(stage, pos.x, pos.y);
+                setSelectionRect(normalizeBounds(start.x, start.y, adjustedPos.x - start.x, adjustedPos.y - start.y));
+            }
+            return;
+        }
+
         if (!isDrawing) return;
 
         const stage = e.target.getStage();
@@ -264,409 +1425,2049 @@ const DrawingApp = () => {
         if (pos) {
             const adjustedPos = adjustCoordinates(stage, pos.x, pos.y);
 
+            const mergeKey = gestureKey.current ?? undefined;
+
             if (tool === 'draw') {
-                const lastLine = lines[lines.length - 1];
-                if (lastLine) {
-                    lastLine.points = lastLine.points.concat([adjustedPos.x, adjustedPos.y]);
-                    lines.splice(lines.length - 1, 1, lastLine);
-                    setLines([...lines]);
-                }
-            } else if (['rectangle', 'circle'].includes(tool)) {
-                const lastShape = shapes[shapes.length - 1];
-                if (lastShape) {
-                    const newWidth = adjustedPos.x - lastShape.x;
-                    const newHeight = adjustedPos.y - lastShape.y;
-                    shapes.splice(shapes.length - 1, 1, {
-                        ...lastShape,
-                        width: newWidth,
-                        height: newHeight,
-                    });
-                    setShapes([...shapes]);
-                }
+                const pressure = getPenPressure(e.evt);
+                updateLines((prev) => prev.map((line) => {
+                    if (line.id !== drawingItemId.current) return line;
+                    const previous = { x: line.points[line.points.length - 2], y: line.points[line.points.length - 1] };
+                    const point = streamlinePoint(previous, adjustedPos);
+                    return {
+                        ...line,
+                        points: line.points.concat([point.x, point.y]),
+                        ...(line.pressures && { pressures: [...line.pressures, pressure ?? line.pressures[line.pressures.length - 1]] }),
+                    };
+                }), { mergeKey });
+            } else if (tool === 'eraser') {
+                eraseAlong(lastErasePoint.current ?? adjustedPos, adjustedPos);
+                lastErasePoint.current = adjustedPos;
+            } else if (BOX_TOOLS.includes(tool)) {
+                const corner = snapToGridIfEnabled(adjustedPos);
+                updateShapes((prev) => prev.map((shape) =>
+                    shape.id === drawingItemId.current
+                        ? { ...shape, width: corner.x - shape.x, height: corner.y - shape.y }
+                        : shape
+                ), { mergeKey });
+            } else if (tool === 'line') {
+                const end = snapToGridIfEnabled(adjustedPos);
+                updateShapes((prev) => prev.map((shape) =>
+                    shape.id === drawingItemId.current
+                        ? { ...shape, points: [{ x: 0, y: 0 }, { x: end.x - shape.x, y: end.y - shape.y }] }
+                        : shape
+                ), { mergeKey });
             }
         }
     };
-    // Handle mouse up to stop drawing
-    const handleMouseUp = () => {
+    const finishMarqueeSelection = (additive: boolean) => {
+        const rect = selectionRect;
+        marqueeStart.current = null;
+        setSelectionRect(null);
+
+        // A press without a real drag is a plain click and is handled by handleStageClick
+        if (!rect || (rect.width * zoom < MARQUEE_THRESHOLD && rect.height * zoom < MARQUEE_THRESHOLD)) return;
+
+        const hits = scopeShapes
+            .filter((shape) => isSelectable(shape) && boundsIntersect(rect, toWorldBounds(getShapeBounds(shape))))
+            .map((shape) => shape.id);
+        setSelectedShapeIds((prev) => (additive ? Array.from(new Set([...prev, ...hits])) : hits));
+        didMarqueeSelect.current = true;
+    };
+
+    // Handle pointer up to stop drawing
+    const handlePointerUp = (e: KonvaEventObject<PointerEvent>) => {
+        if (panPointer) {
+            setPanPointer(null);
+            return;
+        }
+        isLaserDown.current = false;
+        if (marqueeStart.current) {
+            finishMarqueeSelection(e.evt.shiftKey);
+        }
+        if (connectorDraft) {
+            finishConnector();
+        }
         if (tool === 'pen' && mousePosition) {
             setCurrentPenPath([...currentPenPath, mousePosition]);
         }
+        if (tool === 'frame' && drawingItemId.current) {
+            // Frames are stored with their corner at the top left, and a plain click gives a default-sized one
+            const frameId = drawingItemId.current;
+            updateShapes((prev) => prev.map((shape) => {
+                if (shape.id !== frameId) return shape;
+                const bounds = getFrameBounds(shape);
+                return bounds.width * zoom < MARQUEE_THRESHOLD && bounds.height * zoom < MARQUEE_THRESHOLD
+                    ? { ...shape, width: DEFAULT_FRAME_WIDTH, height: DEFAULT_FRAME_HEIGHT }
+                    : { ...shape, ...bounds };
+            }), { mergeKey: gestureKey.current ?? undefined });
+        }
+        if (tool === 'draw' && drawingItemId.current) {
+            // The finished stroke keeps only the points needed to draw it, as part of the same undo step
+            const lineId = drawingItemId.current;
+            updateLines((prev) => prev.map((line) => (line.id === lineId ? simplifyLine(line, SIMPLIFY_TOLERANCE / zoom) : line)), {
+                mergeKey: gestureKey.current ?? undefined,
+            });
+        }
         setIsDrawing(false);
         setMousePosition(null);
+        gestureKey.current = null;
+        drawingItemId.current = null;
+        lastErasePoint.current = null;
+        history.seal();
+    };
+
+    // Walks up from a clicked node to the item it belongs to at the current group level
+    const resolveScopeItem = (node: Konva.Node | null) => {
+        let current = node;
+        while (current && current !== stageRef.current) {
+            const id = current.id();
+            const item = id ? scopeShapes.find((shape) => shape.id === id) : undefined;
+            // Locked items cannot be picked, so clicking one is like clicking the empty canvas
+            if (item) return item.locked ? null : id;
+            current = current.getParent();
+        }
+        return null;
     };
 
-    // Handle shape click to select it
+    // Handle shape click to select it; Shift toggles it in the current selection, and Ctrl/Cmd opens a link in a text
     const handleShapeClick = (e: KonvaEventObject<MouseEvent>) => {
+        if (tool === 'cursor' && (e.evt.ctrlKey || e.evt.metaKey)) {
+            const text = findShapeInTree(shapes, e.target.id());
+            const point = e.target.getRelativePointerPosition();
+            const link = text?.type === 'text' && text.runs && point ? findLinkAt(layoutText(text), point.x, point.y) : undefined;
+            if (link && isSafeLink(link)) {
+                e.cancelBubble = true;
+                window.open(link, '_blank', 'noopener,noreferrer');
+                return;
+            }
+        }
         if (tool === 'cursor') {
-            const id = e.target.id();
-            setSelectedShapeId(id);
+            const id = resolveScopeItem(e.target);
+            if (!id) return;
+            e.cancelBubble = true;
+            if (e.evt.shiftKey) {
+                setSelectedShapeIds((prev) => (prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]));
+            } else {
+                setSelectedShapeIds([id]);
+            }
         }
     };
 
     // Handle stage click to deselect shapes
     const handleStageClick = (e: KonvaEventObject<MouseEvent>) => {
-        const target = e.target;
-        if (target === stageRef.current || !(target.name() === 'rect' || target.name() === 'circle' || target.name() === 'text' || target.name() === 'image')) {
-            setSelectedShapeId(null);
+        if (didMarqueeSelect.current) {
+            didMarqueeSelect.current = false;
+            return;
+        }
+        if (e.evt.shiftKey) return;
+        if (!resolveScopeItem(e.target)) {
+            setSelectedShapeIds([]);
+            // Clicking outside the entered group leaves it
+            setActiveGroupId(null);
         }
     };
 
-    // Handle text input confirmation
-    const handleTextInputConfirm = () => {
-        if (textInput.trim()) {
-            const newShape: Shape = {
-                id: `shape-${Date.now()}`,
-                type: 'text',
-                x: textInputPosition.x,
-                y: textInputPosition.y,
-                width: 100,
-                height: 40,
-                fill: fillColor,
-                stroke: strokeColor,
-                strokeWidth: 0,
-                text: textInput,
-                fontSize: 20,
-                fontFamily: 'Arial',
-            };
-            setShapes([...shapes, newShape]);
+    // Double-clicking a group enters it and selects the child under the pointer; a sticky note or text opens for editing,
+    // an image for cropping
+    const handleStageDoubleClick = (e: KonvaEventObject<MouseEvent>) => {
+        // A double-click ends a polyline at the point clicked
+        if (tool === 'polyline') {
+            commitPolyline();
+            return;
+        }
+        if (tool !== 'cursor') return;
+        const id = resolveScopeItem(e.target);
+        const group = id ? scopeShapes.find((shape) => shape.id === id) : undefined;
+        if (group?.type === 'sticky') {
+            setEditingSticky({ id: group.id, text: group.text || '' });
+            return;
+        }
+        if (group?.type === 'text') {
+            startTextEditing(group);
+            return;
+        }
+        if (group?.type === 'image') {
+            startCropping(group);
+            return;
         }
-        setIsTextInputVisible(false);
-        setTextInput('');
+        if (!group || !isGroup(group)) return;
+
+        let node: Konva.Node | null = e.target;
+        while (node && node.getParent()?.id() !== group.id) {
+            node = node.getParent();
+        }
+        setActiveGroupId(group.id);
+        setSelectedShapeIds(node?.id() ? [node.id()] : []);
     };
 
-    // Handle deleting a shape
-    const handleDeleteShape = () => {
-        const updatedShapes = shapes.filter((shape) => shape.id !== selectedShapeId);
-        setShapes(updatedShapes);
-        setSelectedShapeId(null);
+    const finishStickyEditing = () => {
+        if (!editingSticky) return;
+        const note = findShapeInTree(shapes, editingSticky.id);
+        if (note && note.text !== editingSticky.text) {
+            updateShapesById({ [note.id]: { text: editingSticky.text } });
+        }
+        setEditingSticky(null);
     };
 
-    // Handle resizing a shape
-    const handleResizeShape = (width: number, height: number) => {
-        const updatedShapes = shapes.map((shape) => {
-            if (shape.id === selectedShapeId) {
-                return {
-                    ...shape,
-                    width,
-                    height,
-                };
-            }
-            return shape;
+    // Cropping starts from the part of the picture shown now; its handles take the place of the selection's
+    const startCropping = (shape: Shape) => {
+        if (!getLoadedAsset(shape.assetId)) return;
+        setCroppingImage({ id: shape.id, box: { x: 0, y: 0, width: shape.width, height: shape.height } });
+        setSelectedShapeIds([]);
+    };
+
+    const finishCropping = (apply = true) => {
+        if (!croppingImage) return;
+        const shape = findShapeInTree(shapes, croppingImage.id);
+        const loaded = getLoadedAsset(shape?.assetId);
+        if (apply && shape && loaded) {
+            updateShapesById({ [shape.id]: cropImage(shape, loaded.image, croppingImage.box) });
+        }
+        setSelectedShapeIds(shape ? [shape.id] : []);
+        setCroppingImage(null);
+    };
+
+    // The whole picture of the image being cropped, in the image's own space
+    const getCroppingBounds = () => {
+        const shape = croppingImage && findShapeInTree(shapes, croppingImage.id);
+        const loaded = getLoadedAsset(shape?.assetId);
+        return shape && loaded ? getUncroppedBounds(shape, loaded.image) : null;
+    };
+
+    // The crop box can be moved around the picture but not off it
+    const handleCropBoxDrag = (e: KonvaEventObject<DragEvent>) => {
+        const full = getCroppingBounds();
+        if (!croppingImage || !full) return;
+        const node = e.target;
+        const box = {
+            x: Math.min(Math.max(node.x(), full.x), full.x + full.width - node.width()),
+            y: Math.min(Math.max(node.y(), full.y), full.y + full.height - node.height()),
+            width: node.width(),
+            height: node.height(),
+        };
+        node.position(box);
+        setCroppingImage({ ...croppingImage, box });
+    };
+
+    // Resizing trims the box where it would reach past the picture, and keeps its scale at 1
+    const handleCropBoxTransform = (e: KonvaEventObject<Event>) => {
+        const full = getCroppingBounds();
+        if (!croppingImage || !full) return;
+        const node = e.target;
+        const left = Math.max(node.x(), full.x);
+        const top = Math.max(node.y(), full.y);
+        const right = Math.min(node.x() + node.width() * node.scaleX(), full.x + full.width);
+        const bottom = Math.min(node.y() + node.height() * node.scaleY(), full.y + full.height);
+        const box = { x: left, y: top, width: right - left, height: bottom - top };
+        node.setAttrs({ ...box, scaleX: 1, scaleY: 1 });
+        setCroppingImage({ ...croppingImage, box });
+    };
+
+    const handleResetCrop = () => {
+        const loaded = getLoadedAsset(selectedShape?.assetId);
+        if (!selectedShape || !loaded) return;
+        const full = getUncroppedBounds(selectedShape, loaded.image);
+        updateShapesById({ [selectedShape.id]: cropImage(selectedShape, loaded.image, full) });
+    };
+
+    const handleNaturalSize = () => {
+        const loaded = getLoadedAsset(selectedShape?.assetId);
+        if (!selectedShape || !loaded) return;
+        updateShapesById({ [selectedShape.id]: getNaturalSize(selectedShape, loaded.image) });
+    };
+
+    const startTextEditing = (shape: Shape, isNew = false) => {
+        setEditingText({ shape, isNew, html: runsToHtml(getTextRuns(shape)) });
+        // The editor stands in for the text, so its selection handles would only get in the way
+        if (!isNew) setSelectedShapeIds([]);
+    };
+
+    // Writes the editor's content back to the text; a text left empty is removed
+    const finishTextEditing = () => {
+        const editor = textEditorRef.current;
+        if (!editingText || !editor) return;
+        const { shape, isNew } = editingText;
+        const runs = readRunsFromHtml(editor);
+        const text = runs.map((run) => run.text).join('');
+        const patch: Partial<Shape> = { text, runs: hasInlineStyles(runs) ? runs : undefined, align: shape.align };
+        setEditingText(null);
+
+        if (!text.trim()) {
+            if (!isNew) updateScope((prev) => prev.filter((item) => item.id !== shape.id));
+            return;
+        }
+        if (isNew) {
+            updateShapes((prev) => [...prev, { ...shape, ...patch }]);
+            return;
+        }
+        const current = scopeShapes.find((item) => item.id === shape.id);
+        if (current && (current.text !== text || JSON.stringify(current.runs) !== JSON.stringify(patch.runs) || current.align !== shape.align)) {
+            updateShapesById({ [shape.id]: patch });
+        }
+        setSelectedShapeIds([shape.id]);
+    };
+
+    // Turns the selected part of the text into a link; the prompt takes the focus, so the selection is restored after it
+    const linkSelectedText = () => {
+        const selection = window.getSelection();
+        const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+        if (!range || range.collapsed) return;
+        isPromptingLink.current = true;
+        const href = window.prompt('Link address', 'https://');
+        isPromptingLink.current = false;
+        textEditorRef.current?.focus();
+        selection?.removeAllRanges();
+        selection?.addRange(range);
+        if (!href) return;
+        if (isSafeLink(href)) {
+            document.execCommand('createLink', false, href.trim());
+        } else {
+            setError('Links must start with http://, https:// or mailto:');
+        }
+    };
+
+    const handleTextEditorKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const isModifier = e.ctrlKey || e.metaKey;
+        if (e.key === 'Escape') {
+            if (editingText && !editingText.isNew) setSelectedShapeIds([editingText.shape.id]);
+            setEditingText(null);
+        } else if (e.key === 'Enter' && isModifier) {
+            e.preventDefault();
+            finishTextEditing();
+        } else if (e.key === 'Enter') {
+            // A plain line break rather than the block the browser would start
+            e.preventDefault();
+            document.execCommand('insertLineBreak');
+        } else if (e.key.toLowerCase() === 'k' && isModifier) {
+            e.preventDefault();
+            linkSelectedText();
+        }
+    };
+
+    // Pasted text comes in plain; styles from other pages have no runs to go into
+    const handleTextEditorPaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        document.execCommand('insertText', false, e.clipboardData.getData('text/plain'));
+    };
+
+    // Puts the caret at the end of the text when its editor opens
+    useEffect(() => {
+        const editor = textEditorRef.current;
+        if (!editor) return;
+        editor.focus();
+        const range = document.createRange();
+        range.selectNodeContents(editor);
+        range.collapse(false);
+        window.getSelection()?.removeAllRanges();
+        window.getSelection()?.addRange(range);
+    }, [editingText?.shape.id]);
+
+    const exitGroup = () => {
+        if (!activeGroupId) return;
+        const ancestors = getAncestorIds(shapes, activeGroupId) ?? [];
+        setSelectedShapeIds([activeGroupId]);
+        setActiveGroupId(ancestors.length > 0 ? ancestors[ancestors.length - 1] : null);
+    };
+
+    const handleGroup = () => {
+        if (selectedShapeIds.length < 2) return;
+        const groupId = createId('group');
+
+        updateScope((children) => {
+            // Connectors stay at the top level, where their world-space path belongs, and so do frames
+            const members = children.filter((shape) =>
+                selectedShapeIds.includes(shape.id) && shape.type !== 'connector' && !isFrame(shape)
+            );
+            const bounds = unionBounds(members.map(getShapeBounds));
+            if (!bounds || members.length < 2) return children;
+
+            const group: Shape = {
+                id: groupId,
+                type: 'group',
+                x: bounds.x,
+                y: bounds.y,
+                width: bounds.width,
+                height: bounds.height,
+                fill: '',
+                stroke: '',
+                strokeWidth: 0,
+                children: members.map((shape) => translateShape(shape, -bounds.x, -bounds.y)),
+            };
+
+            // The group takes the z-position of its topmost member
+            const topIndex = children.reduce((top, shape, index) => (members.includes(shape) ? index : top), -1);
+            return children.flatMap((shape, index) => {
+                const kept = members.includes(shape) ? [] : [shape];
+                return index === topIndex ? [...kept, group] : kept;
+            });
         });
-        setShapes(updatedShapes);
+        setSelectedShapeIds([groupId]);
+    };
+
+    const handleUngroup = () => {
+        const groups = selectedShapes.filter(isGroup);
+        if (groups.length === 0) return;
+
+        updateScope((children) =>
+            children.flatMap((shape) =>
+                selectedShapeIds.includes(shape.id) && isGroup(shape)
+                    ? (shape.children || []).map((child) => releaseFromGroup(shape, child))
+                    : [shape]
+            )
+        );
+        setSelectedShapeIds(
+            selectedShapes.flatMap((shape) => (isGroup(shape) ? (shape.children || []).map((child) => child.id) : [shape.id]))
+        );
+    };
+
+    // Handle deleting the selected shapes
+    const handleDeleteShape = () => {
+        updateScope((prev) => prev.filter((shape) => !selectedShapeIds.includes(shape.id)));
+        setSelectedShapeIds([]);
+    };
+
+    // Style changes on a group recolor everything inside it
+    const patchShape = (shape: Shape, patch: Partial<Shape>): Shape =>
+        isGroup(shape)
+            ? { ...shape, children: (shape.children || []).map((child) => patchShape(child, patch)) }
+            : { ...shape, ...patch };
+
+    const updateSelectedShapes = (patch: Partial<Shape>, options?: CommitOptions) => {
+        updateScope(
+            (prev) => prev.map((shape) => (selectedShapeIds.includes(shape.id) ? patchShape(shape, patch) : shape)),
+            options
+        );
+    };
+
+    const selectionKey = selectedShapeIds.join(',');
+
+    // Handle resizing a shape
+    const handleResizeShape = (width: number, height: number) => {
+        updateSelectedShapes({ width, height }, { mergeKey: `resize-${selectionKey}` });
     };
 
     // Handle text change for text shapes
     const handleTextChange = (text: string) => {
-        const updatedShapes = shapes.map((shape) => {
-            if (shape.id === selectedShapeId) {
-                return {
-                    ...shape,
-                    text,
-                };
-            }
-            return shape;
-        });
-        setShapes(updatedShapes);
+        updateSelectedShapes({ text }, { mergeKey: `text-${selectionKey}` });
     };
 
     // Handle font change for text shapes
     const handleFontChange = (fontFamily: string) => {
-        const updatedShapes = shapes.map((shape) => {
-            if (shape.id === selectedShapeId) {
-                return {
-                    ...shape,
-                    fontFamily,
-                };
-            }
-            return shape;
-        });
-        setShapes(updatedShapes);
+        updateSelectedShapes({ fontFamily });
     };
 
     // Handle font size change for text shapes
     const handleFontSizeChange = (fontSize: number) => {
-        const updatedShapes = shapes.map((shape) => {
-            if (shape.id === selectedShapeId) {
-                return {
-                    ...shape,
-                    fontSize,
-                };
+        updateSelectedShapes({ fontSize }, { mergeKey: `font-size-${selectionKey}` });
+    };
+
+    // Handle fill color change. Dragging around a color picker makes one undo step, and each pick makes its own:
+    // the color inputs seal when their picker opens as well as on blur, since an input keeps its focus once
+    // the picker closes.
+    const handleFillColorChange = (color: string) => {
+        updateSelectedShapes({ fill: color }, { mergeKey: `fill-${selectionKey}` });
+    };
+
+    // Handle stroke color change
+    const handleStrokeColorChange = (color: string) => {
+        updateSelectedShapes({ stroke: color }, { mergeKey: `stroke-${selectionKey}` });
+    };
+
+    // Pictures go into the asset store first; several at once are fanned out so none hides another entirely
+    const addImageFiles = async (files: File[], center: Point) => {
+        setError('');
+        try {
+            const assets = await Promise.all(files.map(importImageFile));
+            const images = assets.map((asset, index) =>
+                createImageShape(asset, { x: center.x + index * PASTE_OFFSET, y: center.y + index * PASTE_OFFSET })
+            );
+            updateShapes((prev) => [...prev, ...images]);
+            setActiveGroupId(null);
+            setSelectedShapeIds(images.map((shape) => shape.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to add the image.');
+        }
+    };
+
+    // Uploaded pictures land where pasted ones would
+    const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        if (files.length > 0) addImageFiles(files, getPastePoint());
+    };
+
+    // Pictures dropped from elsewhere land at the drop point; other files are kept from opening in the tab
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        const files = Array.from(e.dataTransfer.files).filter((file) => file.type.startsWith('image/'));
+        const stage = stageRef.current;
+        if (files.length === 0 || !stage) return;
+        stage.setPointersPositions(e.nativeEvent);
+        const pos = stage.getPointerPosition();
+        if (pos) addImageFiles(files, adjustCoordinates(stage, pos.x, pos.y));
+    };
+
+    // The selected items carried out of any entered groups, so they can be pasted at the top level
+    const getSelectionInWorld = () =>
+        selectedShapes.map((shape) => activeGroupChain.reduceRight((result, group) => releaseFromGroup(group, result), shape));
+
+    // Where pasted content goes: the last pointer position over the canvas, else the middle of the view
+    const getPastePoint = (): Point => {
+        const stage = stageRef.current;
+        const pointer = stage?.getPointerPosition();
+        if (pointer) return adjustCoordinates(stage, pointer.x, pointer.y);
+        const rect = containerRef.current?.getBoundingClientRect();
+        return {
+            x: ((rect?.width ?? window.innerWidth) / 2 - position.x) / zoom,
+            y: ((rect?.height ?? window.innerHeight) / 2 - position.y) / zoom,
+        };
+    };
+
+    const handleCopy = async () => {
+        if (selectedShapes.length === 0) return;
+        const copied = getSelectionInWorld();
+        clipboardShapes.current = copied;
+        try {
+            await writeShapesToClipboard(copied);
+        } catch {
+            // The copy still works inside this board through clipboardShapes
+        }
+    };
+
+    const handleCut = () => {
+        if (selectedShapes.length === 0) return;
+        handleCopy();
+        handleDeleteShape();
+    };
+
+    // Pasted shapes land centered on the paste point, at the top level, with fresh ids
+    const pasteShapes = (source: Shape[]) => {
+        const bounds = unionBounds(source.map(getShapeBounds));
+        if (!bounds) return;
+        const target = getPastePoint();
+        const pasted = offsetShapes(
+            cloneWithFreshIds(source),
+            target.x - (bounds.x + bounds.width / 2),
+            target.y - (bounds.y + bounds.height / 2)
+        );
+        updateShapes((prev) => [...prev, ...pasted]);
+        setActiveGroupId(null);
+        setSelectedShapeIds(pasted.map((shape) => shape.id));
+    };
+
+    // Shapes from an old version come back where they were, beside whatever replaced them
+    const copyFromSnapshot = (source: Shape[]) => {
+        const copies = cloneWithFreshIds(source);
+        updateShapes((prev) => [...prev, ...copies]);
+        setActiveGroupId(null);
+        setSelectedShapeIds(copies.map((shape) => shape.id));
+        setIsHistoryOpen(false);
+    };
+
+    const pasteText = (text: string) => {
+        const size = measureText(text, textProps.fontSize, textProps.fontFamily);
+        const target = getPastePoint();
+        const newShape: Shape = {
+            id: createId('text'),
+            type: 'text',
+            x: target.x - size.width / 2,
+            y: target.y - size.height / 2,
+            width: size.width,
+            height: size.height,
+            fill: textProps.fill,
+            stroke: '#000000',
+            strokeWidth: 0,
+            text,
+            fontSize: textProps.fontSize,
+            fontFamily: textProps.fontFamily,
+        };
+        updateShapes((prev) => [...prev, newShape]);
+        setActiveGroupId(null);
+        setSelectedShapeIds([newShape.id]);
+    };
+
+    // Shapes copied from a board win over the pictures copied with them; other images and text become new shapes
+    const handlePaste = async (data: DataTransfer | null) => {
+        const text = data?.getData('text/plain') ?? '';
+        const image = Array.from(data?.files ?? []).find((file) => file.type.startsWith('image/'));
+        try {
+            const copied = text ? await readShapesFromClipboardText(text) : null;
+            if (copied) {
+                pasteShapes(copied);
+            } else if (image) {
+                await addImageFiles([image], getPastePoint());
+            } else if (text.trim()) {
+                pasteText(text);
+            } else if (clipboardShapes.current) {
+                pasteShapes(clipboardShapes.current);
             }
-            return shape;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to paste from the clipboard.');
+        }
+    };
+
+    // Duplicates stay at the current group level, just offset from the originals
+    const handleDuplicate = () => {
+        if (selectedShapes.length === 0) return;
+        const copies = offsetShapes(cloneWithFreshIds(selectedShapes), PASTE_OFFSET, PASTE_OFFSET);
+        updateScope((prev) => [...prev, ...copies]);
+        setSelectedShapeIds(copies.map((shape) => shape.id));
+    };
+
+    // Moves the selection, and the contents of selected frames, like a drag would; bound connector ends stay on their shapes
+    const handleNudge = (dx: number, dy: number) => {
+        const carried = selectedShapes.flatMap((shape) =>
+            (frameMembers.get(shape.id) ?? []).filter((member) => !selectedShapeIds.includes(member.id))
+        );
+        const patches: Record<string, Partial<Shape>> = {};
+        offsetShapes([...selectedShapes, ...carried], dx, dy).forEach(({ id, x, y, points, start, end }) => {
+            patches[id] = { x, y, ...(points && { points }), ...(start && { start, end }) };
         });
-        setShapes(updatedShapes);
+        updateShapesById(patches);
     };
 
-    const handleTextToolClick = (e: KonvaEventObject<MouseEvent>) => {
-        if (tool === 'text') {
-            const stage = e.target.getStage();
-            const pos = stage?.getPointerPosition();
-            if (pos) {
-                const adjustedPos = adjustCoordinates(stage, pos.x, pos.y);
-                setTextInputPosition({ x: adjustedPos.x, y: adjustedPos.y });
-                setIsEditingText(true);
-                setCurrentText('Enter text here...');
+    const reorderSelection = (reorder: (shapes: Shape[], ids: string[]) => Shape[]) => {
+        if (selectedShapeIds.length === 0) return;
+        updateScope((prev) => reorder(prev, selectedShapeIds));
+        // Ensure the transformer is updated
+        if (transformerRef.current) {
+            transformerRef.current.getLayer().batchDraw();
+        }
+    };
+
+    const handleAlign = (mode: AlignMode) => {
+        updateScope((prev) => alignShapes(prev, selectedShapeIds, mode));
+    };
+
+    const handleDistribute = (axis: DistributeAxis) => {
+        updateScope((prev) => distributeShapes(prev, selectedShapeIds, axis));
+    };
+
+    // Function to move the selected shapes to the front
+    const handleMoveToFront = () => reorderSelection(bringToFront);
+
+    // Function to move the selected shapes to the back
+    const handleMoveToBack = () => reorderSelection(sendToBack);
+
+    // Function to move the selected shapes up in z-index
+    const handleMoveUp = () => reorderSelection(moveForward);
+
+    // Function to move the selected shapes down in z-index
+    const handleMoveDown = () => reorderSelection(moveBackward);
+
+    // Picking a layer enters the group holding it, so it can be selected there like on the canvas
+    const handleLayerSelect = (shape: Shape, additive: boolean) => {
+        if (!isSelectable(shape)) return;
+        const ancestors = getAncestorIds(shapes, shape.id) ?? [];
+        const parentId = ancestors.length > 0 ? ancestors[ancestors.length - 1] : null;
+        if (parentId !== activeGroupId) {
+            setActiveGroupId(parentId);
+            setSelectedShapeIds([shape.id]);
+        } else if (additive) {
+            setSelectedShapeIds((prev) => (prev.includes(shape.id) ? prev.filter((id) => id !== shape.id) : [...prev, shape.id]));
+        } else {
+            setSelectedShapeIds([shape.id]);
+        }
+    };
+
+    const handleLayerMove = (id: string, targetId: string, above: boolean) => {
+        const ancestors = getAncestorIds(shapes, id) ?? [];
+        const parentId = ancestors.length > 0 ? ancestors[ancestors.length - 1] : null;
+        updateShapes((prev) => updateChildren(prev, parentId, (children) => moveNextTo(children, id, targetId, above)));
+    };
+
+    // Konva positions circles by their center while the model stores the bounding corner
+    const getNodePosition = (shape: Shape, node: Konva.Node) =>
+        shape.type === 'circle'
+            ? { x: node.x() - shape.width / 2, y: node.y() - shape.height / 2 }
+            : { x: node.x(), y: node.y() };
+
+    // The Transformer drags every attached node together, so read all of them as one move
+    const readDragPatches = (draggedId: string) => {
+        const ids = selectedShapeIds.includes(draggedId) ? selectedShapeIds : [draggedId];
+        const patches: Record<string, Partial<Shape>> = {};
+        ids.forEach((id) => {
+            const shape = scopeShapes.find((s) => s.id === id);
+            const node = stageRef.current?.findOne(`#${id}`);
+            if (shape && node && shape.type !== 'connector') {
+                patches[id] = getNodePosition(shape, node);
             }
+        });
+        // Frames carry their contents, even contents that were selected along with them
+        ids.forEach((id) => {
+            const frame = scopeShapes.find((s) => s.id === id);
+            if (!frame || !isFrame(frame) || !patches[id]) return;
+            const dx = (patches[id].x ?? frame.x) - frame.x;
+            const dy = (patches[id].y ?? frame.y) - frame.y;
+            frameMembers.get(id)?.forEach((member) => {
+                const { x, y, points } = translateShape(member, dx, dy);
+                patches[member.id] = { x, y, ...(points && { points }) };
+            });
+        });
+        return patches;
+    };
+
+    // Moves each dragged frame's contents layer to follow it, until the drop commits the move
+    const syncFrameContents = (draggedId: string) => {
+        const ids = selectedShapeIds.includes(draggedId) ? selectedShapeIds : [draggedId];
+        ids.forEach((id) => {
+            const frame = frames.find((shape) => shape.id === id);
+            const contents = frameContents.current.get(id);
+            const node = stageRef.current?.findOne(`#${id}`);
+            if (frame && contents && node) {
+                contents.position({ x: node.x() - frame.x, y: node.y() - frame.y });
+            }
+        });
+    };
+
+    const resetFrameContents = () => {
+        frameContents.current.forEach((contents) => contents.position({ x: 0, y: 0 }));
+    };
+
+    // World bounds of the items at the current group level that are not part of `excludeIds`, to snap against
+    const getSnapTargets = (excludeIds: string[]) =>
+        scopeShapes
+            .filter((shape) => !excludeIds.includes(shape.id) && shape.type !== 'connector')
+            .map((shape) => toWorldBounds(getShapeBounds(shape)));
+
+    // Nudges every dragged node by the same offset so the selection lines up with its neighbours or the grid
+    const snapDraggedNodes = (draggedId: string) => {
+        const ids = selectedShapeIds.includes(draggedId) ? selectedShapeIds : [draggedId];
+        const stage: Konva.Stage = stageRef.current;
+        // Connectors are not attached to the Transformer, so they stay put and do not count
+        const nodes = ids
+            .filter((id) => scopeShapes.find((shape) => shape.id === id)?.type !== 'connector')
+            .map((id) => stage.findOne(`#${id}`))
+            .filter((node): node is Konva.Node => !!node && node.draggable());
+        const moving = unionBounds(nodes.map((node) => node.getClientRect({ relativeTo: stage, skipStroke: true })));
+        if (!moving) return;
+
+        // A frame's contents travel with it, so they are not something to line up with
+        const carriedIds = ids.flatMap((id) => frameMembers.get(id)?.map((member) => member.id) ?? []);
+        const targets = getSnapTargets([...ids, ...carriedIds]);
+        const { dx, dy, feedback } = snapBounds(moving, targets, SNAP_THRESHOLD / zoom, isGridSnapEnabled ? SPACING : 0);
+        if (dx !== 0 || dy !== 0) {
+            nodes.forEach((node) => {
+                const abs = node.absolutePosition();
+                node.absolutePosition({ x: abs.x + dx * zoom, y: abs.y + dy * zoom });
+            });
         }
+        setSnapFeedback(feedback);
     };
 
-    const handleTextConfirm = () => {
-        if (currentText.trim()) {
-            const newShape: Shape = {
-                id: `text-${Date.now()}`,
-                type: 'text',
-                x: textInputPosition.x,
-                y: textInputPosition.y,
-                width: 200,
-                height: 40,
-                fill: textProps.fill,
-                stroke: '#000000',
-                strokeWidth: 0,
-                text: currentText,
-                fontSize: textProps.fontSize,
-                fontFamily: textProps.fontFamily,
-            };
-            setShapes([...shapes, newShape]);
+    const handleDragMove = (e: KonvaEventObject<DragEvent>) => {
+        snapDraggedNodes(e.target.id());
+        syncFrameContents(e.target.id());
+        if (!shapes.some((shape) => shape.type === 'connector')) return;
+        const patches = readDragPatches(e.target.id());
+        setDragPreview(syncConnectors(mapShapeTree(shapes, (shape) => (patches[shape.id] ? { ...shape, ...patches[shape.id] } : shape))));
+    };
+
+    // Snaps the Transformer handle being dragged; rotated selections resize freely
+    const handleAnchorDragBound = (oldPos: Point, newPos: Point) => {
+        const transformer = transformerRef.current;
+        if (!transformer || Math.abs(transformer.rotation() % 90) > 0.5) return newPos;
+
+        const world = { x: (newPos.x - position.x) / zoom, y: (newPos.y - position.y) / zoom };
+        const snapped = snapPoint(world, getSnapTargets(selectedShapeIds), SNAP_THRESHOLD / zoom, isGridSnapEnabled ? SPACING : 0);
+        setSnapFeedback(snapped.feedback);
+        return { x: snapped.point.x * zoom + position.x, y: snapped.point.y * zoom + position.y };
+    };
+
+    // Dragging a connector moves its free ends; bound ends stay on their shapes
+    const moveConnector = (connector: Shape, node: Konva.Node) => {
+        const dx = node.x();
+        const dy = node.y();
+        node.position({ x: 0, y: 0 });
+        if (!connector.start || !connector.end || (connector.start.shapeId && connector.end.shapeId)) return;
+
+        const shift = (end: ConnectorEnd): ConnectorEnd =>
+            end.shapeId ? end : { point: { x: end.point.x + dx, y: end.point.y + dy } };
+        updateShapesById({ [connector.id]: { start: shift(connector.start), end: shift(connector.end) } });
+    };
+
+    const handleDragEnd = (e: KonvaEventObject<DragEvent>) => {
+        setDragPreview(null);
+        setSnapFeedback(null);
+        const dragged = scopeShapes.find((shape) => shape.id === e.target.id());
+        if (dragged?.type === 'connector') {
+            moveConnector(dragged, e.target);
+            return;
         }
-        setIsEditingText(false);
-        setCurrentText('');
+        const patches = readDragPatches(e.target.id());
+        resetFrameContents();
+        updateShapesById(patches);
     };
 
-    // Handle fill color change
-    const handleFillColorChange = (color: string) => {
-        const updatedShapes = shapes.map((shape) => {
-            if (shape.id === selectedShapeId) {
-                return {
-                    ...shape,
-                    fill: color,
-                };
+    // Keeps the clip of a frame being resized on the frame, where its contents stay put,
+    // and re-wraps a text being resized from the side instead of stretching it
+    const handleTransform = () => {
+        const nodes: Konva.Node[] = transformerRef.current?.nodes() ?? [];
+        const anchor: string | null = transformerRef.current?.getActiveAnchor() ?? null;
+        nodes.forEach((node) => {
+            const text = (anchor === 'middle-left' || anchor === 'middle-right') && scopeShapes.find((shape) => shape.id === node.id());
+            if (text && text.type === 'text') {
+                const width = Math.max(1, node.width() * node.scaleX());
+                node.scaleX(1);
+                node.width(width);
+                setTextWrapPreview({ id: text.id, width });
+                return;
+            }
+            const frame = frames.find((shape) => shape.id === node.id());
+            const contents = frameContents.current.get(node.id());
+            if (frame && contents) {
+                contents.clip(normalizeBounds(node.x(), node.y(), frame.width * node.scaleX(), frame.height * node.scaleY()));
             }
-            return shape;
         });
-        setShapes(updatedShapes);
     };
 
-    // Handle stroke color change
-    const handleStrokeColorChange = (color: string) => {
-        const updatedShapes = shapes.map((shape) => {
-            if (shape.id === selectedShapeId) {
-                return {
-                    ...shape,
-                    stroke: color,
+    // Bake the Transformer's scale back into the stored size, and keep its rotation, so the change is recorded
+    const handleTransformEnd = () => {
+        setSnapFeedback(null);
+        const nodes: Konva.Node[] = transformerRef.current?.nodes() ?? [];
+        const patches: Record<string, Partial<Shape>> = {};
+
+        nodes.forEach((node) => {
+            const shape = scopeShapes.find((s) => s.id === node.id());
+            if (!shape) return;
+
+            if (shape.type === 'group') {
+                // Groups keep their transform; the children stay in group coordinates
+                patches[shape.id] = {
+                    x: node.x(),
+                    y: node.y(),
+                    rotation: node.rotation(),
+                    scaleX: node.scaleX(),
+                    scaleY: node.scaleY(),
                 };
+                return;
+            }
+
+            const scaleX = node.scaleX();
+            const scaleY = node.scaleY();
+            node.scaleX(1);
+            node.scaleY(1);
+
+            if (shape.type === 'circle') {
+                // Circles stay round, so only the horizontal scale drives the radius
+                const width = shape.width * scaleX;
+                const height = shape.height * scaleX;
+                patches[shape.id] = { x: node.x() - width / 2, y: node.y() - height / 2, width, height };
+            } else if (shape.type === 'frame') {
+                patches[shape.id] = normalizeBounds(node.x(), node.y(), shape.width * scaleX, shape.height * scaleY);
+            } else if (shape.type === 'line') {
+                patches[shape.id] = {
+                    x: node.x(),
+                    y: node.y(),
+                    rotation: node.rotation(),
+                    points: (shape.points || []).map((point) => ({ x: point.x * scaleX, y: point.y * scaleY })),
+                };
+            } else if (
+                ['rectangle', 'image', 'sticky', 'icon'].includes(shape.type) || PATH_SHAPE_TYPES.includes(shape.type)
+            ) {
+                patches[shape.id] = {
+                    x: node.x(),
+                    y: node.y(),
+                    rotation: node.rotation(),
+                    width: shape.width * scaleX,
+                    height: shape.height * scaleY,
+                };
+            } else if (shape.type === 'text' && textWrapPreview?.id === shape.id) {
+                // The side handles set the width the text wraps at
+                patches[shape.id] = { x: node.x(), y: node.y(), rotation: node.rotation(), wrapWidth: textWrapPreview.width };
+            } else if (shape.type === 'text') {
+                // Text sizes itself to its content, so the corner handles scale the font size instead, and any wrap width with it
+                patches[shape.id] = {
+                    x: node.x(),
+                    y: node.y(),
+                    rotation: node.rotation(),
+                    fontSize: Math.max(1, Math.round((shape.fontSize || DEFAULT_FONT_SIZE) * scaleY)),
+                    ...(shape.wrapWidth !== undefined && { wrapWidth: shape.wrapWidth * scaleY }),
+                };
+            } else {
+                patches[shape.id] = getNodePosition(shape, node);
             }
-            return shape;
         });
-        setShapes(updatedShapes);
+
+        setTextWrapPreview(null);
+        updateShapesById(patches);
     };
 
-    // Handle image upload
-    const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onload = (event) => {
-                const imageUrl = event.target?.result as string;
-                const img = new window.Image();
-                img.src = imageUrl;
-                img.onload = () => {
-                    const pos = stageRef.current?.getPointerPosition();
-                    if (pos) {
-                        const newImage: Shape = {
-                            id: `image-${Date.now()}`,
-                            type: 'image',
-                            x: pos.x,
-                            y: pos.y,
-                            width: img.width,
-                            height: img.height,
-                            fill: imageUrl,
-                            stroke: '#000000',
-                            strokeWidth: 0,
-                            image: img,
-                        };
-                        setShapes([...shapes, newImage]);
-                    }
-                };
+    // Drop shapes from the selection when undo/redo removes them, or they are hidden or locked
+    useEffect(() => {
+        const existing = selectedShapeIds.filter((id) => scopeShapes.some((shape) => shape.id === id && isSelectable(shape)));
+        if (existing.length !== selectedShapeIds.length) {
+            setSelectedShapeIds(existing);
+        }
+    }, [scopeShapes, selectedShapeIds]);
+
+    // Leave a group that no longer exists, e.g. after undoing its creation
+    useEffect(() => {
+        if (activeGroupId && !activeGroup) {
+            setActiveGroupId(null);
+        }
+    }, [activeGroupId, activeGroup]);
+
+    useEffect(() => {
+        if (selectedShapeIds.length > 0 && transformerRef.current) {
+            // Connectors follow their ends instead of being scaled or rotated
+            const selectedNodes = selectedShapeIds
+                .filter((id) => findShapeInTree(shapes, id)?.type !== 'connector')
+                .map((id) => stageRef.current.findOne(`#${id}`))
+                .filter(Boolean);
+            transformerRef.current.nodes(selectedNodes);
+            transformerRef.current.getLayer().batchDraw();
+        }
+    }, [selectedShapeIds, shapes]);
+
+    const croppingId = croppingImage?.id;
+    useEffect(() => {
+        if (croppingId && cropBoxRef.current) {
+            cropTransformerRef.current?.nodes([cropBoxRef.current]);
+        }
+    }, [croppingId]);
+
+    const { undo, redo } = history;
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (e.key === 'Shift') {
+                setIsShiftPressed(true);
+            } else if (e.key === 'Control') {
+                isCtrlPressed.current = true;
+            } else if (e.code === 'Space' && !(target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable))) {
+                // Also keeps a focused button from being pressed
+                e.preventDefault();
+                setIsSpacePressed(true);
             };
-            reader.readAsDataURL(file);
-        }
-    };
-
-    // Function to move the selected shape to the front
-    const handleMoveToFront = () => {
-        if (selectedShapeId) {
-            const shapeIndex = shapes.findIndex((shape) => shape.id === selectedShapeId);
-            if (shapeIndex !== -1 && shapeIndex !== shapes.length - 1) {
-                const updatedShapes = [...shapes];
-                const [shape] = updatedShapes.splice(shapeIndex, 1);
-                updatedShapes.push(shape);
-                setShapes(updatedShapes);
-                // Ensure the transformer is updated
-                if (transformerRef.current) {
-                    transformerRef.current.getLayer().batchDraw();
+        };
+
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.key === 'Shift') {
+                setIsShiftPressed(false);
+            } else if (e.key === 'Control') {
+                isCtrlPressed.current = false;
+            } else if (e.code === 'Space') {
+                setIsSpacePressed(false);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+        };
+    }, []);
+
+    const updateKeymap = (next: Keymap) => {
+        setKeymap(next);
+        saveKeymap(next);
+    };
+
+    // What each command in the keymap does
+    const commandHandlers: Record<CommandId, () => void> = {
+        'tool.cursor': () => selectTool('cursor'),
+        'tool.draw': () => selectTool('draw'),
+        'tool.rectangle': () => selectTool('rectangle'),
+        'tool.circle': () => selectTool('circle'),
+        'tool.text': () => selectTool('text'),
+        'tool.eraser': () => selectTool('eraser'),
+        'tool.pen': () => selectTool('pen'),
+        'tool.line': () => selectTool('line'),
+        'tool.connector': () => selectTool('connector'),
+        'tool.sticky': () => selectTool('sticky'),
+        'tool.frame': () => selectTool('frame'),
+        'tool.image': () => selectTool('image'),
+        'tool.laser': () => selectTool('laser'),
+        'tool.comment': () => selectTool('comment'),
+        'edit.undo': undo,
+        'edit.redo': redo,
+        'edit.selectAll': () => setSelectedShapeIds(scopeShapes.filter(isSelectable).map((shape) => shape.id)),
+        'edit.copy': handleCopy,
+        'edit.cut': handleCut,
+        // Only this board's own clipboard; the system clipboard arrives through the paste event
+        'edit.paste': () => handlePaste(null),
+        'edit.duplicate': handleDuplicate,
+        'edit.delete': handleDeleteShape,
+        'edit.nudgeLeft': () => handleNudge(-NUDGE_STEP, 0),
+        'edit.nudgeRight': () => handleNudge(NUDGE_STEP, 0),
+        'edit.nudgeUp': () => handleNudge(0, -NUDGE_STEP),
+        'edit.nudgeDown': () => handleNudge(0, NUDGE_STEP),
+        'edit.nudgeLeftFar': () => handleNudge(-LARGE_NUDGE_STEP, 0),
+        'edit.nudgeRightFar': () => handleNudge(LARGE_NUDGE_STEP, 0),
+        'edit.nudgeUpFar': () => handleNudge(0, -LARGE_NUDGE_STEP),
+        'edit.nudgeDownFar': () => handleNudge(0, LARGE_NUDGE_STEP),
+        'arrange.group': handleGroup,
+        'arrange.ungroup': handleUngroup,
+        'arrange.front': handleMoveToFront,
+        'arrange.forward': handleMoveUp,
+        'arrange.backward': handleMoveDown,
+        'arrange.back': handleMoveToBack,
+        'view.zoomIn': () => handleZoom(ZOOM_STEP),
+        'view.zoomOut': () => handleZoom(1 / ZOOM_STEP),
+        'view.resetZoom': resetZoom,
+        'view.zoomToFit': zoomToFit,
+        'view.zoomToSelection': zoomToSelection,
+        'view.toggleGridSnap': () => setIsGridSnapEnabled(!isGridSnapEnabled),
+        'view.toggleMinimap': () => setIsMinimapOpen(!isMinimapOpen),
+        'view.toggleLayers': () => setIsLayersPanelOpen(!isLayersPanelOpen),
+        'view.toggleSlides': () => setIsSlidesPanelOpen(!isSlidesPanelOpen),
+        'view.toggleComments': () => setIsCommentsPanelOpen(!isCommentsPanelOpen),
+        'view.present': () => startPresentation(),
+        'view.commandPalette': () => setIsCommandPaletteOpen(true),
+        'board.save': handleSaveSceneFile,
+        'board.open': () => sceneFileInputRef.current?.click(),
+        'board.export': () => setIsExportMenuOpen(!isExportMenuOpen),
+        'board.history': () => setIsHistoryOpen(!isHistoryOpen),
+    };
+
+    // A command's name with its first shortcut, for tooltips
+    const describeCommand = (label: string, id: CommandId) =>
+        keymap[id].length > 0 ? `${label} (${formatBinding(keymap[id][0])})` : label;
+
+    const isCommandAvailable = (id: CommandId) => {
+        switch (id) {
+            case 'edit.undo':
+                return history.canUndo;
+            case 'edit.redo':
+                return history.canRedo;
+            case 'edit.copy':
+            case 'edit.cut':
+            case 'edit.duplicate':
+            case 'edit.delete':
+            case 'arrange.front':
+            case 'arrange.forward':
+            case 'arrange.backward':
+            case 'arrange.back':
+            case 'view.zoomToSelection':
+                return selectedShapes.length > 0;
+            case 'arrange.group':
+                return selectedShapes.length > 1;
+            case 'arrange.ungroup':
+                return selectedShapes.some(isGroup);
+            case 'view.zoomToFit':
+                return shapes.length > 0 || lines.length > 0;
+            case 'view.present':
+                return presentationSlides.length > 0;
+            default:
+                return id.startsWith('edit.nudge') ? selectedShapes.length > 0 : true;
+        }
+    };
+
+    // Re-bound on every render so the shortcuts always act on the current selection
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // Leave text fields their own native undo, and the palette and version history their own keys
+            const target = e.target as HTMLElement | null;
+            if (isHistoryOpen && e.key === 'Escape') setIsHistoryOpen(false);
+            if (isCommandPaletteOpen || isHistoryOpen || (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable))) {
+                return;
+            }
+
+            // A presentation only steps through its slides
+            if (presentation) {
+                if (['ArrowRight', 'ArrowDown', 'PageDown', ' '].includes(e.key)) {
+                    goToSlide(slideIndex + 1);
+                } else if (['ArrowLeft', 'ArrowUp', 'PageUp'].includes(e.key)) {
+                    goToSlide(slideIndex - 1);
+                } else if (e.key === 'Home') {
+                    goToSlide(0);
+                } else if (e.key === 'End') {
+                    goToSlide(presentationSlides.length - 1);
+                } else if (e.key === 'Escape') {
+                    stopPresentation();
+                } else {
+                    return;
                 }
+                e.preventDefault();
+                return;
             }
+
+            // Keys that finish or cancel what is in progress come before the keymap
+            if ((e.key === 'Escape' || e.key === 'Enter') && croppingImage) {
+                finishCropping(e.key === 'Enter');
+                return;
+            } else if ((e.key === 'Escape' || e.key === 'Enter') && polylineDraft) {
+                commitPolyline();
+                return;
+            } else if (e.key === 'Escape' && connectorDraft) {
+                setConnectorDraft(null);
+                return;
+            } else if (e.key === 'Escape' && openThread) {
+                closeThread();
+                return;
+            } else if (e.key === 'Escape' && activeGroupId && currentPenPath.length === 0) {
+                exitGroup();
+                return;
+            }
+
+            const binding = eventToBinding(e);
+            const command = binding && findCommandForBinding(keymap, binding);
+            if (!command) return;
+            // Copying and pasting go on to the browser's clipboard events
+            if (binding === 'Mod+V' && command === 'edit.paste') return;
+            if (command !== 'edit.copy' && command !== 'edit.cut') e.preventDefault();
+            if (isCommandAvailable(command)) commandHandlers[command]();
+        };
+
+        // Ctrl+V arrives as a paste event, which carries what the OS clipboard holds
+        const onPaste = (e: ClipboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+                return;
+            }
+            // Ctrl+V may have been given to another command
+            if (!keymap['edit.paste'].includes('Mod+V')) return;
+            e.preventDefault();
+            handlePaste(e.clipboardData);
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('paste', onPaste);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('paste', onPaste);
+        };
+    });
+
+    // Outline of the entered group so it is clear where edits apply
+    const activeGroupContent = activeGroup && unionBounds((activeGroup.children || []).map(getShapeBounds));
+    const activeGroupBounds = activeGroupContent ? toWorldBounds(activeGroupContent) : null;
+
+    // Images and text only scale uniformly, from the corners, so they never distort
+    const isAspectLocked = selectedShapes.some((shape) => ['image', 'text', 'icon'].includes(shape.type));
+    // ...except that a lone text can also be widened or narrowed from the sides, to change where it wraps
+    const isWrappable = selectedShape?.type === 'text';
+
+    // Only items at the current group level can be dragged; clicks on deeper nodes resolve upward
+    const isDraggable = (shape: Shape) => tool === 'cursor' && !shape.locked && scopeShapes.some((s) => s.id === shape.id);
+
+    // Arrowheads other than the built-in Konva pointer are drawn at the tip of the path
+    const renderConnectorEnd = (shape: ConnectorStyle, points: Point[], at: 'start' | 'end') => {
+        const type = at === 'start' ? shape.startArrow : shape.endArrow;
+        if (type !== 'dot' && type !== 'bar') return null;
+        const { tip, angle } = getConnectorTip(points, at);
+        if (type === 'dot') {
+            return <Circle key={at} x={tip.x} y={tip.y} radius={CONNECTOR_DOT_RADIUS} fill={shape.stroke} />;
+        }
+        const dx = (Math.sin(angle) * CONNECTOR_BAR_SIZE) / 2;
+        const dy = (-Math.cos(angle) * CONNECTOR_BAR_SIZE) / 2;
+        return (
+            <Line
+                key={at}
+                points={[tip.x + dx, tip.y + dy, tip.x - dx, tip.y - dy]}
+                stroke={shape.stroke}
+                strokeWidth={shape.strokeWidth}
+            />
+        );
+    };
+
+    const renderConnectorPath = (shape: ConnectorStyle, points: Point[]) => (
+        <>
+            <Arrow
+                points={points.flatMap((point) => [point.x, point.y])}
+                stroke={shape.stroke}
+                fill={shape.stroke}
+                strokeWidth={shape.strokeWidth}
+                hitStrokeWidth={12}
+                pointerAtBeginning={shape.startArrow === 'arrow'}
+                pointerAtEnding={shape.endArrow === 'arrow'}
+                pointerLength={10}
+                pointerWidth={10}
+                lineCap="round"
+                lineJoin="round"
+            />
+            {renderConnectorEnd(shape, points, 'start')}
+            {renderConnectorEnd(shape, points, 'end')}
+        </>
+    );
+
+    const renderLine = (line: DrawLine) => {
+        const style = getLineStyle(line);
+        // Pressure strokes are filled outlines, since a Konva line has one width along its length
+        return usesPressure(line) ? (
+            <Line
+                key={line.id}
+                points={getStrokeOutline(line)}
+                closed
+                fill={line.color}
+                opacity={style.opacity}
+                tension={FREEHAND_TENSION}
+            />
+        ) : (
+            <Line
+                key={line.id}
+                points={line.points}
+                stroke={line.color}
+                strokeWidth={style.width}
+                opacity={style.opacity}
+                dash={style.dash}
+                globalCompositeOperation={style.composite}
+                tension={FREEHAND_TENSION}
+                lineCap="round"
+                lineJoin="round"
+            />
+        );
+    };
+
+    const renderShape = (shape: Shape): React.ReactNode => {
+        if (shape.hidden) return null;
+        if (shape.type === 'rectangle') {
+            return (
+                <Rect
+                    key={shape.id}
+                    id={shape.id}
+                    name="rect"
+                    x={shape.x}
+                    y={shape.y}
+                    width={shape.width}
+                    height={shape.height}
+                    rotation={shape.rotation}
+                    cornerRadius={shape.cornerRadius}
+                    fill={shape.fill}
+                    stroke={shape.stroke}
+                    strokeWidth={shape.strokeWidth}
+                    draggable={isDraggable(shape)}
+                    onClick={handleShapeClick}
+                    onDragMove={handleDragMove}
+                    onDragEnd={handleDragEnd}
+                />
+            );
+        } else if (PATH_SHAPE_TYPES.includes(shape.type)) {
+            return (
+                <Path
+                    key={shape.id}
+                    id={shape.id}
+                    name={shape.type}
+                    x={shape.x}
+                    y={shape.y}
+                    data={getShapePath(shape)}
+                    rotation={shape.rotation}
+                    fill={shape.fill}
+                    stroke={shape.stroke}
+                    strokeWidth={shape.strokeWidth}
+                    lineJoin="round"
+                    draggable={isDraggable(shape)}
+                    onClick={handleShapeClick}
+                    onDragMove={handleDragMove}
+                    onDragEnd={handleDragEnd}
+                />
+            );
+        } else if (shape.type === 'line') {
+            return (
+                <Line
+                    key={shape.id}
+                    id={shape.id}
+                    name="line"
+                    x={shape.x}
+                    y={shape.y}
+                    points={(shape.points || []).flatMap((point) => [point.x, point.y])}
+                    rotation={shape.rotation}
+                    stroke={shape.stroke}
+                    strokeWidth={shape.strokeWidth}
+                    // Thin lines are hard to hit, so clicks count a little way either side
+                    hitStrokeWidth={Math.max(shape.strokeWidth, 10 / zoom)}
+                    lineCap="round"
+                    lineJoin="round"
+                    draggable={isDraggable(shape)}
+                    onClick={handleShapeClick}
+                    onDragMove={handleDragMove}
+                    onDragEnd={handleDragEnd}
+                />
+            );
+        } else if (shape.type === 'icon') {
+            const box = normalizeBounds(0, 0, shape.width, shape.height);
+            return (
+                <Group
+                    key={shape.id}
+                    id={shape.id}
+                    name="icon"
+                    x={shape.x}
+                    y={shape.y}
+                    rotation={shape.rotation}
+                    draggable={isDraggable(shape)}
+                    onClick={handleShapeClick}
+                    onDragMove={handleDragMove}
+                    onDragEnd={handleDragEnd}
+                >
+                    {/* Catches clicks between the strokes of the glyph */}
+                    <Rect x={box.x} y={box.y} width={box.width} height={box.height} fill="transparent" />
+                    <Path
+                        x={box.x}
+                        y={box.y}
+                        data={findIcon(shape.icon)?.path ?? ''}
+                        scaleX={box.width / ICON_VIEWBOX}
+                        scaleY={box.height / ICON_VIEWBOX}
+                        fill={shape.fill}
+                    />
+                </Group>
+            );
+        } else if (shape.type === 'circle') {
+            return (
+                <Circle
+                    key={shape.id}
+                    id={shape.id}
+                    name="circle"
+                    x={shape.x + shape.width / 2}
+                    y={shape.y + shape.height / 2}
+                    radius={Math.abs(shape.width) / 2}
+                    fill={shape.fill}
+                    stroke={shape.stroke}
+                    strokeWidth={shape.strokeWidth}
+                    draggable={isDraggable(shape)}
+                    onClick={handleShapeClick}
+                    onDragMove={handleDragMove}
+                    onDragEnd={handleDragEnd}
+                />
+            );
+        } else if (shape.type === 'text') {
+            // Konva's Text has one style per node, so styled text is laid out here and drawn segment by segment
+            const layout = layoutText(textWrapPreview?.id === shape.id ? { ...shape, wrapWidth: textWrapPreview.width } : shape);
+            return (
+                <KonvaShape
+                    name="text"
+                    key={shape.id}
+                    id={shape.id}
+                    x={shape.x}
+                    y={shape.y}
+                    width={layout.width}
+                    height={layout.height}
+                    rotation={shape.rotation}
+                    fill={shape.fill}
+                    visible={editingText?.shape.id !== shape.id}
+                    sceneFunc={(context) => drawTextLayout(context, shape, layout)}
+                    hitFunc={(context, node) => {
+                        context.beginPath();
+                        context.rect(0, 0, layout.width, layout.height);
+                        context.closePath();
+                        context.fillShape(node);
+                    }}
+                    draggable={isDraggable(shape)}
+                    onClick={handleShapeClick}
+                    onDragMove={handleDragMove}
+                    onDragEnd={handleDragEnd}
+                />
+            );
+        } else if (shape.type === 'image') {
+            const loaded = getLoadedAsset(shape.assetId);
+            if (croppingImage?.id === shape.id && loaded) {
+                const full = getUncroppedBounds(shape, loaded.image);
+                const { box } = croppingImage;
+                // The whole picture shows faintly, and the part being kept at full strength over it
+                return (
+                    <Group key={shape.id} x={shape.x} y={shape.y} rotation={shape.rotation}>
+                        <KonvaImage {...full} image={loaded.image} opacity={0.3} listening={false} />
+                        <Group clipX={box.x} clipY={box.y} clipWidth={box.width} clipHeight={box.height} listening={false}>
+                            <KonvaImage {...full} image={loaded.image} />
+                        </Group>
+                        <Rect
+                            ref={cropBoxRef}
+                            {...box}
+                            fill="rgba(0, 0, 0, 0)"
+                            stroke="#3b82f6"
+                            strokeWidth={1 / zoom}
+                            draggable
+                            onDragMove={handleCropBoxDrag}
+                            onTransform={handleCropBoxTransform}
+                        />
+                    </Group>
+                );
+            }
+            return (
+                <KonvaImage
+                    key={shape.id}
+                    id={shape.id}
+                    name="image"
+                    x={shape.x}
+                    y={shape.y}
+                    width={shape.width}
+                    height={shape.height}
+                    image={loaded?.image}
+                    crop={shape.crop}
+                    rotation={shape.rotation}
+                    draggable={isDraggable(shape)}
+                    onClick={handleShapeClick}
+                    onDragMove={handleDragMove}
+                    onDragEnd={handleDragEnd}
+                />
+            );
+        } else if (shape.type === 'sticky') {
+            const { fontSize, lines } = layoutStickyText(shape);
+            return (
+                <Group
+                    key={shape.id}
+                    id={shape.id}
+                    name="sticky"
+                    x={shape.x}
+                    y={shape.y}
+                    rotation={shape.rotation}
+                    draggable={isDraggable(shape)}
+                    onClick={handleShapeClick}
+                    onDragMove={handleDragMove}
+                    onDragEnd={handleDragEnd}
+                >
+                    <Rect width={shape.width} height={shape.height} fill={shape.fill} />
+                    {/* Wrapped ahead of time, so the canvas and exports break lines in the same places */}
+                    <Text
+                        x={STICKY_PADDING}
+                        y={STICKY_PADDING}
+                        width={shape.width - STICKY_PADDING * 2}
+                        height={shape.height - STICKY_PADDING * 2}
+                        text={editingSticky?.id === shape.id ? '' : lines.join('\n')}
+                        fontSize={fontSize}
+                        fontFamily={shape.fontFamily}
+                        lineHeight={STICKY_LINE_HEIGHT}
+                        align="center"
+                        verticalAlign="middle"
+                        wrap="none"
+                        fill={STICKY_TEXT_COLOR}
+                    />
+                </Group>
+            );
+        } else if (shape.type === 'frame') {
+            // The frame's contents are drawn after it by renderFrameContents
+            return (
+                <Group
+                    key={shape.id}
+                    id={shape.id}
+                    name="frame"
+                    x={shape.x}
+                    y={shape.y}
+                    draggable={isDraggable(shape)}
+                    onClick={handleShapeClick}
+                    onDragMove={handleDragMove}
+                    onDragEnd={handleDragEnd}
+                >
+                    <Rect
+                        width={shape.width}
+                        height={shape.height}
+                        fill={shape.fill || 'transparent'}
+                        stroke={shape.stroke}
+                        strokeWidth={shape.strokeWidth}
+                    />
+                    <Text
+                        y={-FRAME_TITLE_OFFSET}
+                        text={shape.text}
+                        fontSize={FRAME_TITLE_FONT_SIZE}
+                        fontFamily="Arial"
+                        fill={FRAME_TITLE_COLOR}
+                    />
+                </Group>
+            );
+        } else if (shape.type === 'group') {
+            return (
+                <Group
+                    key={shape.id}
+                    id={shape.id}
+                    name="group"
+                    x={shape.x}
+                    y={shape.y}
+                    rotation={shape.rotation}
+                    scaleX={shape.scaleX}
+                    scaleY={shape.scaleY}
+                    draggable={isDraggable(shape)}
+                    onDragMove={handleDragMove}
+                    onDragEnd={handleDragEnd}
+                >
+                    {shape.children?.map(renderShape)}
+                </Group>
+            );
+        } else if (shape.type === 'connector') {
+            // While a bound shape is dragged, draw the connector from the previewed route
+            const points = (dragPreview && findShapeInTree(dragPreview, shape.id)?.points) || shape.points || [];
+            if (points.length < 2) return null;
+            const label = shape.text ? getConnectorLabelBounds(points, shape.text) : null;
+            return (
+                <Group
+                    key={shape.id}
+                    id={shape.id}
+                    name="connector"
+                    draggable={isDraggable(shape)}
+                    onClick={handleShapeClick}
+                    onDragEnd={handleDragEnd}
+                >
+                    {renderConnectorPath(shape, points)}
+                    {label && (
+                        <Label x={label.x} y={label.y}>
+                            <Tag fill="white" />
+                            <Text
+                                text={shape.text}
+                                fontSize={CONNECTOR_LABEL_FONT_SIZE}
+                                fontFamily="Arial"
+                                fill={shape.stroke}
+                                padding={CONNECTOR_LABEL_PADDING}
+                            />
+                        </Label>
+                    )}
+                </Group>
+            );
+        } else if (shape.type === 'pen') {
+            // Two nodes however many points: one path for all the point markers, one arrow through them
+            const points = shape.points || [];
+            return (
+                <Group key={shape.id} onClick={handleShapeClick}>
+                    <KonvaShape
+                        sceneFunc={(context, node) => {
+                            context.beginPath();
+                            points.forEach((point) => {
+                                context.moveTo(point.x + 5, point.y);
+                                context.arc(point.x, point.y, 5, 0, Math.PI * 2);
+                            });
+                            context.fillStrokeShape(node);
+                        }}
+                        fill={shape.stroke}
+                        stroke="black"
+                        strokeWidth={1}
+                    />
+                    {points.length > 1 && (
+                        <Arrow
+                            points={points.flatMap((point) => [point.x, point.y])}
+                            stroke={shape.stroke}
+                            fill={shape.stroke}
+                            strokeWidth={shape.strokeWidth}
+                            pointerLength={10}
+                            pointerWidth={10}
+                            lineCap="round"
+                            lineJoin="round"
+                        />
+                    )}
+                </Group>
+            );
         }
+        return null;
+    };
+
+    // A frame's contents in their own layer, clipped to the frame, so it can carry them while dragged
+    const renderFrameContents = (frame: Shape) => {
+        const bounds = getFrameBounds(frame);
+        return (
+            <Group
+                key={`${frame.id}-contents`}
+                ref={(node) => {
+                    if (node) {
+                        frameContents.current.set(frame.id, node);
+                    } else {
+                        frameContents.current.delete(frame.id);
+                    }
+                }}
+                clipX={bounds.x}
+                clipY={bounds.y}
+                clipWidth={bounds.width}
+                clipHeight={bounds.height}
+            >
+                {frameMembers.get(frame.id)?.map(renderShape)}
+            </Group>
+        );
     };
 
-    // Function to move the selected shape to the back
-    const handleMoveToBack = () => {
-        if (selectedShapeId) {
-            const shapeIndex = shapes.findIndex((shape) => shape.id === selectedShapeId);
-            if (shapeIndex !== -1 && shapeIndex !== 0) {
-                const updatedShapes = [...shapes];
-                const [shape] = updatedShapes.splice(shapeIndex, 1);
-                updatedShapes.unshift(shape);
-                setShapes(updatedShapes);
-                // Ensure the transformer is updated
-                if (transformerRef.current) {
-                    transformerRef.current.getLayer().batchDraw();
-                }
-            }
-        }
-    };
+    const editingStickyNote = editingSticky ? findShapeInTree(shapes, editingSticky.id) : undefined;
+    const openThreadPin = openThread && getThreadPosition(openThread, shapes);
+    const openThreadShape = openThread?.shapeId ? findShapeInTree(shapes, openThread.shapeId) : undefined;
+    const editingStickyBounds = editingSticky && getWorldBounds(shapes, editingSticky.id);
+
+    // Maps the edited text's own coordinates onto the screen, through the view and any groups it sits in,
+    // so the editor lies exactly over where the text is drawn
+    const getTextEditorMatrix = ({ shape, isNew }: { shape: Shape; isNew: boolean }) => {
+        const groups = isNew ? [] : activeGroupChain;
+        return groups
+            .reduce(
+                (matrix, group) => matrix
+                    .translate(group.x, group.y)
+                    .rotate(group.rotation || 0)
+                    .scale(group.scaleX ?? 1, group.scaleY ?? 1),
+                new DOMMatrix().translate(position.x, position.y).scale(zoom)
+            )
+            .translate(shape.x, shape.y)
+            .rotate(shape.rotation || 0);
+    };
+    const textEditorMatrix = editingText && getTextEditorMatrix(editingText);
+
+    const visibleBounds = getVisibleBounds();
+    const visibleLines = lineIndex.search(visibleBounds);
+    // Selected items and the entered group stay rendered off screen, since the Transformer holds their nodes.
+    // Connectors are kept while dragging too, as the preview can route them into view.
+    // Frame contents are drawn with their frame, which is kept whenever one of them has to be.
+    const onScreen = new Set(shapeIndex.search(visibleBounds));
+    const framedIds = new Set(Array.from(frameMembers.values()).flat().map((shape) => shape.id));
+    const visibleShapes = shapes.filter((shape) =>
+        !framedIds.has(shape.id) && (
+            onScreen.has(shape)
+            || selectedShapeIds.includes(shape.id)
+            || shape.id === activeGroupChain[0]?.id
+            || (dragPreview && shape.type === 'connector')
+            || frameMembers.get(shape.id)?.some((member) =>
+                selectedShapeIds.includes(member.id) || member.id === activeGroupChain[0]?.id
+            )
+        )
+    );
+
+    return (
+        <div
+            className="h-screen w-full relative overflow-hidden touch-none"
+            ref={containerRef}
+            // Keeps a middle-button press from starting the browser's autoscroll
+            onMouseDown={(e) => {
+                if (e.button === 1) e.preventDefault();
+            }}
+            onDragOver={(e) => {
+                if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+            }}
+            onDrop={handleDrop}
+        >
+            {!presentation && (
+                <>
+                    <div className="w-16 bg-gray-800 p-2 flex flex-col gap-4 rounded-md fixed left-2 top-14 z-50">
+                        {tools.map((item) => (
+                            <button
+                                key={item.name}
+                                onClick={() => selectTool(item.name)}
+                                className={`w-full aspect-square flex items-center justify-center text-xl rounded
+                                    ${tool === item.name ? 'bg-blue-500 text-white' : 'bg-gray-700 text-gray-300'}
+                                    hover:bg-blue-400 transition-colors`}
+                            >
+                                {item.icon}
+                            </button>
+                        ))}
+                        <input
+                            type="file"
+                            accept="image/*"
+                            multiple
+                            onChange={handleImageUpload}
+                            style={{ display: 'none' }}
+                            ref={fileInputRef}
+                        />
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="w-full aspect-square flex items-center justify-center text-xl rounded bg-gray-700 text-gray-300 hover:bg-blue-400 transition-colors"
+                        >
+                            📁
+                        </button>
+                        <input
+                            type="file"
+                            accept=".json,application/json"
+                            onChange={handleOpenSceneFile}
+                            style={{ display: 'none' }}
+                            ref={sceneFileInputRef}
+                        />
+                        <button
+                            onClick={handleSaveSceneFile}
+                            title="Save as .json"
+                            className="w-full aspect-square flex items-center justify-center text-xl rounded bg-gray-700 text-gray-300 hover:bg-blue-400 transition-colors"
+                        >
+                            💾
+                        </button>
+                        <button
+                            onClick={() => sceneFileInputRef.current?.click()}
+                            title="Open .json"
+                            className="w-full aspect-square flex items-center justify-center text-xl rounded bg-gray-700 text-gray-300 hover:bg-blue-400 transition-colors"
+                        >
+                            📂
+                        </button>
+                        <button
+                            onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                            title="Export"
+                            className={`w-full aspect-square flex items-center justify-center text-xl rounded
+                                ${isExportMenuOpen ? 'bg-blue-500 text-white' : 'bg-gray-700 text-gray-300'}
+                                hover:bg-blue-400 transition-colors`}
+                        >
+                            📤
+                        </button>
+                    </div>
+
+                    {tool === 'draw' && (
+                        <div className="fixed left-20 top-4 z-50 bg-white text-black p-2 rounded shadow flex items-center gap-3 text-sm">
+                            <label className="flex items-center gap-1">
+                                Width
+                                <input
+                                    type="range"
+                                    min={1}
+                                    max={40}
+                                    value={brush.width}
+                                    onChange={(e) => setBrush({ ...brush, width: Number(e.target.value) })}
+                                />
+                            </label>
+                            <label className="flex items-center gap-1">
+                                Opacity
+                                <input
+                                    type="range"
+                                    min={0.1}
+                                    max={1}
+                                    step={0.05}
+                                    value={brush.opacity}
+                                    disabled={brush.highlighter}
+                                    onChange={(e) => setBrush({ ...brush, opacity: Number(e.target.value) })}
+                                />
+                            </label>
+                            <select
+                                value={brush.dash}
+                                onChange={(e) => setBrush({ ...brush, dash: e.target.value as BrushDash })}
+                                className="border rounded px-1"
+                            >
+                                {BRUSH_DASHES.map((item) => (
+                                    <option key={item.value} value={item.value}>{item.label}</option>
+                                ))}
+                            </select>
+                            <label className="flex items-center gap-1">
+                                <input
+                                    type="checkbox"
+                                    checked={brush.highlighter}
+                                    onChange={(e) => setBrush({ ...brush, highlighter: e.target.checked })}
+                                />
+                                Highlighter
+                            </label>
+                        </div>
+                    )}
 
-    // Function to move the selected shape up in z-index
-    const handleMoveUp = () => {
-        if (selectedShapeId) {
-            const shapeIndex = shapes.findIndex((shape) => shape.id === selectedShapeId);
-            if (shapeIndex > 0) {
-                const updatedShapes = [...shapes];
-                const shape = updatedShapes[shapeIndex];
-                updatedShapes.splice(shapeIndex, 1);
-                updatedShapes.splice(shapeIndex - 1, 0, shape);
-                setShapes(updatedShapes);
-                // Ensure the transformer is updated
-                if (transformerRef.current) {
-                    transformerRef.current.getLayer().batchDraw();
-                }
-            }
-        }
-    };
+                    {SHAPE_TOOLS.some((item) => item.value === tool) && (
+                        <div className="fixed left-20 top-4 z-50 bg-white text-black p-2 rounded shadow flex flex-col gap-2 text-sm">
+                            <div className="flex gap-1">
+                                {SHAPE_TOOLS.map((item) => (
+                                    <button
+                                        key={item.value}
+                                        title={item.label}
+                                        onClick={() => selectTool(item.value)}
+                                        className={`w-8 h-8 rounded text-lg ${tool === item.value ? 'bg-blue-500 text-white' : 'hover:bg-gray-200'}`}
+                                    >
+                                        {item.icon}
+                                    </button>
+                                ))}
+                            </div>
+                            {tool === 'polyline' && <p>Click to add corners; double-click or press Enter to finish</p>}
+                            {tool === 'icon' && <IconPicker value={iconName} onSelect={setIconName} />}
+                        </div>
+                    )}
 
-    // Function to move the selected shape down in z-index
-    const handleMoveDown = () => {
-        if (selectedShapeId) {
-            const shapeIndex = shapes.findIndex((shape) => shape.id === selectedShapeId);
-            if (shapeIndex < shapes.length - 1) {
-                const updatedShapes = [...shapes];
-                const shape = updatedShapes[shapeIndex];
-                updatedShapes.splice(shapeIndex, 1);
-                updatedShapes.splice(shapeIndex + 1, 0, shape);
-                setShapes(updatedShapes);
-                // Ensure the transformer is updated
-                if (transformerRef.current) {
-                    transformerRef.current.getLayer().batchDraw();
-                }
-            }
-        }
-    };
+                    {tool === 'eraser' && (
+                        <div className="fixed left-20 top-4 z-50 bg-white text-black p-1 rounded shadow flex gap-1 text-sm">
+                            {ERASER_MODES.map((mode) => (
+                                <button
+                                    key={mode.value}
+                                    onClick={() => setEraserMode(mode.value)}
+                                    className={`px-2 py-1 rounded ${eraserMode === mode.value ? 'bg-blue-500 text-white' : 'hover:bg-gray-200'}`}
+                                >
+                                    {mode.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
 
-    useEffect(() => {
-        if (selectedShapeId && transformerRef.current) {
-            const selectedNode = stageRef.current.findOne(`#${selectedShapeId}`);
-            if (selectedNode) {
-                transformerRef.current.nodes([selectedNode]);
-                transformerRef.current.getLayer().batchDraw();
-            }
-        }
-    }, [selectedShapeId]);
+                    {isLayersPanelOpen && (
+                        <LayersPanel
+                            shapes={shapes}
+                            selectedIds={selectedShapeIds}
+                            onSelect={handleLayerSelect}
+                            onPatch={(id, patch) => updateShapesById({ [id]: patch })}
+                            onMove={handleLayerMove}
+                            onClose={() => setIsLayersPanelOpen(false)}
+                        />
+                    )}
 
-    useEffect(() => {
-        const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key === 'Shift') {
-                setIsShiftPressed(true);
-            } else if (e.key === 'Control') {
-                isCtrlPressed.current = true;
-            };
-        };
+                    {isCommandPaletteOpen && (
+                        <CommandPalette
+                            keymap={keymap}
+                            isAvailable={isCommandAvailable}
+                            onRun={(id) => commandHandlers[id]()}
+                            onKeymapChange={updateKeymap}
+                            onClose={() => setIsCommandPaletteOpen(false)}
+                        />
+                    )}
 
-        const handleKeyUp = (e: KeyboardEvent) => {
-            if (e.key === 'Shift') {
-                setIsShiftPressed(false);
-            } else if (e.key === 'Control') {
-                isCtrlPressed.current = false;
-            };
+                    {isHistoryOpen && (
+                        <HistoryPanel
+                            snapshots={history.snapshots}
+                            shapes={shapes}
+                            loadSnapshot={history.loadSnapshot}
+                            onSave={(name) => history.takeSnapshot(presence.user.name, name)}
+                            onRename={history.renameSnapshot}
+                            onDelete={history.deleteSnapshot}
+                            onRestore={restoreSnapshot}
+                            onCopyShapes={copyFromSnapshot}
+                            onClose={() => setIsHistoryOpen(false)}
+                        />
+                    )}
 
-        };
+                    {isMinimapOpen && (
+                        <Minimap
+                            shapes={shapes}
+                            lines={lines}
+                            viewport={{
+                                x: -position.x / zoom,
+                                y: -position.y / zoom,
+                                width: viewSize.width / zoom,
+                                height: viewSize.height / zoom,
+                            }}
+                            onNavigate={centerOn}
+                        />
+                    )}
 
-        window.addEventListener('keydown', handleKeyDown);
-        window.addEventListener('keyup', handleKeyUp);
+                    {isExportMenuOpen && (
+                        <ExportMenu
+                            hasSelection={selectedShapeIds.length > 0}
+                            frames={frames.map((frame) => ({ id: frame.id, name: frame.text || 'Untitled frame' }))}
+                            isExporting={isExporting}
+                            onExport={handleExport}
+                            onClose={() => setIsExportMenuOpen(false)}
+                        />
+                    )}
+                </>
+            )}
 
-        return () => {
-            window.removeEventListener('keydown', handleKeyDown);
-            window.removeEventListener('keyup', handleKeyUp);
-        };
-    }, []);
+            {isCommentsPanelOpen && !presentation && (
+                <CommentsPanel
+                    threads={comments}
+                    shapes={shapes}
+                    userName={presence.user.name}
+                    openThreadId={openThreadId}
+                    onShow={(thread) => {
+                        centerOn(getThreadPosition(thread, shapes));
+                        showThread(thread);
+                    }}
+                    onClose={() => setIsCommentsPanelOpen(false)}
+                />
+            )}
 
-    const selectedShape = shapes.find((shape) => shape.id === selectedShapeId);
+            {isSlidesPanelOpen && !presentation && (
+                <SlidesPanel
+                    slides={slides}
+                    shapes={shapes}
+                    onChange={(next, mergeKey) => updateSlides(() => next, { mergeKey })}
+                    onSeal={history.seal}
+                    onShow={(slide) => showSlide(slide, true)}
+                    onAddView={addViewSlide}
+                    onPresent={startPresentation}
+                    onClose={() => setIsSlidesPanelOpen(false)}
+                />
+            )}
 
-    return (
-        <div className="h-screen w-full relative" ref={containerRef} {...bind()}>
-            <div className="w-16 bg-gray-800 p-2 flex flex-col gap-4 rounded-md fixed left-2 top-14 z-50">
-                {tools.map((item) => (
+            {presentation && (
+                <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-3 py-2 rounded bg-gray-800/80 text-white text-sm opacity-30 hover:opacity-100 transition-opacity">
+                    <button onClick={() => goToSlide(slideIndex - 1)} disabled={slideIndex === 0} title="Previous slide">
+                        ◀
+                    </button>
+                    <span>
+                        {slideIndex + 1} / {presentationSlides.length}
+                    </span>
                     <button
-                        key={item.name}
-                        onClick={() => selectTool(item.name)}
-                        className={`w-full aspect-square flex items-center justify-center text-xl rounded
-                            ${tool === item.name ? 'bg-blue-500 text-white' : 'bg-gray-700 text-gray-300'}
-                            hover:bg-blue-400 transition-colors`}
+                        onClick={() => goToSlide(slideIndex + 1)}
+                        disabled={slideIndex >= presentationSlides.length - 1}
+                        title="Next slide"
                     >
-                        {item.icon}
+                        ▶
                     </button>
-                ))}
-                <input
-                    type="file"
-                    accept="image/*"
-                    onChange={handleImageUpload}
-                    style={{ display: 'none' }}
-                    ref={fileInputRef}
-                />
-                <button
-                    onClick={() => fileInputRef.current?.click()}
-                    className="w-full aspect-square flex items-center justify-center text-xl rounded bg-gray-700 text-gray-300 hover:bg-blue-400 transition-colors"
-                >
-                    📁
-                </button>
-            </div>
-
-            <div className="flex-1 bg-gray-100 relative overflow-auto">
-                <div className="fixed top-4 right-4 flex gap-2 bg-white z-50">
-                    <button onClick={() => handleZoom(ZOOM_STEP)} disabled={zoom >= MAX_ZOOM}>
-                        <FaPlus size={24} />
+                    <button
+                        onClick={() => selectTool(tool === 'laser' ? 'cursor' : 'laser')}
+                        title="Laser pointer"
+                        className={tool === 'laser' ? 'text-red-400' : ''}
+                    >
+                        🔴
                     </button>
-                    <span>Zoom: {(zoom * 100).toFixed(0)}%</span>
-                    <button onClick={() => handleZoom(-ZOOM_STEP)} disabled={zoom <= MIN_ZOOM}>
-                        <FaMinus size={24} />
+                    <button onClick={() => setIsPresenterViewOpen(!isPresenterViewOpen)} title="Presenter view with notes">
+                        📝
                     </button>
+                    <button onClick={stopPresentation} title="End presentation (Esc)">
+                        ✕
+                    </button>
+                </div>
+            )}
+
+            {presentation && isPresenterViewOpen && (
+                <PresenterView
+                    slides={presentationSlides}
+                    shapes={shapes}
+                    index={slideIndex}
+                    startedAt={presentation.startedAt}
+                    onStep={(step) => goToSlide(slideIndex + step)}
+                    onClose={(blocked) => {
+                        setIsPresenterViewOpen(false);
+                        if (blocked) setError('Allow pop-ups for this site to open the presenter view.');
+                    }}
+                />
+            )}
+
+            {error && (
+                <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded flex gap-4">
+                    {error}
+                    <button onClick={() => setError('')}>✕</button>
                 </div>
+            )}
+
+            <div className="flex-1 bg-gray-100 relative overflow-auto">
+                {followedPeer && (
+                    <div
+                        className="fixed inset-0 pointer-events-none border-4 z-40"
+                        style={{ borderColor: followedPeer.user.color }}
+                    >
+                        <span
+                            className="absolute top-0 left-1/2 -translate-x-1/2 px-2 py-1 text-sm text-white rounded-b"
+                            style={{ backgroundColor: followedPeer.user.color }}
+                        >
+                            Following {followedPeer.user.name}
+                        </span>
+                    </div>
+                )}
+                {!presentation && (
+                    <div className="fixed top-4 right-4 flex gap-2 bg-white z-50">
+                        <div className="flex -space-x-1">
+                            <button
+                                onClick={handleRename}
+                                title={`You (${presence.user.name}): click to rename`}
+                                className="w-6 h-6 rounded-full text-xs text-white border-2 border-white"
+                                style={{ backgroundColor: presence.user.color }}
+                            >
+                                {presence.user.name.charAt(0).toUpperCase()}
+                            </button>
+                            {presence.peers.map((peer) => (
+                                <button
+                                    key={peer.clientId}
+                                    onClick={() => setFollowingId(followingId === peer.clientId ? null : peer.clientId)}
+                                    title={followingId === peer.clientId ? `Stop following ${peer.user.name}` : `Follow ${peer.user.name}`}
+                                    className={`w-6 h-6 rounded-full text-xs text-white border-2 ${
+                                        followingId === peer.clientId ? 'border-black' : 'border-white'
+                                    }`}
+                                    style={{ backgroundColor: peer.user.color }}
+                                >
+                                    {peer.user.name.charAt(0).toUpperCase()}
+                                </button>
+                            ))}
+                        </div>
+                        <span
+                            title={`Board "${boardId}": ${history.status}`}
+                            className={`self-center w-3 h-3 rounded-full ${
+                                history.status === 'connected' ? 'bg-green-500' : history.status === 'connecting' ? 'bg-yellow-400' : 'bg-gray-400'
+                            }`}
+                        />
+                        <div className="relative">
+                            <button
+                                onClick={() => setIsFrameListOpen(!isFrameListOpen)}
+                                disabled={frames.length === 0}
+                                title="Frames"
+                                className="disabled:text-gray-400"
+                            >
+                                ⬚
+                            </button>
+                            {isFrameListOpen && frames.length > 0 && (
+                                <ul className="absolute right-0 top-8 w-48 max-h-64 overflow-y-auto bg-white text-black rounded shadow-lg py-1">
+                                    {frames.map((frame) => (
+                                        <li key={frame.id}>
+                                            <button
+                                                onClick={() => jumpToFrame(frame)}
+                                                className="w-full text-left px-3 py-1 hover:bg-gray-200 truncate"
+                                            >
+                                                {frame.text || 'Untitled frame'}
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                        <button
+                            onClick={() => setIsLayersPanelOpen(!isLayersPanelOpen)}
+                            title="Layers"
+                            className={isLayersPanelOpen ? 'text-blue-500' : ''}
+                        >
+                            <FaLayerGroup size={20} />
+                        </button>
+                        <button
+                            onClick={() => setIsSlidesPanelOpen(!isSlidesPanelOpen)}
+                            title="Slides"
+                            className={isSlidesPanelOpen ? 'text-blue-500' : ''}
+                        >
+                            <FaDesktop size={20} />
+                        </button>
+                        <button
+                            onClick={() => setIsCommentsPanelOpen(!isCommentsPanelOpen)}
+                            title="Comments"
+                            className={isCommentsPanelOpen ? 'text-blue-500' : ''}
+                        >
+                            <FaComment size={20} />
+                        </button>
+                        <button
+                            onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                            title={describeCommand('Version history', 'board.history')}
+                            className={isHistoryOpen ? 'text-blue-500' : ''}
+                        >
+                            <FaHistory size={20} />
+                        </button>
+                        <button
+                            onClick={() => startPresentation()}
+                            disabled={presentationSlides.length === 0}
+                            title={describeCommand('Present', 'view.present')}
+                        >
+                            <FaPlay size={18} />
+                        </button>
+                        <button onClick={() => setIsCommandPaletteOpen(true)} title={describeCommand('Commands', 'view.commandPalette')}>
+                            <FaKeyboard size={20} />
+                        </button>
+                        <button onClick={undo} disabled={!history.canUndo} title={describeCommand('Undo', 'edit.undo')}>
+                            <FaUndo size={20} />
+                        </button>
+                        <button onClick={redo} disabled={!history.canRedo} title={describeCommand('Redo', 'edit.redo')}>
+                            <FaRedo size={20} />
+                        </button>
+                        <button
+                            onClick={() => setIsGridSnapEnabled(!isGridSnapEnabled)}
+                            title="Snap to grid"
+                            className={isGridSnapEnabled ? 'text-blue-500' : 'text-gray-400'}
+                        >
+                            <FaTh size={20} />
+                        </button>
+                        <button
+                            onClick={() => setIsMinimapOpen(!isMinimapOpen)}
+                            title="Minimap"
+                            className={isMinimapOpen ? 'text-blue-500' : ''}
+                        >
+                            <FaMap size={20} />
+                        </button>
+                        <button onClick={zoomToFit} disabled={shapes.length === 0 && lines.length === 0} title={describeCommand('Zoom to fit content', 'view.zoomToFit')}>
+                            <FaExpand size={20} />
+                        </button>
+                        <button onClick={zoomToSelection} disabled={selectedShapes.length === 0} title={describeCommand('Zoom to selection', 'view.zoomToSelection')}>
+                            <FaCrosshairs size={20} />
+                        </button>
+                        <button onClick={() => handleZoom(ZOOM_STEP)} disabled={zoom >= maxZoom}>
+                            <FaPlus size={24} />
+                        </button>
+                        <button onClick={resetZoom} title={describeCommand('Reset to 100%', 'view.resetZoom')}>
+                            Zoom: {(zoom * 100).toFixed(0)}%
+                        </button>
+                        <button onClick={() => handleZoom(1 / ZOOM_STEP)} disabled={zoom <= minZoom}>
+                            <FaMinus size={24} />
+                        </button>
+                    </div>
+                )}
                 <div
                     style={{
-                        width: '3000px',
-                        height: '3000px',
-                        cursor: isCtrlPressed.current ? 'grab' : 'default'
+                        cursor: panPointer
+                            ? 'grabbing'
+                            : isSpacePressed || isCtrlPressed.current
+                                ? 'grab'
+                                : tool === 'laser' || tool === 'comment' ? 'crosshair' : 'default'
                     }}
                 >
                     <Stage
                         ref={stageRef}
-                        width={2000}
-                        height={2000}
+                        width={viewSize.width}
+                        height={viewSize.height}
                         scaleX={zoom}
                         scaleY={zoom}
                         x={position.x}
                         y={position.y}
-                        onMouseDown={handleMouseDown}
-                        onMouseMove={handleMouseMove}
-                        onMouseUp={handleMouseUp}
-                        onClick={(e) => {
-                            handleStageClick(e);
-                            handleTextToolClick(e);
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onDblClick={handleStageDoubleClick}
+                        onClick={handleStageClick}
+                        onPointerLeave={(e) => {
+                            presence.setCursor(null);
+                            setEraserPosition(null);
+                            handlePointerUp(e);
                         }}
-                        onMouseLeave={handleMouseUp}
                     >
                         <Layer>
-                            {generateDots()}
+                            {renderGrid(visibleBounds)}
                             {tool === 'pen' && currentPenPath.length > 0 && mousePosition && (
                                 <Arrow
                                     points={[
@@ -682,182 +3483,125 @@ const DrawingApp = () => {
                                     pointerWidth={10}
                                 />
                             )}
-                            {lines.map((line, i) => (
+                            {visibleLines.map(renderLine)}
+                            {visibleShapes.map((shape) =>
+                                isFrame(shape) ? [renderShape(shape), renderFrameContents(shape)] : renderShape(shape)
+                            )}
+                            {connectorDraft && (
+                                <Group listening={false}>
+                                    {[connectorDraft.start, connectorDraft.end].map((end, index) => {
+                                        // Anchors of the shapes the draft is bound to, with the chosen one filled
+                                        const bounds = end.shapeId ? getWorldBounds(shapes, end.shapeId) : null;
+                                        return bounds && ANCHOR_SIDES.map((side) => {
+                                            const anchor = getAnchorPoint(bounds, side);
+                                            return (
+                                                <Circle
+                                                    key={`anchor-${index}-${side}`}
+                                                    x={anchor.x}
+                                                    y={anchor.y}
+                                                    radius={5 / zoom}
+                                                    fill={side === end.anchor ? '#3b82f6' : 'white'}
+                                                    stroke="#3b82f6"
+                                                    strokeWidth={1 / zoom}
+                                                />
+                                            );
+                                        });
+                                    })}
+                                    {renderConnectorPath(
+                                        { stroke: strokeColor, strokeWidth: 2, startArrow: 'none', endArrow: 'arrow' },
+                                        routeConnector(connectorDraft.start, connectorDraft.end, 'straight')
+                                    )}
+                                </Group>
+                            )}
+                            {activeGroupBounds && (
+                                <Rect
+                                    {...expandBounds(activeGroupBounds, 8 / zoom)}
+                                    stroke="#3b82f6"
+                                    strokeWidth={1 / zoom}
+                                    dash={[6 / zoom, 4 / zoom]}
+                                    listening={false}
+                                />
+                            )}
+                            {snapFeedback?.guides.map((guide, index) => (
                                 <Line
-                                    key={i}
-                                    points={line.points}
-                                    stroke={line.color}
-                                    strokeWidth={5}
-                                    tension={0.5}
-                                    lineCap="round"
-                                    lineJoin="round"
+                                    key={`guide-${index}`}
+                                    points={
+                                        guide.orientation === 'vertical'
+                                            ? [guide.position, guide.start, guide.position, guide.end]
+                                            : [guide.start, guide.position, guide.end, guide.position]
+                                    }
+                                    stroke="#ec4899"
+                                    strokeWidth={1 / zoom}
+                                    listening={false}
+                                />
+                            ))}
+                            {snapFeedback?.spacing.map((hint, index) => (
+                                <Arrow
+                                    key={`spacing-${index}`}
+                                    points={[hint.from.x, hint.from.y, hint.to.x, hint.to.y]}
+                                    stroke="#ec4899"
+                                    fill="#ec4899"
+                                    strokeWidth={1 / zoom}
+                                    pointerAtBeginning
+                                    pointerLength={4 / zoom}
+                                    pointerWidth={4 / zoom}
+                                    listening={false}
                                 />
                             ))}
-                            {shapes.map((shape) => {
-                                if (shape.type === 'rectangle') {
-                                    return (
+                            {selectionRect && (
+                                <Rect
+                                    x={selectionRect.x}
+                                    y={selectionRect.y}
+                                    width={selectionRect.width}
+                                    height={selectionRect.height}
+                                    fill="rgba(59, 130, 246, 0.1)"
+                                    stroke="#3b82f6"
+                                    strokeWidth={1 / zoom}
+                                    dash={[4 / zoom, 4 / zoom]}
+                                    listening={false}
+                                />
+                            )}
+                            {presence.peers.map((peer) =>
+                                peer.selection.map((id) => {
+                                    const bounds = getWorldBounds(shapes, id);
+                                    return bounds && (
                                         <Rect
-                                            key={shape.id}
-                                            id={shape.id}
-                                            name="rect"
-                                            x={shape.x}
-                                            y={shape.y}
-                                            width={shape.width}
-                                            height={shape.height}
-                                            fill={shape.fill}
-                                            stroke={shape.stroke}
-                                            strokeWidth={shape.strokeWidth}
-                                            draggable={tool === 'cursor'}
-                                            onClick={handleShapeClick}
-                                            onDragEnd={(e) => {
-                                                const updatedShapes = shapes.map((s) => {
-                                                    if (s.id === shape.id) {
-                                                        return {
-                                                            ...s,
-                                                            x: e.target.x(),
-                                                            y: e.target.y(),
-                                                        };
-                                                    }
-                                                    return s;
-                                                });
-                                                setShapes(updatedShapes);
-                                            }}
-                                        />
-                                    );
-                                } else if (shape.type === 'circle') {
-                                    return (
-                                        <Circle
-                                            key={shape.id}
-                                            id={shape.id}
-                                            name="circle"
-                                            x={shape.x + shape.width / 2}
-                                            y={shape.y + shape.height / 2}
-                                            radius={Math.abs(shape.width) / 2}
-                                            fill={shape.fill}
-                                            stroke={shape.stroke}
-                                            strokeWidth={shape.strokeWidth}
-                                            draggable={tool === 'cursor'}
-                                            onClick={handleShapeClick}
-                                            onDragEnd={(e) => {
-                                                const updatedShapes = shapes.map((s) => {
-                                                    if (s.id === shape.id) {
-                                                        return {
-                                                            ...s,
-                                                            x: e.target.x() - s.width / 2,
-                                                            y: e.target.y() - s.height / 2,
-                                                        };
-                                                    }
-                                                    return s;
-                                                });
-                                                setShapes(updatedShapes);
-                                            }}
-                                        />
-                                    );
-                                } else if (shape.type === 'text') {
-                                    return (
-                                        <Text
-                                            name="text"
-                                            key={shape.id}
-                                            id={shape.id}
-                                            x={shape.x}
-                                            y={shape.y}
-                                            text={shape.text}
-                                            fontSize={shape.fontSize}
-                                            fontFamily={shape.fontFamily}
-                                            fill={shape.fill}
-                                            draggable={tool === 'cursor'}
-                                            onClick={handleShapeClick}
-                                            onDragEnd={(e) => {
-                                                const updatedShapes = shapes.map((s) => {
-                                                    if (s.id === shape.id) {
-                                                        return {
-                                                            ...s,
-                                                            x: e.target.x(),
-                                                            y: e.target.y(),
-                                                        };
-                                                    }
-                                                    return s;
-                                                });
-                                                setShapes(updatedShapes);
-                                            }}
-                                        />
-                                    );
-                                } else if (shape.type === 'image') {
-                                    return (
-                                        <KonvaImage
-                                            key={shape.id}
-                                            id={shape.id}
-                                            name="image"
-                                            x={shape.x}
-                                            y={shape.y}
-                                            width={shape.width}
-                                            height={shape.height}
-                                            image={shape.image}
-                                            draggable={tool === 'cursor'}
-                                            onClick={handleShapeClick}
-                                            onDragEnd={(e) => {
-                                                const updatedShapes = shapes.map((s) => {
-                                                    if (s.id === shape.id) {
-                                                        return {
-                                                            ...s,
-                                                            x: e.target.x(),
-                                                            y: e.target.y(),
-                                                        };
-                                                    }
-                                                    return s;
-                                                });
-                                                setShapes(updatedShapes);
-                                            }}
+                                            key={`peer-selection-${peer.clientId}-${id}`}
+                                            {...expandBounds(bounds, 4 / zoom)}
+                                            stroke={peer.user.color}
+                                            strokeWidth={2 / zoom}
+                                            listening={false}
                                         />
                                     );
-                                } else if (shape.type === 'pen') {
-                                    return (
-                                        <Group key={shape.id}>
-                                            {shape.points?.map((point, index) => (
-                                                <Circle
-                                                    key={`${shape.id}-point-${index}`}
-                                                    x={point.x}
-                                                    y={point.y}
-                                                    radius={5}
-                                                    fill={shape.stroke}
-                                                    stroke="black"
-                                                    strokeWidth={1}
-                                                />
-                                            ))}
-                                            {shape.points?.map((point, index) => {
-                                                if (index === 0) return null; // Skip the first point
-                                                const prev = shape.points![index - 1];
-                                                const isLastSegment = index === shape.points!.length - 1;
-
-                                                return isLastSegment ? (
-                                                    <Arrow
-                                                        key={`${shape.id}-arrow-${index}`}
-                                                        points={[prev.x, prev.y, point.x, point.y]}
-                                                        stroke={shape.stroke}
-                                                        fill={shape.stroke}
-                                                        strokeWidth={shape.strokeWidth}
-                                                        pointerLength={10}
-                                                        pointerWidth={10}
-                                                    />
-                                                ) : (
-                                                    <Line
-                                                        key={`${shape.id}-line-${index}`}
-                                                        points={[prev.x, prev.y, point.x, point.y]}
-                                                        stroke={shape.stroke}
-                                                        strokeWidth={shape.strokeWidth}
-                                                        lineCap="round"
-                                                        lineJoin="round"
-                                                    />
-                                                );
-                                            })}
-                                        </Group>
-                                    );
-                                }
-                                return null;
-                            })}
-                            {selectedShapeId && (
+                                })
+                            )}
+                            {selectedShapeIds.length > 0 && (
                                 <Transformer
                                     ref={transformerRef}
+                                    onTransform={handleTransform}
+                                    onTransformEnd={handleTransformEnd}
+                                    rotateEnabled={!selectedShapes.some(isFrame)}
+                                    keepRatio
+                                    enabledAnchors={isWrappable ? TEXT_ANCHORS : isAspectLocked ? CORNER_ANCHORS : ALL_ANCHORS}
+                                    shiftBehavior={isAspectLocked ? 'none' : 'default'}
+                                    rotationSnaps={isShiftPressed ? ROTATION_SNAPS : []}
+                                    rotationSnapTolerance={ROTATION_SNAP_STEP / 2}
+                                    anchorDragBoundFunc={handleAnchorDragBound}
+                                    boundBoxFunc={(oldBox, newBox) => {
+                                        if (newBox.width < 5 || newBox.height < 5) {
+                                            return oldBox;
+                                        }
+                                        return newBox;
+                                    }}
+                                />
+                            )}
+                            {croppingImage && (
+                                <Transformer
+                                    ref={cropTransformerRef}
+                                    rotateEnabled={false}
+                                    flipEnabled={false}
+                                    keepRatio={false}
+                                    ignoreStroke
                                     boundBoxFunc={(oldBox, newBox) => {
                                         if (newBox.width < 5 || newBox.height < 5) {
                                             return oldBox;
@@ -911,68 +3655,373 @@ const DrawingApp = () => {
                                     dash={[5, 5]} // Optional: Add a dashed line for the preview
                                 />
                             )}
+                            {polylineDraft && (
+                                <Line
+                                    points={[...polylineDraft.points, polylineDraft.cursor].flatMap((point) => [point.x, point.y])}
+                                    stroke={strokeColor}
+                                    strokeWidth={2}
+                                    lineCap="round"
+                                    lineJoin="round"
+                                    listening={false}
+                                />
+                            )}
+                            {tool === 'eraser' && eraserPosition && (
+                                <Circle
+                                    x={eraserPosition.x}
+                                    y={eraserPosition.y}
+                                    radius={ERASER_RADIUS / zoom}
+                                    stroke="#6b7280"
+                                    strokeWidth={1 / zoom}
+                                    listening={false}
+                                />
+                            )}
+                            {!presentation && comments.map((thread, index) => {
+                                // Resolved threads leave the board, though one opened from the list still shows its pin
+                                if (isResolved(thread) && thread.id !== openThread?.id) return null;
+                                const pin = getThreadPosition(thread, shapes);
+                                return (
+                                    // Drawn at screen size whatever the zoom, its tip on the pinned point
+                                    <Label
+                                        key={thread.id}
+                                        x={pin.x}
+                                        y={pin.y}
+                                        scaleX={1 / zoom}
+                                        scaleY={1 / zoom}
+                                        onPointerDown={(e) => {
+                                            e.cancelBubble = true;
+                                        }}
+                                        onClick={(e) => {
+                                            e.cancelBubble = true;
+                                            if (thread.id === openThread?.id) closeThread();
+                                            else showThread(thread);
+                                        }}
+                                    >
+                                        <Tag
+                                            fill={isResolved(thread) ? '#9ca3af' : isMentioned(thread, presence.user.name) ? '#f59e0b' : '#3b82f6'}
+                                            stroke="white"
+                                            strokeWidth={thread.id === openThread?.id ? 3 : 1.5}
+                                            cornerRadius={12}
+                                            pointerDirection="down"
+                                            pointerWidth={10}
+                                            pointerHeight={8}
+                                        />
+                                        <Text text={String(index + 1)} fontSize={12} fontStyle="bold" padding={6} fill="white" />
+                                    </Label>
+                                );
+                            })}
+                            {draftThread && (
+                                <Label x={draftThread.point.x} y={draftThread.point.y} scaleX={1 / zoom} scaleY={1 / zoom} listening={false}>
+                                    <Tag fill="#3b82f6" stroke="white" strokeWidth={3} cornerRadius={12} pointerDirection="down" pointerWidth={10} pointerHeight={8} />
+                                    <Text text="+" fontSize={12} fontStyle="bold" padding={6} fill="white" />
+                                </Label>
+                            )}
+                            {presence.peers.map((peer) => peer.cursor && (
+                                // Drawn at screen size whatever the zoom
+                                <Group
+                                    key={`peer-cursor-${peer.clientId}`}
+                                    x={peer.cursor.x}
+                                    y={peer.cursor.y}
+                                    scaleX={1 / zoom}
+                                    scaleY={1 / zoom}
+                                    listening={false}
+                                >
+                                    <Line
+                                        points={[0, 0, 0, 17, 4.5, 13, 11.5, 12.5]}
+                                        closed
+                                        fill={peer.user.color}
+                                        stroke="white"
+                                        strokeWidth={1}
+                                    />
+                                    <Label x={10} y={16}>
+                                        <Tag fill={peer.user.color} cornerRadius={3} />
+                                        <Text text={peer.user.name} fontSize={12} padding={3} fill="white" />
+                                    </Label>
+                                </Group>
+                            ))}
+                        </Layer>
+                        <Layer ref={laserLayerRef} listening={false}>
+                            <KonvaShape sceneFunc={(context) => drawLaserTrail(context, laserTrail.current, zoom)} />
                         </Layer>
                     </Stage>
                 </div>
-                {isTextInputVisible && (
-                    <div
-                        style={{
-                            position: 'absolute',
-                            left: textInputPosition.x * zoom + position.x, // Adjust for zoom and pan
-                            top: textInputPosition.y * zoom + position.y, // Adjust for zoom and pan
-                            zIndex: 1000,
-                        }}
-                    >
-                        <input
-                            type="text"
-                            value={textInput}
-                            onChange={(e) => setTextInput(e.target.value)}
-                            onBlur={handleTextInputConfirm}
-                            onKeyPress={(e) => {
-                                if (e.key === 'Enter') {
-                                    handleTextInputConfirm();
-                                }
+                {editingText && textEditorMatrix && (
+                    <>
+                        <div
+                            className="absolute flex gap-1 bg-white p-1 rounded shadow-lg"
+                            style={{ left: textEditorMatrix.e, top: textEditorMatrix.f - 44, zIndex: 1001 }}
+                            // Keeps the focus, and so the selection, in the editor
+                            onMouseDown={(e) => e.preventDefault()}
+                        >
+                            {TEXT_STYLES.map((style) => (
+                                <button
+                                    key={style.command}
+                                    title={style.label}
+                                    onClick={() => document.execCommand(style.command)}
+                                    className="p-1 rounded text-black hover:bg-gray-200"
+                                >
+                                    {style.icon}
+                                </button>
+                            ))}
+                            <button
+                                title="Link (Ctrl+K)"
+                                onClick={linkSelectedText}
+                                className="p-1 rounded text-black hover:bg-gray-200"
+                            >
+                                <MdLink size={20} />
+                            </button>
+                            {TEXT_ALIGNS.map((align) => (
+                                <button
+                                    key={align.value}
+                                    title={align.label}
+                                    onClick={() => setEditingText({ ...editingText, shape: { ...editingText.shape, align: align.value } })}
+                                    className={`p-1 rounded text-black ${(editingText.shape.align || 'left') === align.value ? 'bg-blue-200' : 'hover:bg-gray-200'}`}
+                                >
+                                    {align.icon}
+                                </button>
+                            ))}
+                        </div>
+                        <div
+                            key={editingText.shape.id}
+                            ref={textEditorRef}
+                            contentEditable
+                            // Set once when the editor opens; from then on the browser owns the content
+                            dangerouslySetInnerHTML={{ __html: editingText.html }}
+                            onBlur={() => {
+                                if (!isPromptingLink.current) finishTextEditing();
+                            }}
+                            onKeyDown={handleTextEditorKeyDown}
+                            onPaste={handleTextEditorPaste}
+                            className="absolute left-0 top-0 outline-none [&_a]:text-blue-600 [&_a]:underline"
+                            style={{
+                                transform: textEditorMatrix.toString(),
+                                transformOrigin: '0 0',
+                                width: editingText.shape.wrapWidth ?? 'max-content',
+                                minWidth: '1ch',
+                                whiteSpace: editingText.shape.wrapWidth === undefined ? 'pre' : 'pre-wrap',
+                                overflowWrap: 'anywhere',
+                                fontSize: editingText.shape.fontSize || DEFAULT_FONT_SIZE,
+                                fontFamily: editingText.shape.fontFamily || 'Arial',
+                                lineHeight: editingText.shape.lineHeight ?? DEFAULT_LINE_HEIGHT,
+                                textAlign: editingText.shape.align || 'left',
+                                color: editingText.shape.fill || '#000000',
+                                // A hairline at any zoom, drawn outside the text so it does not shift it
+                                boxShadow: `0 0 0 ${1 / zoom}px #3b82f6`,
+                                zIndex: 1000,
                             }}
-                            autoFocus
-                            className="w-96 h-40 border border-black p-4 text-black bg-white"
                         />
-                    </div>
+                    </>
                 )}
-
-                {isEditingText && (
-                    <div
+                {editingStickyNote && editingStickyBounds && (
+                    <textarea
+                        value={editingSticky?.text ?? ''}
+                        onChange={(e) => setEditingSticky({ id: editingStickyNote.id, text: e.target.value })}
+                        onBlur={finishStickyEditing}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Escape') {
+                                setEditingSticky(null);
+                            } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                                finishStickyEditing();
+                            }
+                        }}
+                        autoFocus
+                        className="absolute resize-none outline-none text-center overflow-hidden"
                         style={{
-                            position: 'absolute',
-                            left: textInputPosition.x * zoom + position.x, // Adjust for zoom and pan
-                            top: textInputPosition.y * zoom + position.y, // Adjust for zoom and pan
+                            left: editingStickyBounds.x * zoom + position.x,
+                            top: editingStickyBounds.y * zoom + position.y,
+                            width: editingStickyBounds.width * zoom,
+                            height: editingStickyBounds.height * zoom,
+                            padding: STICKY_PADDING * zoom,
+                            // Sized like the note would fit the text being typed
+                            fontSize: layoutStickyText({ ...editingStickyNote, text: editingSticky?.text }).fontSize * zoom,
+                            fontFamily: editingStickyNote.fontFamily,
+                            lineHeight: STICKY_LINE_HEIGHT,
+                            backgroundColor: editingStickyNote.fill,
+                            color: STICKY_TEXT_COLOR,
                             zIndex: 1000,
                         }}
-                    >
-                        <input
-                            type="text"
-                            value={currentText}
-                            onChange={(e) => setCurrentText(e.target.value)}
-                            onBlur={handleTextConfirm}
-                            onKeyDown={(e) => {
-                                if (e.key === 'Enter') {
-                                    handleTextConfirm();
-                                }
-                            }}
-                            autoFocus
-                            className="p-2 border-2 border-blue-500 rounded bg-white text-black min-w-[200px]"
-                        />
-                    </div>
+                    />
+                )}
+                {openThread && openThreadPin && !presentation && (
+                    <ThreadPopover
+                        key={openThread.id}
+                        thread={openThread}
+                        number={draftThread ? null : comments.indexOf(openThread) + 1}
+                        shapeName={openThreadShape && getLayerName(openThreadShape)}
+                        position={{ x: openThreadPin.x * zoom + position.x, y: openThreadPin.y * zoom + position.y }}
+                        mentionNames={getMentionNames(comments, presence.peers.map((peer) => peer.user.name), presence.user.name)}
+                        onPost={postComment}
+                        onResolve={(resolved) => resolveThread(openThread.id, resolved)}
+                        onDelete={() => deleteThread(openThread.id)}
+                        onClose={closeThread}
+                    />
                 )}
-                {selectedShape && (
+                {primaryShape && !presentation && (
                     <div className="absolute right-4 top-4 bg-white p-4 rounded shadow-lg">
-                        {selectedShape.type === 'text' ? (
+                        {selectedShapes.length > 1 && (
+                            <>
+                                <p className="mb-2 text-black">{selectedShapes.length} shapes selected</p>
+                                <div className="flex gap-1 mb-2 text-black">
+                                    {ALIGN_COMMANDS.map((command) => (
+                                        <button
+                                            key={command.mode}
+                                            onClick={() => handleAlign(command.mode)}
+                                            title={command.label}
+                                            className="p-1 rounded hover:bg-gray-200"
+                                        >
+                                            {command.icon}
+                                        </button>
+                                    ))}
+                                </div>
+                                {selectedShapes.length > 2 && (
+                                    <div className="flex gap-1 mb-2 text-black">
+                                        {DISTRIBUTE_COMMANDS.map((command) => (
+                                            <button
+                                                key={command.axis}
+                                                onClick={() => handleDistribute(command.axis)}
+                                                title={command.label}
+                                                className="p-1 rounded hover:bg-gray-200"
+                                            >
+                                                {command.icon}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </>
+                        )}
+                        {selectedShape?.type === 'connector' ? (
+                            <>
+                                <input
+                                    type="text"
+                                    value={selectedShape.text || ''}
+                                    placeholder="Label"
+                                    onChange={(e) => handleTextChange(e.target.value)}
+                                    onBlur={history.seal}
+                                    className="w-full mb-2 p-2 border rounded text-black border-black"
+                                />
+                                <select
+                                    value={selectedShape.routing || 'straight'}
+                                    onChange={(e) => updateSelectedShapes({ routing: e.target.value as ConnectorRouting })}
+                                    className="w-full mb-2 p-2 border rounded"
+                                >
+                                    {CONNECTOR_ROUTINGS.map((item) => (
+                                        <option key={item.value} value={item.value}>{item.label}</option>
+                                    ))}
+                                </select>
+                                {(['startArrow', 'endArrow'] as const).map((key) => (
+                                    <label key={key} className="flex justify-between items-center gap-2 mb-2 text-black">
+                                        {key === 'startArrow' ? 'Start' : 'End'}
+                                        <select
+                                            value={selectedShape[key] || 'none'}
+                                            onChange={(e) => updateSelectedShapes({ [key]: e.target.value as ArrowheadType })}
+                                            className="p-2 border rounded"
+                                        >
+                                            {ARROWHEADS.map((item) => (
+                                                <option key={item.value} value={item.value}>{item.label}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                ))}
+                                <input
+                                    type="color"
+                                    value={selectedShape.stroke || '#000000'}
+                                    onChange={(e) => handleStrokeColorChange(e.target.value)}
+                                    onBlur={history.seal}
+                                    onClick={history.seal}
+                                    className="w-full mb-2"
+                                />
+                            </>
+                        ) : selectedShape?.type === 'sticky' ? (
+                            <div className="flex gap-1 mb-2">
+                                {STICKY_COLORS.map((color) => (
+                                    <button
+                                        key={color.value}
+                                        onClick={() => {
+                                            handleFillColorChange(color.value);
+                                            history.seal();
+                                        }}
+                                        title={color.label}
+                                        className={`w-6 h-6 rounded border-2 ${
+                                            selectedShape.fill === color.value ? 'border-blue-500' : 'border-gray-300'
+                                        }`}
+                                        style={{ backgroundColor: color.value }}
+                                    />
+                                ))}
+                            </div>
+                        ) : selectedShape?.type === 'frame' ? (
                             <>
                                 <input
                                     type="text"
                                     value={selectedShape.text || ''}
+                                    placeholder="Frame name"
                                     onChange={(e) => handleTextChange(e.target.value)}
+                                    onBlur={history.seal}
                                     className="w-full mb-2 p-2 border rounded text-black border-black"
                                 />
+                                <input
+                                    type="color"
+                                    value={selectedShape.fill || '#FFFFFF'}
+                                    onChange={(e) => handleFillColorChange(e.target.value)}
+                                    onBlur={history.seal}
+                                    onClick={history.seal}
+                                    className="w-full mb-2"
+                                />
+                                <input
+                                    type="color"
+                                    value={selectedShape.stroke || '#000000'}
+                                    onChange={(e) => handleStrokeColorChange(e.target.value)}
+                                    onBlur={history.seal}
+                                    onClick={history.seal}
+                                    className="w-full mb-2"
+                                />
+                            </>
+                        ) : selectedShape?.type === 'text' ? (
+                            <>
+                                <button
+                                    onClick={() => startTextEditing(selectedShape)}
+                                    className="w-full mb-2 p-2 bg-blue-500 text-white rounded"
+                                >
+                                    Edit text
+                                </button>
+                                <div className="flex gap-1 mb-2">
+                                    {TEXT_ALIGNS.map((align) => (
+                                        <button
+                                            key={align.value}
+                                            title={align.label}
+                                            onClick={() => updateSelectedShapes({ align: align.value })}
+                                            className={`flex-1 p-2 rounded text-black flex justify-center ${(selectedShape.align || 'left') === align.value ? 'bg-blue-200' : 'bg-gray-200'}`}
+                                        >
+                                            {align.icon}
+                                        </button>
+                                    ))}
+                                </div>
+                                <label className="flex justify-between items-center mb-2 text-black">
+                                    Line height
+                                    <input
+                                        type="number"
+                                        min={0.5}
+                                        max={3}
+                                        step={0.1}
+                                        value={selectedShape.lineHeight ?? DEFAULT_LINE_HEIGHT}
+                                        onChange={(e) => updateSelectedShapes(
+                                            { lineHeight: Math.max(0.5, Number(e.target.value)) },
+                                            { mergeKey: `line-height-${selectionKey}` }
+                                        )}
+                                        onBlur={history.seal}
+                                        className="w-20 p-1 border rounded"
+                                    />
+                                </label>
+                                <label className="block mb-2 text-black">
+                                    <input
+                                        type="checkbox"
+                                        className="mr-2"
+                                        checked={selectedShape.wrapWidth !== undefined}
+                                        // Starts wrapping at the current width, so nothing moves until the text is resized
+                                        onChange={(e) => updateSelectedShapes({
+                                            wrapWidth: e.target.checked ? Math.ceil(layoutText(selectedShape).width) : undefined,
+                                        })}
+                                    />
+                                    Wrap at width
+                                </label>
                                 <select
                                     value={selectedShape.fontFamily || 'Arial'}
                                     onChange={(e) => handleFontChange(e.target.value)}
@@ -999,47 +4048,168 @@ const DrawingApp = () => {
                                     type="number"
                                     value={selectedShape.fontSize || 20}
                                     onChange={(e) => handleFontSizeChange(Number(e.target.value))}
+                                    onBlur={history.seal}
                                     className="w-full mb-2 p-2 border rounded"
                                 />
                                 <input
                                     type="color"
                                     value={selectedShape.fill || '#000000'}
                                     onChange={(e) => handleFillColorChange(e.target.value)}
+                                    onBlur={history.seal}
+                                    onClick={history.seal}
                                     className="w-full mb-2"
                                 />
                                 <input
                                     type="color"
                                     value={selectedShape.stroke || '#000000'}
                                     onChange={(e) => handleStrokeColorChange(e.target.value)}
+                                    onBlur={history.seal}
+                                    onClick={history.seal}
                                     className="w-full mb-2"
                                 />
                             </>
-                        ) : (
+                        ) : selectedShape?.type === 'line' ? (
                             <>
-                                <input
-                                    type="color"
-                                    value={selectedShape.fill || '#FFFFFF'}
-                                    onChange={(e) => handleFillColorChange(e.target.value)}
-                                    className="w-full mb-2"
-                                />
                                 <input
                                     type="color"
                                     value={selectedShape.stroke || '#000000'}
                                     onChange={(e) => handleStrokeColorChange(e.target.value)}
+                                    onBlur={history.seal}
+                                    onClick={history.seal}
                                     className="w-full mb-2"
                                 />
+                                <label className="flex justify-between items-center mb-2 text-black">
+                                    Width
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={selectedShape.strokeWidth}
+                                        onChange={(e) => updateSelectedShapes(
+                                            { strokeWidth: Math.max(1, Number(e.target.value)) },
+                                            { mergeKey: `stroke-width-${selectionKey}` }
+                                        )}
+                                        onBlur={history.seal}
+                                        className="w-20 p-1 border rounded"
+                                    />
+                                </label>
+                            </>
+                        ) : (
+                            <>
                                 <input
-                                    type="number"
-                                    value={selectedShape.width || 0}
-                                    onChange={(e) => handleResizeShape(Number(e.target.value), selectedShape.height)}
-                                    className="w-full mb-2 p-2 border rounded"
-                                />
-                                <input
-                                    type="number"
-                                    value={selectedShape.height || 0}
-                                    onChange={(e) => handleResizeShape(selectedShape.width, Number(e.target.value))}
-                                    className="w-full mb-2 p-2 border rounded"
+                                    type="color"
+                                    value={primaryShape.fill || '#FFFFFF'}
+                                    onChange={(e) => handleFillColorChange(e.target.value)}
+                                    onBlur={history.seal}
+                                    onClick={history.seal}
+                                    className="w-full mb-2"
                                 />
+                                {primaryShape.type !== 'icon' && (
+                                    <input
+                                        type="color"
+                                        value={primaryShape.stroke || '#000000'}
+                                        onChange={(e) => handleStrokeColorChange(e.target.value)}
+                                        onBlur={history.seal}
+                                        onClick={history.seal}
+                                        className="w-full mb-2"
+                                    />
+                                )}
+                                {selectedShape?.type === 'rectangle' && (
+                                    <label className="flex justify-between items-center mb-2 text-black">
+                                        Corner radius
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={selectedShape.cornerRadius ?? 0}
+                                            onChange={(e) => updateSelectedShapes(
+                                                { cornerRadius: Math.max(0, Number(e.target.value)) || undefined },
+                                                { mergeKey: `corner-radius-${selectionKey}` }
+                                            )}
+                                            onBlur={history.seal}
+                                            className="w-20 p-1 border rounded"
+                                        />
+                                    </label>
+                                )}
+                                {selectedShape?.type === 'star' && (
+                                    <>
+                                        <label className="flex justify-between items-center mb-2 text-black">
+                                            Points
+                                            <input
+                                                type="number"
+                                                min={3}
+                                                max={24}
+                                                value={selectedShape.sides ?? DEFAULT_STAR_POINTS}
+                                                onChange={(e) => updateSelectedShapes(
+                                                    { sides: Math.min(24, Math.max(3, Math.round(Number(e.target.value)))) },
+                                                    { mergeKey: `star-points-${selectionKey}` }
+                                                )}
+                                                onBlur={history.seal}
+                                                className="w-20 p-1 border rounded"
+                                            />
+                                        </label>
+                                        <label className="flex justify-between items-center mb-2 text-black">
+                                            Inner radius
+                                            <input
+                                                type="range"
+                                                min={0.1}
+                                                max={0.9}
+                                                step={0.05}
+                                                value={selectedShape.innerRadius ?? DEFAULT_STAR_INNER_RADIUS}
+                                                onChange={(e) => updateSelectedShapes(
+                                                    { innerRadius: Number(e.target.value) },
+                                                    { mergeKey: `star-inner-${selectionKey}` }
+                                                )}
+                                                onPointerUp={history.seal}
+                                                className="w-24"
+                                            />
+                                        </label>
+                                    </>
+                                )}
+                                {selectedShape?.type === 'icon' && (
+                                    <div className="mb-2">
+                                        <IconPicker value={selectedShape.icon} onSelect={(icon) => updateSelectedShapes({ icon })} />
+                                    </div>
+                                )}
+                                {selectedShape?.type === 'image' && getLoadedAsset(selectedShape.assetId) && (
+                                    <div className="flex gap-1 mb-2 text-black">
+                                        <button
+                                            onClick={() => startCropping(selectedShape)}
+                                            title="Crop (or double-click the image)"
+                                            className="flex-1 p-1 border rounded hover:bg-gray-100"
+                                        >
+                                            Crop
+                                        </button>
+                                        {selectedShape.crop && (
+                                            <button onClick={handleResetCrop} className="flex-1 p-1 border rounded hover:bg-gray-100">
+                                                Uncrop
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={handleNaturalSize}
+                                            title="One picture pixel per board unit"
+                                            className="flex-1 p-1 border rounded hover:bg-gray-100"
+                                        >
+                                            Natural size
+                                        </button>
+                                    </div>
+                                )}
+                                {selectedShape && (
+                                    <>
+                                        <input
+                                            type="number"
+                                            value={selectedShape.width || 0}
+                                            onChange={(e) => handleResizeShape(Number(e.target.value), selectedShape.height)}
+                                            onBlur={history.seal}
+                                            className="w-full mb-2 p-2 border rounded"
+                                        />
+                                        <input
+                                            type="number"
+                                            value={selectedShape.height || 0}
+                                            onChange={(e) => handleResizeShape(selectedShape.width, Number(e.target.value))}
+                                            onBlur={history.seal}
+                                            className="w-full mb-2 p-2 border rounded"
+                                        />
+                                    </>
+                                )}
                             </>
                         )}
                         <button
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import type { ExportFormat, ExportOptions, ExportScope } from './sceneExport';
+
+interface ExportMenuProps {
+    hasSelection: boolean;
+    frames: Array<{ id: string; name: string }>;
+    isExporting: boolean;
+    onExport: (options: ExportOptions) => void;
+    onClose: () => void;
+}
+
+const FORMATS: Array<{ value: ExportFormat; label: string }> = [
+    { value: 'png', label: 'PNG' },
+    { value: 'svg', label: 'SVG' },
+    { value: 'pdf', label: 'PDF' },
+];
+
+const SCOPES: Array<{ value: ExportScope; label: string }> = [
+    { value: 'scene', label: 'Whole board' },
+    { value: 'selection', label: 'Selection' },
+    { value: 'viewport', label: 'Current view' },
+    { value: 'frame', label: 'Frame' },
+];
+
+const PIXEL_RATIOS = [1, 2, 3, 4];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ hasSelection, frames, isExporting, onExport, onClose }) => {
+    const [format, setFormat] = useState<ExportFormat>('png');
+    const [scope, setScope] = useState<ExportScope>('scene');
+    const [frameId, setFrameId] = useState(frames[0]?.id ?? '');
+    const [pixelRatio, setPixelRatio] = useState(2);
+    const [includeGrid, setIncludeGrid] = useState(false);
+
+    // Falls back to the first frame if the chosen one was deleted while the menu was open
+    const effectiveFrameId = frames.some((frame) => frame.id === frameId) ? frameId : frames[0]?.id;
+    const isScopeAvailable = (value: ExportScope) =>
+        (value !== 'selection' || hasSelection) && (value !== 'frame' || !!effectiveFrameId);
+    const effectiveScope = isScopeAvailable(scope) ? scope : 'scene';
+
+    return (
+        <div className="fixed left-20 top-14 z-50 w-64 bg-white text-black p-4 rounded shadow-lg flex flex-col gap-3">
+            <div className="flex justify-between items-center">
+                <h3 className="font-medium">Export</h3>
+                <button onClick={onClose}>✕</button>
+            </div>
+            <div className="flex gap-2">
+                {FORMATS.map((item) => (
+                    <button
+                        key={item.value}
+                        onClick={() => setFormat(item.value)}
+                        className={`flex-1 p-2 rounded ${format === item.value ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                    >
+                        {item.label}
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-col gap-1">
+                {SCOPES.map((item) => (
+                    <label key={item.value} className={isScopeAvailable(item.value) ? '' : 'text-gray-400'}>
+                        <input
+                            type="radio"
+                            name="export-scope"
+                            className="mr-2"
+                            checked={effectiveScope === item.value}
+                            disabled={!isScopeAvailable(item.value)}
+                            onChange={() => setScope(item.value)}
+                        />
+                        {item.label}
+                    </label>
+                ))}
+                {effectiveScope === 'frame' && (
+                    <select
+                        value={effectiveFrameId}
+                        onChange={(e) => setFrameId(e.target.value)}
+                        className="p-1 border rounded"
+                    >
+                        {frames.map((frame) => (
+                            <option key={frame.id} value={frame.id}>{frame.name}</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+            {format === 'png' && (
+                <label className="flex justify-between items-center">
+                    Pixel ratio
+                    <select
+                        value={pixelRatio}
+                        onChange={(e) => setPixelRatio(Number(e.target.value))}
+                        className="p-1 border rounded"
+                    >
+                        {PIXEL_RATIOS.map((ratio) => (
+                            <option key={ratio} value={ratio}>{ratio}x</option>
+                        ))}
+                    </select>
+                </label>
+            )}
+            <label>
+                <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={includeGrid}
+                    onChange={(e) => setIncludeGrid(e.target.checked)}
+                />
+                Include dot grid
+            </label>
+            <button
+                onClick={() => onExport({
+                    format,
+                    scope: effectiveScope,
+                    frameId: effectiveScope === 'frame' ? effectiveFrameId : undefined,
+                    pixelRatio,
+                    includeGrid,
+                })}
+                disabled={isExporting}
+                className="w-full p-2 bg-blue-500 text-white rounded disabled:bg-blue-300"
+            >
+                {isExporting ? 'Exporting...' : 'Export'}
+            </button>
+        </div>
+    );
+};
+
+export default ExportMenu;
@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Scene, Shape } from './drawingTypes';
+import { getLayerName, getThumbnail } from './layerPreview';
+import { findShapeInTree } from './shapeTree';
+import { isSameShape, renderSnapshotThumbnail, type SceneSnapshot } from './snapshots';
+
+interface HistoryPanelProps {
+    // Newest first; null while they load
+    snapshots: SceneSnapshot[] | null;
+    // The board as it is now, to point out what changed since a version
+    shapes: Shape[];
+    loadSnapshot: (snapshot: SceneSnapshot) => Promise<Scene>;
+    onSave: (name: string) => void;
+    onRename: (snapshot: SceneSnapshot, name: string) => void;
+    onDelete: (id: string) => void;
+    onRestore: (snapshot: SceneSnapshot, scene: Scene) => void;
+    onCopyShapes: (shapes: Shape[]) => void;
+    onClose: () => void;
+}
+
+// A loaded version, or null when it could not be read
+type Preview = { scene: Scene; thumbnail: string | null } | null;
+
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const getChange = (shape: Shape, current: Shape[]) => {
+    const now = findShapeInTree(current, shape.id);
+    if (!now) return 'Deleted since';
+    return isSameShape(shape, now) ? null : 'Changed since';
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+    snapshots: loadedSnapshots,
+    shapes,
+    loadSnapshot,
+    onSave,
+    onRename,
+    onDelete,
+    onRestore,
+    onCopyShapes,
+    onClose,
+}) => {
+    const [previews, setPreviews] = useState<Record<string, Preview>>({});
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [checkedIds, setCheckedIds] = useState<string[]>([]);
+    const [newName, setNewName] = useState('');
+    const thumbnailUrls = useRef<string[]>([]);
+
+    const snapshots = useMemo(() => loadedSnapshots ?? [], [loadedSnapshots]);
+    // The newest version until another one is picked
+    const selected = snapshots.find((snapshot) => snapshot.id === selectedId) ?? (selectedId === null ? snapshots[0] : undefined);
+    const preview = selected ? previews[selected.id] : undefined;
+
+    // Versions load one at a time, newest first, so the list fills in from the top
+    const nextId = snapshots.find((snapshot) => !(snapshot.id in previews))?.id;
+    useEffect(() => {
+        const snapshot = snapshots.find((item) => item.id === nextId);
+        if (!snapshot) return;
+        let cancelled = false;
+        const load = async () => {
+            let loaded: Preview = null;
+            try {
+                const scene = await loadSnapshot(snapshot);
+                const blob = await renderSnapshotThumbnail(scene);
+                loaded = { scene, thumbnail: blob && URL.createObjectURL(blob) };
+                if (loaded.thumbnail) thumbnailUrls.current.push(loaded.thumbnail);
+            } catch {
+                // Shown as a version that could not be read
+            }
+            if (!cancelled) setPreviews((prev) => ({ ...prev, [snapshot.id]: loaded }));
+        };
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [nextId, snapshots, loadSnapshot]);
+
+    useEffect(() => {
+        const urls = thumbnailUrls.current;
+        return () => urls.forEach((url) => URL.revokeObjectURL(url));
+    }, []);
+
+    const select = (id: string) => {
+        setSelectedId(id);
+        setCheckedIds([]);
+    };
+
+    const toggleChecked = (id: string) =>
+        setCheckedIds((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]));
+
+    const oldShapes = preview?.scene.shapes ?? [];
+    const deletedIds = oldShapes.filter((shape) => !findShapeInTree(shapes, shape.id)).map((shape) => shape.id);
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20" onClick={onClose}>
+            <div
+                className="w-[56rem] max-w-[95vw] h-[80vh] flex bg-white text-black rounded shadow-lg text-sm"
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => {
+                    if (e.key === 'Escape') onClose();
+                }}
+            >
+                <div className="w-72 flex flex-col border-r">
+                    <div className="flex justify-between items-center px-3 py-2 border-b">
+                        <h3 className="font-medium">Version history</h3>
+                        <button onClick={onClose}>✕</button>
+                    </div>
+                    <form
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            onSave(newName.trim() || 'Checkpoint');
+                            setNewName('');
+                        }}
+                        className="flex gap-1 px-3 py-2 border-b"
+                    >
+                        <input
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            placeholder="Name this version"
+                            className="flex-1 min-w-0 px-1 border rounded"
+                        />
+                        <button type="submit" className="px-2 py-1 rounded bg-blue-500 text-white hover:bg-blue-600">
+                            Save
+                        </button>
+                    </form>
+                    {!loadedSnapshots && <p className="px-3 py-2 text-gray-500">Loading…</p>}
+                    {loadedSnapshots?.length === 0 && (
+                        <p className="px-3 py-2 text-gray-500">
+                            No versions yet. While the board changes, a version is saved every few minutes.
+                        </p>
+                    )}
+                    <ul className="flex-1 overflow-y-auto py-1">
+                        {snapshots.map((snapshot) => {
+                            const thumbnail = previews[snapshot.id]?.thumbnail;
+                            return (
+                                <li
+                                    key={snapshot.id}
+                                    onClick={() => select(snapshot.id)}
+                                    className={`flex items-center gap-2 px-2 py-1 cursor-pointer ${
+                                        snapshot.id === selected?.id ? 'bg-blue-100' : 'hover:bg-gray-100'
+                                    }`}
+                                >
+                                    <div
+                                        className="w-16 h-12 flex-none rounded border bg-gray-50 bg-center bg-contain bg-no-repeat"
+                                        style={{ backgroundImage: thumbnail ? `url(${thumbnail})` : undefined }}
+                                    />
+                                    <div className="flex-1 min-w-0">
+                                        <div className={`truncate ${snapshot.name ? 'font-medium' : 'text-gray-600'}`}>
+                                            {snapshot.name || 'Saved automatically'}
+                                        </div>
+                                        <div className="truncate text-xs text-gray-500">
+                                            {formatTime(snapshot.createdAt)} · {snapshot.author}
+                                        </div>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+                {selected ? (
+                    <div className="flex-1 min-w-0 flex flex-col">
+                        <div className="flex items-center gap-2 px-3 py-2 border-b">
+                            <input
+                                key={selected.id}
+                                defaultValue={selected.name ?? ''}
+                                placeholder="Name it to keep it"
+                                title="Named versions are kept; unnamed ones make way for newer ones"
+                                onBlur={(e) => {
+                                    const name = e.target.value.trim();
+                                    if (name !== (selected.name ?? '')) onRename(selected, name);
+                                }}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') e.currentTarget.blur();
+                                }}
+                                className="flex-1 min-w-0 px-1 border rounded"
+                            />
+                            <button
+                                onClick={() => preview && onRestore(selected, preview.scene)}
+                                disabled={!preview}
+                                className="px-2 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+                            >
+                                Restore this version
+                            </button>
+                            <button
+                                onClick={() => {
+                                    if (window.confirm('Delete this version for everyone on the board?')) onDelete(selected.id);
+                                }}
+                                className="px-2 py-1 rounded text-red-600 hover:bg-red-50"
+                            >
+                                Delete
+                            </button>
+                        </div>
+                        <div className="flex justify-center items-center h-64 flex-none p-2 border-b bg-gray-50">
+                            {preview === undefined && <span className="text-gray-500">Loading…</span>}
+                            {preview === null && <span className="text-gray-500">This version could not be read.</span>}
+                            {preview && !preview.thumbnail && <span className="text-gray-500">The board was empty.</span>}
+                            {preview?.thumbnail && (
+                                <div
+                                    className="w-full h-full bg-center bg-contain bg-no-repeat"
+                                    style={{ backgroundImage: `url(${preview.thumbnail})` }}
+                                />
+                            )}
+                        </div>
+                        <div className="flex justify-between items-center px-3 py-2">
+                            <span className="font-medium">Shapes in this version</span>
+                            {deletedIds.length > 0 && (
+                                <button onClick={() => setCheckedIds(deletedIds)} className="text-blue-600 hover:underline">
+                                    Select the {deletedIds.length} deleted since
+                                </button>
+                            )}
+                        </div>
+                        <ul className="flex-1 overflow-y-auto">
+                            {oldShapes.map((shape) => {
+                                const change = getChange(shape, shapes);
+                                return (
+                                    <li key={shape.id}>
+                                        <label className="flex items-center gap-2 px-3 py-1 cursor-pointer hover:bg-gray-100">
+                                            <input
+                                                type="checkbox"
+                                                checked={checkedIds.includes(shape.id)}
+                                                onChange={() => toggleChecked(shape.id)}
+                                            />
+                                            <span
+                                                className="w-6 h-6 flex-none bg-center bg-contain bg-no-repeat"
+                                                style={{ backgroundImage: getThumbnail(shape) }}
+                                            />
+                                            <span className="flex-1 truncate">{getLayerName(shape)}</span>
+                                            {change && <span className="text-xs text-amber-600">{change}</span>}
+                                        </label>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                        <div className="flex justify-end px-3 py-2 border-t">
+                            <button
+                                onClick={() => onCopyShapes(oldShapes.filter((shape) => checkedIds.includes(shape.id)))}
+                                disabled={checkedIds.length === 0}
+                                className="px-2 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+                            >
+                                Copy {checkedIds.length || ''} to the board
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <p className="m-auto text-gray-500">Select a version to see it</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { ICON_VIEWBOX, searchIcons } from './shapeIcons';
+
+interface IconPickerProps {
+    value?: string;
+    onSelect: (name: string) => void;
+}
+
+const IconPicker: React.FC<IconPickerProps> = ({ value, onSelect }) => {
+    const [query, setQuery] = useState('');
+    const icons = searchIcons(query);
+
+    return (
+        <div className="flex flex-col gap-2 w-56">
+            <input
+                type="search"
+                value={query}
+                placeholder="Search icons"
+                onChange={(e) => setQuery(e.target.value)}
+                className="p-1 border rounded text-black"
+            />
+            <div className="grid grid-cols-6 gap-1 max-h-40 overflow-y-auto">
+                {icons.map((icon) => (
+                    <button
+                        key={icon.name}
+                        title={icon.label}
+                        onClick={() => onSelect(icon.name)}
+                        className={`p-1 rounded ${value === icon.name ? 'bg-blue-200' : 'hover:bg-gray-200'}`}
+                    >
+                        <svg viewBox={`0 0 ${ICON_VIEWBOX} ${ICON_VIEWBOX}`} className="w-6 h-6 fill-current text-black">
+                            <path d={icon.path} />
+                        </svg>
+                    </button>
+                ))}
+            </div>
+            {icons.length === 0 && <p className="text-sm text-gray-500">No icons match</p>}
+        </div>
+    );
+};
+
+export default IconPicker;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { FaEye, FaEyeSlash, FaLock, FaLockOpen } from 'react-icons/fa';
+import type { Shape } from './drawingTypes';
+import { getLayerName, getThumbnail } from './layerPreview';
+
+interface LayersPanelProps {
+    shapes: Shape[];
+    selectedIds: string[];
+    onSelect: (shape: Shape, additive: boolean) => void;
+    onPatch: (id: string, patch: Partial<Shape>) => void;
+    // Moves a shape to just above or below a sibling in the stacking order
+    onMove: (id: string, targetId: string, above: boolean) => void;
+    onClose: () => void;
+}
+
+const LayersPanel: React.FC<LayersPanelProps> = ({ shapes, selectedIds, onSelect, onPatch, onMove, onClose }) => {
+    const [expandedIds, setExpandedIds] = useState<string[]>([]);
+    const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+    // Rows can only be dropped among their siblings, so the drag remembers which list it came from
+    const [dragged, setDragged] = useState<{ id: string; parentId: string | null } | null>(null);
+
+    const finishRenaming = () => {
+        if (!renaming) return;
+        onPatch(renaming.id, { name: renaming.name.trim() || undefined });
+        setRenaming(null);
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLLIElement>, target: Shape, parentId: string | null) => {
+        if (!dragged || dragged.parentId !== parentId || dragged.id === target.id) return;
+        e.preventDefault();
+        // Rows are listed topmost first, so the upper half of a row is above it in the stacking order
+        const rect = e.currentTarget.getBoundingClientRect();
+        onMove(dragged.id, target.id, e.clientY < rect.top + rect.height / 2);
+        setDragged(null);
+    };
+
+    const renderRows = (items: Shape[], parentId: string | null, depth: number): React.ReactNode =>
+        [...items].reverse().map((shape) => {
+            const isExpanded = expandedIds.includes(shape.id);
+            return (
+                <React.Fragment key={shape.id}>
+                    <li
+                        draggable={!renaming}
+                        onDragStart={() => setDragged({ id: shape.id, parentId })}
+                        onDragEnd={() => setDragged(null)}
+                        onDragOver={(e) => {
+                            if (dragged?.parentId === parentId) e.preventDefault();
+                        }}
+                        onDrop={(e) => handleDrop(e, shape, parentId)}
+                        onClick={(e) => onSelect(shape, e.shiftKey)}
+                        className={`flex items-center gap-2 px-2 py-1 cursor-pointer ${
+                            selectedIds.includes(shape.id) ? 'bg-blue-100' : 'hover:bg-gray-100'
+                        } ${shape.hidden ? 'text-gray-400' : ''}`}
+                        style={{ paddingLeft: 8 + depth * 16 }}
+                    >
+                        {shape.children ? (
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setExpandedIds(isExpanded ? expandedIds.filter((id) => id !== shape.id) : [...expandedIds, shape.id]);
+                                }}
+                                className="w-3 text-xs"
+                            >
+                                {isExpanded ? '▾' : '▸'}
+                            </button>
+                        ) : (
+                            <span className="w-3" />
+                        )}
+                        <span
+                            className="w-6 h-6 shrink-0 border rounded bg-white bg-center bg-contain bg-no-repeat"
+                            style={{ backgroundImage: getThumbnail(shape) }}
+                        />
+                        {renaming?.id === shape.id ? (
+                            <input
+                                value={renaming.name}
+                                onChange={(e) => setRenaming({ id: shape.id, name: e.target.value })}
+                                onBlur={finishRenaming}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') finishRenaming();
+                                    if (e.key === 'Escape') setRenaming(null);
+                                }}
+                                onClick={(e) => e.stopPropagation()}
+                                autoFocus
+                                className="flex-1 min-w-0 px-1 border rounded"
+                            />
+                        ) : (
+                            <span
+                                onDoubleClick={() => setRenaming({ id: shape.id, name: getLayerName(shape) })}
+                                title="Double-click to rename"
+                                className="flex-1 truncate"
+                            >
+                                {getLayerName(shape)}
+                            </span>
+                        )}
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onPatch(shape.id, { hidden: shape.hidden ? undefined : true });
+                            }}
+                            title={shape.hidden ? 'Show' : 'Hide'}
+                        >
+                            {shape.hidden ? <FaEyeSlash /> : <FaEye />}
+                        </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onPatch(shape.id, { locked: shape.locked ? undefined : true });
+                            }}
+                            title={shape.locked ? 'Unlock' : 'Lock'}
+                            className={shape.locked ? '' : 'text-gray-300'}
+                        >
+                            {shape.locked ? <FaLock /> : <FaLockOpen />}
+                        </button>
+                    </li>
+                    {shape.children && isExpanded && renderRows(shape.children, shape.id, depth + 1)}
+                </React.Fragment>
+            );
+        });
+
+    return (
+        <div className="fixed left-20 bottom-4 z-50 w-72 max-h-[50vh] flex flex-col bg-white text-black rounded shadow-lg text-sm">
+            <div className="flex justify-between items-center px-3 py-2 border-b">
+                <h3 className="font-medium">Layers</h3>
+                <button onClick={onClose}>✕</button>
+            </div>
+            {shapes.length === 0 ? (
+                <p className="px-3 py-2 text-gray-500">Nothing on the board yet</p>
+            ) : (
+                <ul className="overflow-y-auto py-1">{renderRows(shapes, null, 0)}</ul>
+            )}
+        </div>
+    );
+};
+
+export default LayersPanel;
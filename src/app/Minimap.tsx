@@ -0,0 +1,104 @@
+import React, { useMemo, useRef } from 'react';
+import type { DrawLine, Point, Shape } from './drawingTypes';
+import { expandBounds, getLineBounds, getLinePoints, getShapeBounds, unionBounds, type Bounds } from './geometry';
+import { memoizeBounds } from './spatialIndex';
+
+interface MinimapProps {
+    shapes: Shape[];
+    lines: DrawLine[];
+    // The world area the canvas shows
+    viewport: Bounds;
+    // Called with the world point to center the view on
+    onNavigate: (point: Point) => void;
+}
+
+const MAX_WIDTH = 200;
+const MAX_HEIGHT = 150;
+// Fraction of the drawn area left around the content and viewport
+const MARGIN = 0.1;
+const SHAPE_COLOR = '#9ca3af';
+
+const getCachedShapeBounds = memoizeBounds(getShapeBounds);
+const getCachedLineBounds = memoizeBounds(getLineBounds);
+
+const Minimap: React.FC<MinimapProps> = ({ shapes, lines, viewport, onNavigate }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    // The area drawn is kept while dragging, so the map does not shift under the pointer as the view moves
+    const dragExtent = useRef<Bounds | null>(null);
+
+    const shapeBounds = useMemo(
+        () => shapes.filter((shape) => !shape.hidden).map((shape) => ({ shape, bounds: getCachedShapeBounds(shape) })),
+        [shapes]
+    );
+    const contentBounds = useMemo(
+        () => unionBounds([...shapeBounds.map((item) => item.bounds), ...lines.map(getCachedLineBounds)]),
+        [shapeBounds, lines]
+    );
+
+    const area = unionBounds(contentBounds ? [contentBounds, viewport] : [viewport]) || viewport;
+    const extent = dragExtent.current || expandBounds(area, Math.max(area.width, area.height) * MARGIN);
+    const scale = Math.min(MAX_WIDTH / extent.width, MAX_HEIGHT / extent.height);
+
+    const navigate = (e: React.PointerEvent<SVGSVGElement>) => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        onNavigate({
+            x: extent.x + (e.clientX - rect.left) / scale,
+            y: extent.y + (e.clientY - rect.top) / scale,
+        });
+    };
+
+    return (
+        <div className="fixed right-4 bottom-4 z-50 bg-white rounded shadow-lg p-1">
+            <svg
+                ref={svgRef}
+                width={extent.width * scale}
+                height={extent.height * scale}
+                viewBox={`${extent.x} ${extent.y} ${extent.width} ${extent.height}`}
+                className="block cursor-pointer touch-none"
+                onPointerDown={(e) => {
+                    e.stopPropagation();
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    dragExtent.current = extent;
+                    navigate(e);
+                }}
+                onPointerMove={(e) => {
+                    if (dragExtent.current) navigate(e);
+                }}
+                onPointerUp={(e) => {
+                    e.currentTarget.releasePointerCapture(e.pointerId);
+                    dragExtent.current = null;
+                }}
+            >
+                {shapeBounds.map(({ shape, bounds }) => (
+                    <rect
+                        key={shape.id}
+                        {...bounds}
+                        fill={shape.type === 'sticky' || shape.type === 'frame' ? shape.fill || SHAPE_COLOR : SHAPE_COLOR}
+                        fillOpacity={0.6}
+                    />
+                ))}
+                {lines.map((line) => (
+                    <polyline
+                        key={line.id}
+                        points={getLinePoints(line).map((point) => `${point.x},${point.y}`).join(' ')}
+                        fill="none"
+                        stroke={line.color}
+                        strokeWidth={1}
+                        vectorEffect="non-scaling-stroke"
+                    />
+                ))}
+                <rect
+                    {...viewport}
+                    fill="#3b82f6"
+                    fillOpacity={0.1}
+                    stroke="#3b82f6"
+                    strokeWidth={1.5}
+                    vectorEffect="non-scaling-stroke"
+                />
+            </svg>
+        </div>
+    );
+};
+
+export default Minimap;
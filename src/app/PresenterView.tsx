@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { Shape, Slide } from './drawingTypes';
+import { getSlideName } from './slides';
+
+interface PresenterViewProps {
+    slides: Slide[];
+    shapes: Shape[];
+    index: number;
+    startedAt: number;
+    onStep: (step: number) => void;
+    // Called when the window is closed, or could not be opened because the browser blocked it
+    onClose: (blocked: boolean) => void;
+}
+
+const formatElapsed = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Speaker notes, the next slide and a clock, in a window of its own so it can sit on the presenter's screen
+ * while the board is projected. It is rendered through a portal, so it shares the app's state directly.
+ */
+const PresenterView: React.FC<PresenterViewProps> = ({ slides, shapes, index, startedAt, onStep, onClose }) => {
+    const [container, setContainer] = useState<HTMLElement | null>(null);
+    const [now, setNow] = useState(Date.now());
+    // The window outlives renders, so its listeners reach the latest callbacks through refs
+    const onStepRef = useRef(onStep);
+    const onCloseRef = useRef(onClose);
+    onStepRef.current = onStep;
+    onCloseRef.current = onClose;
+
+    useEffect(() => {
+        const popup = window.open('', 'presenter-view', 'width=720,height=480');
+        if (!popup) {
+            onCloseRef.current(true);
+            return;
+        }
+        popup.document.title = 'Presenter view';
+        // The app's styles live in this document, so the window gets copies
+        popup.document.head.querySelectorAll('link[rel="stylesheet"], style').forEach((node) => node.remove());
+        document.querySelectorAll('link[rel="stylesheet"], style').forEach((node) => {
+            popup.document.head.appendChild(node.cloneNode(true));
+        });
+        popup.document.body.replaceChildren();
+        const root = popup.document.createElement('div');
+        popup.document.body.appendChild(root);
+        setContainer(root);
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (['ArrowRight', 'ArrowDown', 'PageDown', ' '].includes(e.key)) onStepRef.current(1);
+            if (['ArrowLeft', 'ArrowUp', 'PageUp'].includes(e.key)) onStepRef.current(-1);
+        };
+        const handleClose = () => onCloseRef.current(false);
+        popup.addEventListener('keydown', handleKeyDown);
+        popup.addEventListener('pagehide', handleClose);
+        return () => {
+            popup.removeEventListener('keydown', handleKeyDown);
+            popup.removeEventListener('pagehide', handleClose);
+            popup.close();
+        };
+    }, []);
+
+    useEffect(() => {
+        const interval = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(interval);
+    }, []);
+
+    if (!container) return null;
+
+    const slide = slides[index];
+    const next = slides[index + 1];
+
+    return createPortal(
+        <div className="h-screen flex flex-col gap-4 p-6 bg-gray-900 text-white">
+            <div className="flex justify-between text-gray-400">
+                <span>
+                    Slide {index + 1} of {slides.length}
+                </span>
+                <span className="font-mono">{formatElapsed(now - startedAt)}</span>
+            </div>
+            <h1 className="text-2xl font-semibold">{slide ? getSlideName(slide, shapes, index) : ''}</h1>
+            <p className="flex-1 overflow-y-auto text-lg whitespace-pre-wrap">
+                {slide?.notes || <span className="text-gray-500">No notes for this slide</span>}
+            </p>
+            <div className="flex justify-between items-center border-t border-gray-700 pt-4">
+                <span className="text-gray-400">
+                    Next: {next ? getSlideName(next, shapes, index + 1) : 'End of presentation'}
+                </span>
+                <div className="flex gap-2">
+                    <button onClick={() => onStep(-1)} disabled={index === 0} className="px-3 py-1 rounded bg-gray-700 disabled:opacity-50">
+                        ◀ Previous
+                    </button>
+                    <button
+                        onClick={() => onStep(1)}
+                        disabled={index >= slides.length - 1}
+                        className="px-3 py-1 rounded bg-gray-700 disabled:opacity-50"
+                    >
+                        Next ▶
+                    </button>
+                </div>
+            </div>
+        </div>,
+        container
+    );
+};
+
+export default PresenterView;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { FaArrowDown, FaArrowUp, FaPlay, FaTrash } from 'react-icons/fa';
+import type { Shape, Slide } from './drawingTypes';
+import { isFrame } from './frames';
+import { createFrameSlide, getSlideName } from './slides';
+
+interface SlidesPanelProps {
+    slides: Slide[];
+    shapes: Shape[];
+    // Typing notes passes a merge key, so a burst of typing is one undo step
+    onChange: (slides: Slide[], mergeKey?: string) => void;
+    onSeal: () => void;
+    onShow: (slide: Slide) => void;
+    onAddView: () => void;
+    onPresent: (slideId?: string) => void;
+    onClose: () => void;
+}
+
+const SlidesPanel: React.FC<SlidesPanelProps> = ({ slides, shapes, onChange, onSeal, onShow, onAddView, onPresent, onClose }) => {
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+    const active = slides.find((slide) => slide.id === activeId);
+    const unusedFrames = shapes.filter(isFrame).filter((frame) => !slides.some((slide) => slide.frameId === frame.id));
+
+    const patchSlide = (id: string, patch: Partial<Slide>, mergeKey?: string) =>
+        onChange(slides.map((slide) => (slide.id === id ? { ...slide, ...patch } : slide)), mergeKey);
+
+    const moveSlide = (index: number, step: number) => {
+        const target = index + step;
+        if (target < 0 || target >= slides.length) return;
+        const next = [...slides];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    const finishRenaming = () => {
+        if (!renaming) return;
+        patchSlide(renaming.id, { name: renaming.name.trim() || undefined });
+        setRenaming(null);
+    };
+
+    return (
+        <div className="fixed right-4 bottom-48 z-50 w-72 max-h-[50vh] flex flex-col bg-white text-black rounded shadow-lg text-sm">
+            <div className="flex justify-between items-center px-3 py-2 border-b">
+                <h3 className="font-medium">Slides</h3>
+                <button onClick={onClose}>✕</button>
+            </div>
+            {slides.length === 0 && (
+                <p className="px-3 py-2 text-gray-500">
+                    Add frames or views to present. Without slides, the board&apos;s frames are presented in order.
+                </p>
+            )}
+            <ol className="overflow-y-auto py-1">
+                {slides.map((slide, index) => (
+                    <li
+                        key={slide.id}
+                        onClick={() => {
+                            setActiveId(slide.id);
+                            onShow(slide);
+                        }}
+                        className={`flex items-center gap-2 px-2 py-1 cursor-pointer ${
+                            slide.id === activeId ? 'bg-blue-100' : 'hover:bg-gray-100'
+                        }`}
+                    >
+                        <span className="w-5 text-right text-gray-400">{index + 1}</span>
+                        <span title={slide.frameId ? 'Frame' : 'Saved view'}>{slide.frameId ? '▭' : '👁'}</span>
+                        {renaming?.id === slide.id ? (
+                            <input
+                                value={renaming.name}
+                                onChange={(e) => setRenaming({ id: slide.id, name: e.target.value })}
+                                onBlur={finishRenaming}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') finishRenaming();
+                                    if (e.key === 'Escape') setRenaming(null);
+                                }}
+                                onClick={(e) => e.stopPropagation()}
+                                autoFocus
+                                className="flex-1 min-w-0 px-1 border rounded"
+                            />
+                        ) : (
+                            <span
+                                onDoubleClick={() => setRenaming({ id: slide.id, name: getSlideName(slide, shapes, index) })}
+                                title="Double-click to rename"
+                                className="flex-1 truncate"
+                            >
+                                {getSlideName(slide, shapes, index)}
+                            </span>
+                        )}
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                moveSlide(index, -1);
+                            }}
+                            disabled={index === 0}
+                            title="Move up"
+                            className="disabled:text-gray-300"
+                        >
+                            <FaArrowUp />
+                        </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                moveSlide(index, 1);
+                            }}
+                            disabled={index === slides.length - 1}
+                            title="Move down"
+                            className="disabled:text-gray-300"
+                        >
+                            <FaArrowDown />
+                        </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onChange(slides.filter((item) => item.id !== slide.id));
+                            }}
+                            title="Remove slide"
+                        >
+                            <FaTrash />
+                        </button>
+                    </li>
+                ))}
+            </ol>
+            {active && (
+                <label className="flex flex-col gap-1 px-3 py-2 border-t">
+                    Speaker notes
+                    <textarea
+                        value={active.notes || ''}
+                        onChange={(e) => patchSlide(active.id, { notes: e.target.value || undefined }, `slide-notes-${active.id}`)}
+                        onBlur={onSeal}
+                        rows={4}
+                        className="p-1 border rounded resize-y"
+                    />
+                </label>
+            )}
+            <div className="flex flex-wrap gap-2 px-3 py-2 border-t">
+                <button onClick={onAddView} className="px-2 py-1 border rounded hover:bg-gray-100">
+                    Add current view
+                </button>
+                {unusedFrames.length > 0 && (
+                    <select
+                        value=""
+                        onChange={(e) => {
+                            const frame = unusedFrames.find((item) => item.id === e.target.value);
+                            if (frame) onChange([...slides, createFrameSlide(frame)]);
+                        }}
+                        className="px-1 border rounded"
+                    >
+                        <option value="" disabled>
+                            Add frame…
+                        </option>
+                        {unusedFrames.map((frame) => (
+                            <option key={frame.id} value={frame.id}>
+                                {frame.text || 'Frame'}
+                            </option>
+                        ))}
+                    </select>
+                )}
+                <button
+                    onClick={() => onPresent(activeId ?? undefined)}
+                    className="flex items-center gap-1 px-2 py-1 rounded bg-blue-500 text-white hover:bg-blue-600"
+                >
+                    <FaPlay size={10} /> Present
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SlidesPanel;
@@ -0,0 +1,213 @@
+import React, { useRef, useState } from 'react';
+import { FaCheck, FaTrash, FaUndo } from 'react-icons/fa';
+import type { CommentThread, Point } from './drawingTypes';
+import { findMentions, getMentionQuery, isResolved, splitMentions } from './comments';
+
+interface ThreadPopoverProps {
+    thread: CommentThread;
+    // The pin's number, or null for a pin whose first comment is still being written
+    number: number | null;
+    // What the pin is on, if it is on a shape
+    shapeName?: string;
+    // The pin on screen; the popover opens beside it
+    position: Point;
+    mentionNames: string[];
+    onPost: (text: string, mentions: string[]) => void;
+    onResolve: (resolved: boolean) => void;
+    onDelete: () => void;
+    onClose: () => void;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const ThreadPopover: React.FC<ThreadPopoverProps> = ({
+    thread,
+    number,
+    shapeName,
+    position,
+    mentionNames,
+    onPost,
+    onResolve,
+    onDelete,
+    onClose,
+}) => {
+    const [text, setText] = useState('');
+    // Names picked from the suggestions; only those still written out count as mentions
+    const [picked, setPicked] = useState<string[]>([]);
+    const [query, setQuery] = useState<{ start: number; query: string } | null>(null);
+    const [highlighted, setHighlighted] = useState(0);
+    const inputRef = useRef<HTMLTextAreaElement>(null);
+
+    const suggestions = query
+        ? mentionNames.filter((name) => name.toLowerCase().includes(query.query.toLowerCase())).slice(0, MAX_SUGGESTIONS)
+        : [];
+
+    const updateText = (value: string, caret: number) => {
+        setText(value);
+        setQuery(getMentionQuery(value, caret));
+        setHighlighted(0);
+    };
+
+    const pickName = (name: string) => {
+        const input = inputRef.current;
+        if (!query || !input) return;
+        const caret = input.selectionStart;
+        const inserted = `@${name} `;
+        const value = text.slice(0, query.start) + inserted + text.slice(caret);
+        setText(value);
+        setPicked((prev) => (prev.includes(name) ? prev : [...prev, name]));
+        setQuery(null);
+        const nextCaret = query.start + inserted.length;
+        requestAnimationFrame(() => {
+            input.focus();
+            input.setSelectionRange(nextCaret, nextCaret);
+        });
+    };
+
+    const post = () => {
+        const trimmed = text.trim();
+        if (!trimmed) return;
+        onPost(trimmed, findMentions(trimmed, picked));
+        setText('');
+        setPicked([]);
+        setQuery(null);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (suggestions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                pickName(suggestions[highlighted]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                // Closes only the suggestions, not the thread
+                e.stopPropagation();
+                setQuery(null);
+                return;
+            }
+        }
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            post();
+        }
+    };
+
+    const resolved = isResolved(thread);
+
+    return (
+        <div
+            className="absolute z-50 w-72 flex flex-col bg-white text-black rounded shadow-lg text-sm"
+            style={{ left: position.x + 16, top: position.y - 16 }}
+            onKeyDown={(e) => {
+                if (e.key === 'Escape') onClose();
+            }}
+        >
+            <div className="flex items-center gap-2 px-3 py-2 border-b">
+                <span className="flex-1 truncate font-medium">
+                    {number === null ? 'New comment' : `#${number}`}
+                    {shapeName && <span className="font-normal text-gray-500"> on {shapeName}</span>}
+                </span>
+                {number !== null && (
+                    <>
+                        <button
+                            onClick={() => onResolve(!resolved)}
+                            title={resolved ? 'Reopen' : 'Resolve'}
+                            className={resolved ? 'text-green-600' : 'text-gray-500 hover:text-green-600'}
+                        >
+                            {resolved ? <FaUndo /> : <FaCheck />}
+                        </button>
+                        <button
+                            onClick={() => {
+                                if (window.confirm('Delete this thread for everyone on the board?')) onDelete();
+                            }}
+                            title="Delete thread"
+                            className="text-gray-500 hover:text-red-600"
+                        >
+                            <FaTrash />
+                        </button>
+                    </>
+                )}
+                <button onClick={onClose}>✕</button>
+            </div>
+            {resolved && (
+                <p className="px-3 py-1 bg-green-50 text-green-700 text-xs">
+                    Resolved by {thread.resolvedBy}
+                    {thread.resolvedAt && ` · ${formatTime(thread.resolvedAt)}`}
+                </p>
+            )}
+            {thread.comments.length > 0 && (
+                <ul className="max-h-64 overflow-y-auto py-1">
+                    {thread.comments.map((comment) => (
+                        <li key={comment.id} className="px-3 py-1">
+                            <div className="flex justify-between gap-2 text-xs text-gray-500">
+                                <span className="font-medium text-black truncate">{comment.author}</span>
+                                <span className="flex-none">{formatTime(comment.createdAt)}</span>
+                            </div>
+                            <p className="whitespace-pre-wrap break-words">
+                                {splitMentions(comment.text, comment.mentions).map((part, index) =>
+                                    part.isMention ? (
+                                        <span key={index} className="text-blue-600 font-medium">
+                                            {part.text}
+                                        </span>
+                                    ) : (
+                                        part.text
+                                    )
+                                )}
+                            </p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="relative px-3 py-2 border-t">
+                <textarea
+                    ref={inputRef}
+                    value={text}
+                    onChange={(e) => updateText(e.target.value, e.target.selectionStart)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={() => setQuery(null)}
+                    placeholder={thread.comments.length === 0 ? 'Add a comment; @ to mention' : 'Reply; @ to mention'}
+                    rows={2}
+                    autoFocus
+                    className="w-full p-1 border rounded resize-none"
+                />
+                {suggestions.length > 0 && (
+                    <ul className="absolute left-3 right-3 top-full -mt-2 py-1 bg-white rounded shadow-lg border">
+                        {suggestions.map((name, index) => (
+                            <li
+                                key={name}
+                                // Picking must not blur the input, which would close the list first
+                                onMouseDown={(e) => {
+                                    e.preventDefault();
+                                    pickName(name);
+                                }}
+                                className={`px-2 py-1 cursor-pointer truncate ${index === highlighted ? 'bg-blue-100' : 'hover:bg-gray-100'}`}
+                            >
+                                @{name}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div className="flex justify-end mt-1">
+                    <button
+                        onClick={post}
+                        disabled={!text.trim()}
+                        className="px-2 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+                    >
+                        {thread.comments.length === 0 ? 'Comment' : 'Reply'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ThreadPopover;
@@ -0,0 +1,69 @@
+import type { Shape } from './drawingTypes';
+import { getShapeBounds, unionBounds } from './geometry';
+import { translateShape } from './shapeTree';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// Align and distribute commands. Connectors are skipped: they follow the shapes they are bound to.
+
+const getMovableShapes = (shapes: Shape[], ids: string[]) =>
+    shapes.filter((shape) => ids.includes(shape.id) && shape.type !== 'connector');
+
+const applyOffsets = (shapes: Shape[], offsets: Record<string, { dx: number; dy: number }>) => {
+    let changed = false;
+    const result = shapes.map((shape) => {
+        const offset = offsets[shape.id];
+        if (!offset || (offset.dx === 0 && offset.dy === 0)) return shape;
+        changed = true;
+        return translateShape(shape, offset.dx, offset.dy);
+    });
+    return changed ? result : shapes;
+};
+
+// Lines the selected shapes up against the matching edge or center of their combined bounds
+export const alignShapes = (shapes: Shape[], ids: string[], mode: AlignMode): Shape[] => {
+    const selected = getMovableShapes(shapes, ids);
+    const target = unionBounds(selected.map(getShapeBounds));
+    if (!target || selected.length < 2) return shapes;
+
+    const offsets: Record<string, { dx: number; dy: number }> = {};
+    selected.forEach((shape) => {
+        const bounds = getShapeBounds(shape);
+        let dx = 0;
+        let dy = 0;
+        if (mode === 'left') dx = target.x - bounds.x;
+        if (mode === 'center') dx = target.x + target.width / 2 - (bounds.x + bounds.width / 2);
+        if (mode === 'right') dx = target.x + target.width - (bounds.x + bounds.width);
+        if (mode === 'top') dy = target.y - bounds.y;
+        if (mode === 'middle') dy = target.y + target.height / 2 - (bounds.y + bounds.height / 2);
+        if (mode === 'bottom') dy = target.y + target.height - (bounds.y + bounds.height);
+        offsets[shape.id] = { dx, dy };
+    });
+    return applyOffsets(shapes, offsets);
+};
+
+// Keeps the outermost shapes in place and spreads the rest so the gaps between them are equal
+export const distributeShapes = (shapes: Shape[], ids: string[], axis: DistributeAxis): Shape[] => {
+    const position = axis === 'horizontal' ? 'x' : 'y';
+    const size = axis === 'horizontal' ? 'width' : 'height';
+    const items = getMovableShapes(shapes, ids)
+        .map((shape) => ({ shape, bounds: getShapeBounds(shape) }))
+        .sort((a, b) => a.bounds[position] - b.bounds[position]);
+    if (items.length < 3) return shapes;
+
+    const first = items[0].bounds;
+    const last = items[items.length - 1].bounds;
+    const span = last[position] + last[size] - first[position];
+    const occupied = items.reduce((sum, item) => sum + item.bounds[size], 0);
+    const gap = (span - occupied) / (items.length - 1);
+
+    const offsets: Record<string, { dx: number; dy: number }> = {};
+    let cursor = first[position];
+    items.forEach(({ shape, bounds }) => {
+        const delta = cursor - bounds[position];
+        offsets[shape.id] = axis === 'horizontal' ? { dx: delta, dy: 0 } : { dx: 0, dy: delta };
+        cursor += bounds[size] + gap;
+    });
+    return applyOffsets(shapes, offsets);
+};
@@ -0,0 +1,131 @@
+import { ASSET_STORE, idbGet, idbPut } from './database';
+import { sha256 } from './sha256';
+
+/*
+ * The pictures behind image shapes, which keep only the id of their asset. Ids are hashes of the content,
+ * so a picture added twice is stored once. Assets are kept in IndexedDB and decoded once per page.
+ */
+
+// Imported pictures are scaled down to fit this many pixels on their longer side
+const MAX_IMAGE_SIZE = 2048;
+// Files larger than this are re-encoded even when their size in pixels is fine
+const MAX_IMAGE_BYTES = 1024 * 1024;
+const IMAGE_QUALITY = 0.85;
+// Drawing these to a canvas would lose their animation or their vector paths
+const KEPT_FORMATS = ['image/gif', 'image/svg+xml'];
+
+export interface SceneAsset {
+    id: string;
+    mimeType: string;
+    dataUrl: string;
+}
+
+export interface LoadedAsset {
+    asset: SceneAsset;
+    image: HTMLImageElement;
+}
+
+export const getMimeType = (dataUrl: string) => {
+    const match = /^data:([^;,]+)/.exec(dataUrl);
+    return match ? match[1] : 'application/octet-stream';
+};
+
+// SHA-256 of the data URL, so identical pictures share one asset and different ones never do.
+// Pages on plain http have no crypto.subtle and hash in JavaScript, to the same ids.
+const getAssetId = async (dataUrl: string) => {
+    const data = new TextEncoder().encode(dataUrl);
+    const digest = crypto.subtle ? new Uint8Array(await crypto.subtle.digest('SHA-256', data)) : sha256(data);
+    return `asset-${Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+export const createAsset = async (dataUrl: string): Promise<SceneAsset> => ({
+    id: await getAssetId(dataUrl),
+    mimeType: getMimeType(dataUrl),
+    dataUrl,
+});
+
+export const loadImage = (src: string) =>
+    new Promise<HTMLImageElement>((resolve, reject) => {
+        const img = new window.Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image.'));
+        img.src = src;
+    });
+
+// Image data, keyed by asset id and shared by every board in this browser
+const saveAssetToStorage = (asset: SceneAsset) => idbPut(ASSET_STORE, asset.id, asset);
+
+const loadAssetFromStorage = (id: string) => idbGet<SceneAsset>(ASSET_STORE, id);
+
+const loaded = new Map<string, LoadedAsset>();
+const pending = new Map<string, Promise<LoadedAsset | null>>();
+
+// The asset, once it has been decoded on this page
+export const getLoadedAsset = (id: string | undefined) => (id ? loaded.get(id) : undefined);
+
+const keepAsset = (asset: SceneAsset, image: HTMLImageElement, isStored: boolean) => {
+    const entry = { asset, image };
+    loaded.set(asset.id, entry);
+    if (!isStored) {
+        saveAssetToStorage(asset).catch(() => {
+            // Storage may be blocked or full; boards still carry a copy of every picture they show
+        });
+    }
+    return entry;
+};
+
+/**
+ * Decodes an asset from this browser's store, or else from `dataUrl`, e.g. the copy in a shared board,
+ * which is then stored. Resolves null when neither has it.
+ */
+export const loadAsset = (id: string, dataUrl?: string): Promise<LoadedAsset | null> => {
+    const existing = loaded.get(id);
+    if (existing) return Promise.resolve(existing);
+
+    let request = pending.get(id);
+    if (!request) {
+        request = (async () => {
+            const stored = await loadAssetFromStorage(id).catch(() => undefined);
+            const asset = stored ?? (dataUrl ? { id, mimeType: getMimeType(dataUrl), dataUrl } : undefined);
+            if (!asset) return null;
+            return keepAsset(asset, await loadImage(asset.dataUrl), !!stored);
+        })().finally(() => pending.delete(id));
+        pending.set(id, request);
+    }
+    return request;
+};
+
+const readFileAsDataUrl = (file: Blob) =>
+    new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error('Failed to read the image file.'));
+        reader.readAsDataURL(file);
+    });
+
+// Oversized pictures come back smaller, as WebP, which keeps transparency; other pictures come back as they were
+const compressImage = (image: HTMLImageElement, file: Blob, dataUrl: string) => {
+    if (KEPT_FORMATS.includes(file.type)) return dataUrl;
+    const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    if (scale === 1 && file.size <= MAX_IMAGE_BYTES) return dataUrl;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return dataUrl;
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    // Browsers that cannot write WebP hand back a PNG, which may be no smaller than the original
+    const compressed = canvas.toDataURL('image/webp', IMAGE_QUALITY);
+    return scale === 1 && compressed.length >= dataUrl.length ? dataUrl : compressed;
+};
+
+// A picture the user added, as a stored asset
+export const importImageFile = async (file: Blob): Promise<LoadedAsset> => {
+    const original = await readFileAsDataUrl(file);
+    const image = await loadImage(original);
+    const asset = await createAsset(compressImage(image, file, original));
+    const existing = loaded.get(asset.id);
+    if (existing) return existing;
+    return keepAsset(asset, asset.dataUrl === original ? image : await loadImage(asset.dataUrl), false);
+};
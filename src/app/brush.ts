@@ -0,0 +1,159 @@
+import type { BrushDash, BrushSettings, DrawLine, Point } from './drawingTypes';
+import {
+    FREEHAND_STROKE_WIDTH,
+    MAX_PRESSURE_SCALE,
+    MIN_PRESSURE_SCALE,
+    distanceToSegment,
+    getLinePoints,
+} from './geometry';
+
+// Brush styles for freehand strokes, and the input clean-up applied while they are drawn
+
+export const DEFAULT_BRUSH: BrushSettings = {
+    width: FREEHAND_STROKE_WIDTH,
+    opacity: 1,
+    dash: 'solid',
+    highlighter: false,
+};
+
+export const FREEHAND_TENSION = 0.5;
+
+const HIGHLIGHTER_OPACITY = 0.35;
+// Share of the way each new pointer sample moves from the previous point; lower is smoother but lags more
+const STREAMLINE = 0.5;
+// Pressure a point may lose to simplification, on the 0 to 1 scale
+const PRESSURE_TOLERANCE = 0.1;
+// Mice report this while a button is held; it maps to the plain brush width
+const DEFAULT_PRESSURE = 0.5;
+const CAP_SEGMENTS = 8;
+
+export interface LineStyle {
+    width: number;
+    opacity: number;
+    dash?: number[];
+    composite?: GlobalCompositeOperation;
+}
+
+// Dash lengths grow with the brush so thick strokes keep the same rhythm
+const getDashArray = (dash: BrushDash | undefined, width: number) => {
+    if (dash === 'dashed') return [width * 3, width * 2];
+    // Zero-length dashes drawn with round caps come out as dots
+    if (dash === 'dotted') return [0, width * 2];
+    return undefined;
+};
+
+export const getLineStyle = (line: DrawLine): LineStyle => {
+    const width = line.width ?? FREEHAND_STROKE_WIDTH;
+    return {
+        width,
+        opacity: line.highlighter ? HIGHLIGHTER_OPACITY : line.opacity ?? 1,
+        dash: getDashArray(line.dash, width),
+        composite: line.highlighter ? 'multiply' : undefined,
+    };
+};
+
+// Pressure only shapes solid, regular strokes; dashes need an even width to follow
+export const usesPressure = (line: DrawLine) =>
+    !!line.pressures && !line.highlighter && (line.dash ?? 'solid') === 'solid';
+
+// Only styluses report real pressure; mice and fingers draw at the brush width
+export const getPenPressure = (evt: PointerEvent) => (evt.pointerType === 'pen' ? evt.pressure : undefined);
+
+const getPressureScale = (pressure = DEFAULT_PRESSURE) =>
+    MIN_PRESSURE_SCALE + (MAX_PRESSURE_SCALE - MIN_PRESSURE_SCALE) * pressure;
+
+// Points on a half circle around `center`, between two sides of the stroke, not including them
+const getCapPoints = (center: Point, startAngle: number, radius: number) =>
+    Array.from({ length: CAP_SEGMENTS - 1 }, (_, i) => {
+        const angle = startAngle - (Math.PI * (i + 1)) / CAP_SEGMENTS;
+        return { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius };
+    });
+
+const outlineCache = new WeakMap<DrawLine, number[]>();
+
+/**
+ * The outline of a pressure stroke as a closed polygon: each point is pushed out to both sides by its own
+ * half width, and the ends are rounded off. Lines are immutable, so each outline is worked out once.
+ */
+export const getStrokeOutline = (line: DrawLine): number[] => {
+    const cached = outlineCache.get(line);
+    if (cached) return cached;
+
+    const points = getLinePoints(line);
+    const width = line.width ?? FREEHAND_STROKE_WIDTH;
+    const radii = points.map((_, i) => (width * getPressureScale(line.pressures?.[i])) / 2);
+    const left: Point[] = [];
+    const right: Point[] = [];
+    const angles: number[] = [];
+
+    points.forEach((point, i) => {
+        const prev = points[Math.max(0, i - 1)];
+        const next = points[Math.min(points.length - 1, i + 1)];
+        const length = Math.hypot(next.x - prev.x, next.y - prev.y) || 1;
+        // Normal to the direction of travel, pointing to the stroke's left
+        const nx = -(next.y - prev.y) / length;
+        const ny = (next.x - prev.x) / length;
+        left.push({ x: point.x + nx * radii[i], y: point.y + ny * radii[i] });
+        right.push({ x: point.x - nx * radii[i], y: point.y - ny * radii[i] });
+        angles.push(Math.atan2(ny, nx));
+    });
+
+    const last = points.length - 1;
+    const outline = last < 0
+        ? []
+        : [
+            ...left,
+            ...getCapPoints(points[last], angles[last], radii[last]),
+            ...right.reverse(),
+            ...getCapPoints(points[0], angles[0] + Math.PI, radii[0]),
+        ].flatMap((point) => [point.x, point.y]);
+    outlineCache.set(line, outline);
+    return outline;
+};
+
+// Eases a new pointer sample toward the previous point, which takes the jitter out of hand-drawn strokes
+export const streamlinePoint = (previous: Point, raw: Point): Point => ({
+    x: previous.x + (raw.x - previous.x) * STREAMLINE,
+    y: previous.y + (raw.y - previous.y) * STREAMLINE,
+});
+
+/**
+ * Drops the points a stroke does not need (Ramer-Douglas-Peucker): a point stays only if leaving it out
+ * would move the stroke by more than `tolerance`, or change its pressure noticeably.
+ */
+export const simplifyLine = (line: DrawLine, tolerance: number): DrawLine => {
+    const points = getLinePoints(line);
+    if (points.length <= 2) return line;
+
+    const { pressures } = line;
+    const keep = points.map((_, i) => i === 0 || i === points.length - 1);
+    const ranges: Array<[number, number]> = [[0, points.length - 1]];
+    while (ranges.length > 0) {
+        const [first, last] = ranges.pop()!;
+        let worst = -1;
+        let worstError = 1;
+        for (let i = first + 1; i < last; i++) {
+            let error = distanceToSegment(points[i], points[first], points[last]) / tolerance;
+            if (pressures) {
+                const t = (i - first) / (last - first);
+                const expected = pressures[first] + (pressures[last] - pressures[first]) * t;
+                error = Math.max(error, Math.abs(pressures[i] - expected) / PRESSURE_TOLERANCE);
+            }
+            if (error > worstError) {
+                worst = i;
+                worstError = error;
+            }
+        }
+        if (worst >= 0) {
+            keep[worst] = true;
+            ranges.push([first, worst], [worst, last]);
+        }
+    }
+
+    if (keep.every(Boolean)) return line;
+    return {
+        ...line,
+        points: points.filter((_, i) => keep[i]).flatMap((point) => [point.x, point.y]),
+        ...(pressures && { pressures: pressures.filter((_, i) => keep[i]) }),
+    };
+};
@@ -0,0 +1,87 @@
+import type { ConnectorEnd, Shape } from './drawingTypes';
+import { expandBounds, getShapeBounds, unionBounds } from './geometry';
+import { SCENE_FORMAT, deserializeScene, parseSceneDocument, serializeScene } from './sceneFormat';
+import { exportScene, renderSceneToSvg } from './sceneExport';
+import { translateShape } from './shapeTree';
+import { createId } from './ids';
+
+// Copy and paste of shapes. Copied shapes travel as a scene document, so images keep their data.
+
+export const PASTE_OFFSET = 20;
+
+const CLIPBOARD_PADDING = 20;
+const CLIPBOARD_PIXEL_RATIO = 2;
+
+// Copies with new ids all the way down; connectors stay bound only to shapes copied along with them
+export const cloneWithFreshIds = (shapes: Shape[]): Shape[] => {
+    const idMap = new Map<string, string>();
+    const assignIds = (shape: Shape) => {
+        idMap.set(shape.id, createId(shape.type));
+        shape.children?.forEach(assignIds);
+    };
+    shapes.forEach(assignIds);
+
+    const remapEnd = (end: ConnectorEnd): ConnectorEnd =>
+        end.shapeId && idMap.has(end.shapeId) ? { ...end, shapeId: idMap.get(end.shapeId) } : { point: end.point };
+
+    const clone = (shape: Shape): Shape => {
+        const copy: Shape = { ...shape, id: idMap.get(shape.id)! };
+        if (shape.children) copy.children = shape.children.map(clone);
+        if (shape.start) copy.start = remapEnd(shape.start);
+        if (shape.end) copy.end = remapEnd(shape.end);
+        return copy;
+    };
+    return shapes.map(clone);
+};
+
+// Free connector ends move with the shapes; bound ends follow their shapes on the next connector sync
+export const offsetShapes = (shapes: Shape[], dx: number, dy: number): Shape[] =>
+    shapes.map((shape) => {
+        const moved = translateShape(shape, dx, dy);
+        if (shape.type !== 'connector') return moved;
+        const shiftEnd = (end?: ConnectorEnd) =>
+            end && !end.shapeId ? { point: { x: end.point.x + dx, y: end.point.y + dy } } : end;
+        return { ...moved, start: shiftEnd(shape.start), end: shiftEnd(shape.end) };
+    });
+
+/**
+ * Puts the shapes on the system clipboard as a scene document, plus PNG and SVG pictures of them
+ * for other apps. Browsers that reject a flavor get the richest subset they accept.
+ */
+export const writeShapesToClipboard = async (shapes: Shape[]) => {
+    const bounds = unionBounds(shapes.map(getShapeBounds));
+    if (!bounds || typeof navigator === 'undefined' || !navigator.clipboard) return;
+
+    const scene = { shapes, lines: [], slides: [], comments: [] };
+    const padded = expandBounds(bounds, CLIPBOARD_PADDING);
+    // Left as promises, so the copy starts while the user's click still allows it; images load meanwhile
+    const json = serializeScene(scene, { position: { x: 0, y: 0 }, zoom: 1 }).then((doc) => JSON.stringify(doc));
+    const text = json.then((value) => new Blob([value], { type: 'text/plain' }));
+    const png = exportScene(scene, padded, { format: 'png', scope: 'selection', pixelRatio: CLIPBOARD_PIXEL_RATIO, includeGrid: false });
+    const svg = new Blob([renderSceneToSvg(scene, padded, false)], { type: 'image/svg+xml' });
+
+    const flavors: Array<Record<string, Blob | Promise<Blob>>> = [
+        { 'text/plain': text, 'image/png': png, 'image/svg+xml': svg },
+        { 'text/plain': text, 'image/png': png },
+    ];
+    for (const items of flavors) {
+        try {
+            await navigator.clipboard.write([new ClipboardItem(items)]);
+            return;
+        } catch {
+            // Try the next, smaller set of flavors
+        }
+    }
+    await navigator.clipboard.writeText(await json);
+};
+
+// Shapes from clipboard text copied out of this app, or null for any other text
+export const readShapesFromClipboardText = async (text: string): Promise<Shape[] | null> => {
+    if (!text.includes(SCENE_FORMAT)) return null;
+    try {
+        const { scene } = await deserializeScene(await parseSceneDocument(text));
+        return scene.shapes;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,97 @@
+import type { CommentThread, Point, Shape, ThreadComment } from './drawingTypes';
+import { getWorldBounds } from './connectors';
+import { createId } from './ids';
+import { findShapeInTree } from './shapeTree';
+
+/*
+ * Comment threads pinned to the board. A pin on a shape keeps its place on the shape as fractions of
+ * the shape's bounds, so it follows the shape as it moves or is resized.
+ */
+
+// A thread with no comments yet, pinned at `point` and, when given, on the shape there
+export const createThread = (point: Point, shapes: Shape[], shapeId?: string): CommentThread => {
+    const bounds = shapeId ? getWorldBounds(shapes, shapeId) : null;
+    return {
+        id: createId('thread'),
+        point,
+        ...(bounds && {
+            shapeId,
+            offset: {
+                x: bounds.width > 0 ? (point.x - bounds.x) / bounds.width : 0.5,
+                y: bounds.height > 0 ? (point.y - bounds.y) / bounds.height : 0.5,
+            },
+        }),
+        comments: [],
+    };
+};
+
+export const createComment = (author: string, text: string, mentions: string[]): ThreadComment => ({
+    id: createId('comment'),
+    author,
+    text,
+    createdAt: Date.now(),
+    ...(mentions.length > 0 && { mentions }),
+});
+
+// Where the pin sits now; a pin whose shape is gone shows at `point`, where the shape last had it
+export const getThreadPosition = (thread: CommentThread, shapes: Shape[]): Point => {
+    const bounds = thread.shapeId && thread.offset ? getWorldBounds(shapes, thread.shapeId) : null;
+    if (!bounds || !thread.offset) return thread.point;
+    return { x: bounds.x + bounds.width * thread.offset.x, y: bounds.y + bounds.height * thread.offset.y };
+};
+
+// For an edit that deletes shapes from `before` to `after`: their pins keep the place the shapes last gave
+// them. They stay on the shapes, so undoing the delete brings them back along with the shapes.
+export const keepPinsInPlace = (threads: CommentThread[], before: Shape[], after: Shape[]) => {
+    let changed = false;
+    const next = threads.map((thread) => {
+        if (!thread.shapeId || findShapeInTree(after, thread.shapeId) || !findShapeInTree(before, thread.shapeId)) {
+            return thread;
+        }
+        changed = true;
+        return { ...thread, point: getThreadPosition(thread, before) };
+    });
+    return changed ? next : threads;
+};
+
+export const isResolved = (thread: CommentThread) => !!thread.resolvedBy;
+
+export const isMentioned = (thread: CommentThread, name: string) =>
+    thread.comments.some((comment) => comment.mentions?.includes(name));
+
+// The names to suggest after an @: everyone on the board now and everyone who has commented
+export const getMentionNames = (threads: CommentThread[], names: string[], self: string) =>
+    Array.from(new Set([...names, ...threads.flatMap((thread) => thread.comments.map((comment) => comment.author))]))
+        .filter((name) => name !== self)
+        .sort((a, b) => a.localeCompare(b));
+
+// The partial name typed after an @ just before the caret, and where its @ is
+export const getMentionQuery = (text: string, caret: number): { start: number; query: string } | null => {
+    const match = /(?:^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+    return match ? { start: caret - match[1].length - 1, query: match[1] } : null;
+};
+
+// Of the names picked while writing, those still written out as @name
+export const findMentions = (text: string, names: string[]) => names.filter((name) => text.includes(`@${name}`));
+
+// A comment cut into plain text and its mentions, longest names first so "@Ann Lee" beats "@Ann"
+export const splitMentions = (text: string, mentions: string[] = []): { text: string; isMention: boolean }[] => {
+    const names = [...mentions].sort((a, b) => b.length - a.length);
+    const parts: { text: string; isMention: boolean }[] = [];
+    let plain = '';
+    let i = 0;
+    while (i < text.length) {
+        const name = text[i] === '@' ? names.find((item) => text.startsWith(item, i + 1)) : undefined;
+        if (name) {
+            if (plain) parts.push({ text: plain, isMention: false });
+            parts.push({ text: `@${name}`, isMention: true });
+            plain = '';
+            i += name.length + 1;
+        } else {
+            plain += text[i];
+            i += 1;
+        }
+    }
+    if (plain) parts.push({ text: plain, isMention: false });
+    return parts;
+};
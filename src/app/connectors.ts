@@ -0,0 +1,190 @@
+import type { AnchorSide, ConnectorEnd, ConnectorRouting, Point, Shape } from './drawingTypes';
+import { getShapeBounds, transformBounds, type Bounds } from './geometry';
+import { findShapeInTree, getAncestorIds, mapShapeTree } from './shapeTree';
+import { measureText } from './textLayout';
+
+// Connectors attach to anchors on these shapes; anything else leaves the end free
+const BINDABLE_TYPES: Shape['type'][] = [
+    'rectangle',
+    'circle',
+    'ellipse',
+    'diamond',
+    'triangle',
+    'star',
+    'cylinder',
+    'cloud',
+    'icon',
+    'text',
+    'image',
+    'sticky',
+];
+
+// Anchors offered when binding; `center` is only reached through an explicit anchor
+export const ANCHOR_SIDES: AnchorSide[] = ['top', 'right', 'bottom', 'left'];
+
+export const CONNECTOR_LABEL_FONT_SIZE = 14;
+export const CONNECTOR_LABEL_PADDING = 4;
+export const CONNECTOR_DOT_RADIUS = 4;
+export const CONNECTOR_BAR_SIZE = 12;
+
+const CURVE_SEGMENTS = 24;
+const MIN_CURVE_HANDLE = 40;
+
+const ANCHOR_NORMALS: Record<AnchorSide, Point> = {
+    top: { x: 0, y: -1 },
+    right: { x: 1, y: 0 },
+    bottom: { x: 0, y: 1 },
+    left: { x: -1, y: 0 },
+    center: { x: 0, y: 0 },
+};
+
+export const isBindable = (shape: Shape) => BINDABLE_TYPES.includes(shape.type);
+
+// Bounds of a shape anywhere in the tree, carried out through every enclosing group
+export const getWorldBounds = (shapes: Shape[], id: string): Bounds | null => {
+    const shape = findShapeInTree(shapes, id);
+    const ancestors = getAncestorIds(shapes, id);
+    if (!shape || !ancestors) return null;
+    return ancestors.reduceRight((bounds, groupId) => transformBounds(bounds, findShapeInTree(shapes, groupId)!), getShapeBounds(shape));
+};
+
+export const getAnchorPoint = (bounds: Bounds, side: AnchorSide): Point => {
+    const normal = ANCHOR_NORMALS[side];
+    return {
+        x: bounds.x + (bounds.width / 2) * (1 + normal.x),
+        y: bounds.y + (bounds.height / 2) * (1 + normal.y),
+    };
+};
+
+export const getNearestAnchor = (bounds: Bounds, point: Point): AnchorSide => {
+    let nearest: AnchorSide = 'top';
+    let nearestDistance = Infinity;
+    for (const side of ANCHOR_SIDES) {
+        const anchor = getAnchorPoint(bounds, side);
+        const distance = Math.hypot(anchor.x - point.x, anchor.y - point.y);
+        if (distance < nearestDistance) {
+            nearest = side;
+            nearestDistance = distance;
+        }
+    }
+    return nearest;
+};
+
+// Where a connector end currently sits; a missing bound shape leaves the end at its last point
+export const resolveConnectorEnd = (shapes: Shape[], end: ConnectorEnd): ConnectorEnd => {
+    if (!end.shapeId) return end;
+    const bounds = getWorldBounds(shapes, end.shapeId);
+    if (!bounds) return { point: end.point };
+    const point = getAnchorPoint(bounds, end.anchor || 'center');
+    if (point.x === end.point.x && point.y === end.point.y) return end;
+    return { ...end, point };
+};
+
+// Direction a path leaves an anchor in; free ends and center anchors face the other end
+const getExitDirection = (end: ConnectorEnd, other: Point): Point => {
+    const normal = end.anchor ? ANCHOR_NORMALS[end.anchor] : ANCHOR_NORMALS.center;
+    if (normal.x !== 0 || normal.y !== 0) return normal;
+    const dx = other.x - end.point.x;
+    const dy = other.y - end.point.y;
+    if (Math.abs(dx) >= Math.abs(dy)) return { x: Math.sign(dx) || 1, y: 0 };
+    return { x: 0, y: Math.sign(dy) || 1 };
+};
+
+const routeElbow = (start: ConnectorEnd, end: ConnectorEnd): Point[] => {
+    const a = start.point;
+    const b = end.point;
+    const direction = getExitDirection(start, b);
+    if (a.x === b.x || a.y === b.y) return [a, b];
+    if (direction.x !== 0) {
+        const midX = (a.x + b.x) / 2;
+        return [a, { x: midX, y: a.y }, { x: midX, y: b.y }, b];
+    }
+    const midY = (a.y + b.y) / 2;
+    return [a, { x: a.x, y: midY }, { x: b.x, y: midY }, b];
+};
+
+// A cubic curve leaving each end along its anchor, flattened so it draws and hit-tests as a polyline
+const routeCurved = (start: ConnectorEnd, end: ConnectorEnd): Point[] => {
+    const a = start.point;
+    const b = end.point;
+    const handle = Math.max(MIN_CURVE_HANDLE, Math.hypot(b.x - a.x, b.y - a.y) / 2);
+    const startDirection = getExitDirection(start, b);
+    const endDirection = getExitDirection(end, a);
+    const c1 = { x: a.x + startDirection.x * handle, y: a.y + startDirection.y * handle };
+    const c2 = { x: b.x + endDirection.x * handle, y: b.y + endDirection.y * handle };
+
+    const points: Point[] = [];
+    for (let i = 0; i <= CURVE_SEGMENTS; i++) {
+        const t = i / CURVE_SEGMENTS;
+        const u = 1 - t;
+        points.push({
+            x: u * u * u * a.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * b.x,
+            y: u * u * u * a.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * b.y,
+        });
+    }
+    return points;
+};
+
+export const routeConnector = (start: ConnectorEnd, end: ConnectorEnd, routing: ConnectorRouting): Point[] => {
+    switch (routing) {
+        case 'elbow':
+            return routeElbow(start, end);
+        case 'curved':
+            return routeCurved(start, end);
+        default:
+            return [start.point, end.point];
+    }
+};
+
+const samePoints = (a: Point[] | undefined, b: Point[]) =>
+    !!a && a.length === b.length && a.every((point, i) => point.x === b[i].x && point.y === b[i].y);
+
+// Re-resolves both ends of a connector and re-routes it, returning the same shape when nothing moved
+export const rerouteConnector = (shapes: Shape[], connector: Shape): Shape => {
+    if (!connector.start || !connector.end) return connector;
+    const start = resolveConnectorEnd(shapes, connector.start);
+    const end = resolveConnectorEnd(shapes, connector.end);
+    const points = routeConnector(start, end, connector.routing || 'straight');
+    if (start === connector.start && end === connector.end && samePoints(connector.points, points)) return connector;
+    return { ...connector, start, end, points };
+};
+
+// Keeps every connector in the tree attached to the shapes it is bound to
+export const syncConnectors = (shapes: Shape[]): Shape[] =>
+    mapShapeTree(shapes, (shape) => (shape.type === 'connector' ? rerouteConnector(shapes, shape) : shape));
+
+// Point halfway along a polyline, where the connector's label sits
+export const getPathMidpoint = (points: Point[]): Point => {
+    if (points.length === 0) return { x: 0, y: 0 };
+    const lengths = points.slice(1).map((point, i) => Math.hypot(point.x - points[i].x, point.y - points[i].y));
+    let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+    for (let i = 0; i < lengths.length; i++) {
+        if (remaining <= lengths[i] && lengths[i] > 0) {
+            const t = remaining / lengths[i];
+            return {
+                x: points[i].x + (points[i + 1].x - points[i].x) * t,
+                y: points[i].y + (points[i + 1].y - points[i].y) * t,
+            };
+        }
+        remaining -= lengths[i];
+    }
+    return points[points.length - 1];
+};
+
+// Box of the label, centered on the middle of the path
+export const getConnectorLabelBounds = (points: Point[], text: string): Bounds => {
+    const center = getPathMidpoint(points);
+    const size = measureText(text, CONNECTOR_LABEL_FONT_SIZE, 'Arial');
+    const width = size.width + CONNECTOR_LABEL_PADDING * 2;
+    const height = size.height + CONNECTOR_LABEL_PADDING * 2;
+    return { x: center.x - width / 2, y: center.y - height / 2, width, height };
+};
+
+// The tip of one end and the point the path reaches it from, to orient its arrowhead
+export const getConnectorTip = (points: Point[], at: 'start' | 'end') => {
+    const ordered = at === 'end' ? points : [...points].reverse();
+    const tip = ordered[ordered.length - 1];
+    // Skip zero-length segments so the arrowhead always has a direction
+    const from = [...ordered].reverse().find((point) => point.x !== tip.x || point.y !== tip.y) ?? tip;
+    return { tip, from, angle: Math.atan2(tip.y - from.y, tip.x - from.x) };
+};
@@ -0,0 +1,50 @@
+/*
+ * This browser's database: the boards saved here and the pictures they show.
+ */
+
+const DB_NAME = 'collaboration-intro';
+const DB_VERSION = 3;
+export const SCENE_STORE = 'scenes';
+export const ASSET_STORE = 'assets';
+export const SHARED_BOARD_STORE = 'sharedBoards';
+
+// Stores created on upgrade; add a name here and bump DB_VERSION to get a new one
+const STORES = [SCENE_STORE, ASSET_STORE, SHARED_BOARD_STORE];
+
+const openDatabase = () =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            STORES.forEach((name) => {
+                if (!db.objectStoreNames.contains(name)) {
+                    db.createObjectStore(name);
+                }
+            });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Failed to open the board database.'));
+    });
+
+const runRequest = async <T,>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = action(db.transaction(storeName, mode).objectStore(storeName));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error ?? new Error('Board database request failed.'));
+        });
+    } finally {
+        db.close();
+    }
+};
+
+export const idbGet = <T,>(storeName: string, key: IDBValidKey) =>
+    runRequest<T | undefined>(storeName, 'readonly', (store) => store.get(key));
+
+export const idbPut = <T,>(storeName: string, key: IDBValidKey, value: T) =>
+    runRequest<IDBValidKey>(storeName, 'readwrite', (store) => store.put(value, key));
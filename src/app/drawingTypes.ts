@@ -0,0 +1,200 @@
+export type ToolType =
+    | 'cursor'
+    | 'draw'
+    | 'eraser'
+    | 'rectangle'
+    | 'roundedRectangle'
+    | 'circle'
+    | 'ellipse'
+    | 'line'
+    | 'polyline'
+    | 'diamond'
+    | 'triangle'
+    | 'star'
+    | 'cylinder'
+    | 'cloud'
+    | 'icon'
+    | 'text'
+    | 'image'
+    | 'pen'
+    | 'connector'
+    | 'sticky'
+    | 'frame'
+    | 'laser'
+    | 'comment';
+
+export interface Tool {
+    name: ToolType;
+    icon: string;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export type AnchorSide = 'top' | 'right' | 'bottom' | 'left' | 'center';
+export type ConnectorRouting = 'straight' | 'elbow' | 'curved';
+export type ArrowheadType = 'none' | 'arrow' | 'dot' | 'bar';
+
+// One end of a connector: bound to an anchor on a shape, or free at `point`
+export interface ConnectorEnd {
+    shapeId?: string;
+    anchor?: AnchorSide;
+    point: Point;
+}
+
+export type BrushDash = 'solid' | 'dashed' | 'dotted';
+
+export interface BrushSettings {
+    width: number;
+    opacity: number;
+    dash: BrushDash;
+    // Translucent and blended so strokes underneath stay readable; ignores opacity and pressure
+    highlighter: boolean;
+}
+
+export interface DrawLine extends Partial<BrushSettings> {
+    id: string;
+    tool: ToolType;
+    points: number[];
+    color: string;
+    // Pen pressure (0 to 1) at each point, for strokes drawn with a stylus
+    pressures?: number[];
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface ImageCrop {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// A stretch of text sharing one inline style
+export interface TextRun {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    link?: string;
+}
+
+export interface Shape {
+    id: string;
+    type:
+        | 'rectangle'
+        | 'circle'
+        | 'ellipse'
+        | 'line'
+        | 'diamond'
+        | 'triangle'
+        | 'star'
+        | 'cylinder'
+        | 'cloud'
+        | 'icon'
+        | 'text'
+        | 'image'
+        | 'pen'
+        | 'group'
+        | 'connector'
+        | 'sticky'
+        | 'frame';
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    fill: string;
+    stroke: string;
+    strokeWidth: number;
+    // Shown in the layers panel in place of the name made up from the shape's type
+    name?: string;
+    // Hidden shapes are neither drawn nor exported; locked ones cannot be selected, moved or erased
+    hidden?: boolean;
+    locked?: boolean;
+    // Text shapes and sticky notes: the content; frames: the name shown above them
+    text?: string;
+    fontSize?: number;
+    fontFamily?: string;
+    // Text shapes: inline styles as runs whose texts join up to `text`, absent for plain text
+    runs?: TextRun[];
+    // Text shapes: the width lines wrap at; without it each paragraph is one line
+    wrapWidth?: number;
+    align?: TextAlign;
+    // Text shapes: line spacing as a multiple of the font size
+    lineHeight?: number;
+    // Image shapes: the picture, kept in the asset store
+    assetId?: string;
+    // Image shapes: the part of the picture shown, in its own pixels; without it the whole picture shows
+    crop?: ImageCrop;
+    // Pen and connector shapes: in world space; line shapes: relative to x/y
+    points?: Point[];
+    // Rectangles: rounding of the corners
+    cornerRadius?: number;
+    // Stars: how many points, and how far in the corners between them reach, as a fraction of the radius
+    sides?: number;
+    innerRadius?: number;
+    // Icon shapes: the name of the icon in the icon set
+    icon?: string;
+    rotation?: number;
+    // Group shapes: children are positioned relative to the group's x/y and transformed with it
+    children?: Shape[];
+    scaleX?: number;
+    scaleY?: number;
+    // Connector shapes: `points` holds the routed path in world space, `text` the label
+    start?: ConnectorEnd;
+    end?: ConnectorEnd;
+    routing?: ConnectorRouting;
+    startArrow?: ArrowheadType;
+    endArrow?: ArrowheadType;
+};
+
+// A step of a presentation: a frame, which it follows as the frame moves, or a saved view of the board
+export interface Slide {
+    id: string;
+    frameId?: string;
+    // View slides: the world area to show, fitted to whatever screen presents it
+    view?: { x: number; y: number; width: number; height: number };
+    name?: string;
+    // Speaker notes, shown only in the presenter view
+    notes?: string;
+}
+
+// One message in a comment thread; `mentions` are the names picked after an @ while writing it
+export interface ThreadComment {
+    id: string;
+    author: string;
+    text: string;
+    createdAt: number;
+    mentions?: string[];
+}
+
+// A discussion pinned to the board: free at `point`, or on a shape, which the pin follows
+export interface CommentThread {
+    id: string;
+    // Free pins: where they are. Pins on a shape: where they were placed, or once the shape is deleted,
+    // where it last had them; see keepPinsInPlace
+    point: Point;
+    shapeId?: string;
+    // Pins on a shape: where on it, as fractions of its bounds
+    offset?: Point;
+    resolvedBy?: string;
+    resolvedAt?: number;
+    // Oldest first; the first one opened the thread
+    comments: ThreadComment[];
+}
+
+export interface Scene {
+    shapes: Shape[];
+    lines: DrawLine[];
+    // In presentation order
+    slides: Slide[];
+    // Oldest first
+    comments: CommentThread[];
+}
+
+export interface Viewport {
+    position: Point;
+    zoom: number;
+}
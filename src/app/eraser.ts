@@ -0,0 +1,172 @@
+import type { DrawLine, Point, Shape } from './drawingTypes';
+import { distanceToSegment, getLinePoints, getLineReach, normalizeBounds, type Bounds } from './geometry';
+import { getConnectorLabelBounds } from './connectors';
+import { toGroupSpace } from './shapeTree';
+import { PATH_SHAPE_TYPES, getShapeOutline, polygonContains } from './shapeLibrary';
+import { layoutText } from './textLayout';
+import { createId } from './ids';
+
+// Hit-testing for the eraser. Every test takes the eraser as a circle of `radius` around a world point.
+
+export type EraserMode = 'object' | 'stroke';
+
+// Radius of the point markers on pen paths, as drawn by the canvas
+const PEN_POINT_RADIUS = 5;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const distanceToPolyline = (point: Point, points: Point[]) => {
+    if (points.length === 1) return distance(point, points[0]);
+    let closest = Infinity;
+    for (let i = 1; i < points.length; i++) {
+        closest = Math.min(closest, distanceToSegment(point, points[i - 1], points[i]));
+    }
+    return closest;
+};
+
+const boxContains = (box: Bounds, point: Point, radius: number) =>
+    point.x >= box.x - radius
+    && point.x <= box.x + box.width + radius
+    && point.y >= box.y - radius
+    && point.y <= box.y + box.height + radius;
+
+// The point relative to the shape's origin with the shape's rotation taken out
+const toShapeSpace = (shape: Shape, point: Point) => toGroupSpace({ ...shape, scaleX: 1, scaleY: 1 }, point);
+
+/**
+ * Whether the eraser touches the shape as it is drawn: filled areas count as a whole, outlines by their stroke.
+ * Groups are hit through any of their children.
+ */
+export const hitTestShape = (shape: Shape, point: Point, radius: number): boolean => {
+    if (PATH_SHAPE_TYPES.includes(shape.type)) {
+        const outline = getShapeOutline(shape);
+        const local = toShapeSpace(shape, point);
+        return polygonContains(outline, local) || distanceToPolyline(local, [...outline, outline[0]]) <= radius + shape.strokeWidth / 2;
+    }
+    switch (shape.type) {
+        case 'circle': {
+            // Drawn round from the horizontal size, centered in the stored box
+            const center = { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 };
+            return distance(point, center) <= Math.abs(shape.width) / 2 + radius;
+        }
+        case 'text': {
+            const { width, height } = layoutText(shape);
+            return boxContains({ x: 0, y: 0, width, height }, toShapeSpace(shape, point), radius);
+        }
+        case 'line': {
+            const points = shape.points || [];
+            return points.length > 0 && distanceToPolyline(toShapeSpace(shape, point), points) <= radius + shape.strokeWidth / 2;
+        }
+        case 'pen': {
+            const points = shape.points || [];
+            return (
+                distanceToPolyline(point, points) <= radius + shape.strokeWidth / 2
+                || points.some((marker) => distance(point, marker) <= radius + PEN_POINT_RADIUS)
+            );
+        }
+        case 'connector': {
+            const points = shape.points || [];
+            if (points.length === 0) return false;
+            const label = shape.text ? getConnectorLabelBounds(points, shape.text) : null;
+            return distanceToPolyline(point, points) <= radius + shape.strokeWidth / 2 || (!!label && boxContains(label, point, radius));
+        }
+        case 'frame': {
+            // Only the border counts, so erasing inside a frame does not take the frame with it
+            const box = normalizeBounds(shape.x, shape.y, shape.width, shape.height);
+            const inner = { x: box.x + radius, y: box.y + radius, width: box.width - radius * 2, height: box.height - radius * 2 };
+            return boxContains(box, point, radius) && !(inner.width > 0 && inner.height > 0 && boxContains(inner, point, 0));
+        }
+        case 'group': {
+            // The radius shrinks or grows with the group's scale, like everything drawn inside it
+            const scale = Math.sqrt(Math.abs((shape.scaleX ?? 1) * (shape.scaleY ?? 1))) || 1;
+            const local = toGroupSpace(shape, point);
+            return (shape.children || []).some((child) => hitTestShape(child, local, radius / scale));
+        }
+        default:
+            return boxContains(normalizeBounds(0, 0, shape.width, shape.height), toShapeSpace(shape, point), radius);
+    }
+};
+
+export const hitTestLine = (line: DrawLine, point: Point, radius: number) => {
+    const points = getLinePoints(line);
+    return points.length > 0 && distanceToPolyline(point, points) <= radius + getLineReach(line);
+};
+
+// Where the segment a→b enters and leaves the circle, as fractions of its length, or null if it misses
+const clipSegment = (a: Point, b: Point, center: Point, radius: number): [number, number] | null => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const fx = a.x - center.x;
+    const fy = a.y - center.y;
+    const qa = dx * dx + dy * dy;
+    const qc = fx * fx + fy * fy - radius * radius;
+    if (qa === 0) return qc <= 0 ? [0, 1] : null;
+    const qb = 2 * (fx * dx + fy * dy);
+    const discriminant = qb * qb - 4 * qa * qc;
+    if (discriminant <= 0) return null;
+    const root = Math.sqrt(discriminant);
+    const enter = Math.max(0, (-qb - root) / (2 * qa));
+    const leave = Math.min(1, (-qb + root) / (2 * qa));
+    return enter < leave ? [enter, leave] : null;
+};
+
+// A point of a stroke being cut, with its pen pressure when the stroke has any
+interface StrokeSample {
+    point: Point;
+    pressure?: number;
+}
+
+const lerpSample = (a: StrokeSample, b: StrokeSample, t: number): StrokeSample => ({
+    point: { x: a.point.x + (b.point.x - a.point.x) * t, y: a.point.y + (b.point.y - a.point.y) * t },
+    pressure: a.pressure === undefined || b.pressure === undefined ? undefined : a.pressure + (b.pressure - a.pressure) * t,
+});
+
+const cutLineAt = (line: DrawLine, center: Point, radius: number): DrawLine[] => {
+    const samples: StrokeSample[] = getLinePoints(line).map((point, i) => ({ point, pressure: line.pressures?.[i] }));
+    if (samples.length === 1) return distance(samples[0].point, center) <= radius ? [] : [line];
+
+    const pieces: StrokeSample[][] = [];
+    let current: StrokeSample[] = [samples[0]];
+    let isCut = false;
+
+    for (let i = 1; i < samples.length; i++) {
+        const a = samples[i - 1];
+        const b = samples[i];
+        const clip = clipSegment(a.point, b.point, center, radius);
+        if (!clip) {
+            current.push(b);
+            continue;
+        }
+        isCut = true;
+        const [enter, leave] = clip;
+        if (enter > 0) current.push(lerpSample(a, b, enter));
+        if (current.length > 1) pieces.push(current);
+        current = leave < 1 ? [lerpSample(a, b, leave), b] : [];
+    }
+    if (!isCut) return [line];
+    if (current.length > 1) pieces.push(current);
+
+    return pieces.map((piece) => {
+        return {
+            ...line,
+            id: createId('line'),
+            points: piece.flatMap(({ point }) => [point.x, point.y]),
+            ...(line.pressures && { pressures: piece.map(({ pressure }) => pressure ?? 0) }),
+        };
+    });
+};
+
+// Cuts the part of a freehand stroke under the eraser out of it, leaving the rest as separate strokes
+export const cutLine = (line: DrawLine, centers: Point[], radius: number): DrawLine[] => {
+    const reach = radius + getLineReach(line);
+    return centers.reduce<DrawLine[]>((pieces, center) => pieces.flatMap((piece) => cutLineAt(piece, center, reach)), [line]);
+};
+
+// Points along a pointer move no further apart than `step`, so a fast drag erases everything it crossed
+export const sampleSegment = (from: Point, to: Point, step: number): Point[] => {
+    const count = Math.max(1, Math.ceil(distance(from, to) / step));
+    return Array.from({ length: count + 1 }, (_, i) => ({
+        x: from.x + ((to.x - from.x) * i) / count,
+        y: from.y + ((to.y - from.y) * i) / count,
+    }));
+};
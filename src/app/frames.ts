@@ -0,0 +1,53 @@
+import type { Shape } from './drawingTypes';
+import { getShapeBounds, normalizeBounds, type Bounds } from './geometry';
+
+/*
+ * Frames are named regions of the board. They do not own their contents: a top-level shape belongs to
+ * a frame while the center of its bounds lies inside it, so dropping a shape onto a frame adds it and
+ * dragging it out removes it, with nothing to keep in sync. Where frames overlap, the topmost one wins.
+ */
+
+export const FRAME_TITLE_FONT_SIZE = 14;
+export const FRAME_TITLE_COLOR = '#4b5563';
+// How far above a frame's top edge its name starts
+export const FRAME_TITLE_OFFSET = 20;
+
+export const isFrame = (shape: Shape) => shape.type === 'frame';
+
+// Frames cannot be rotated, so their bounds are their stored box
+export const getFrameBounds = (frame: Shape): Bounds => normalizeBounds(frame.x, frame.y, frame.width, frame.height);
+
+const containsPoint = (bounds: Bounds, x: number, y: number) =>
+    x >= bounds.x && x <= bounds.x + bounds.width && y >= bounds.y && y <= bounds.y + bounds.height;
+
+// Which top-level shapes each frame holds, by frame id, in stacking order
+export const getFrameMembers = (shapes: Shape[]): Map<string, Shape[]> => {
+    const members = new Map<string, Shape[]>();
+    const frames = shapes.filter(isFrame).reverse();
+    if (frames.length === 0) return members;
+
+    const frameBounds = frames.map(getFrameBounds);
+    shapes.forEach((shape) => {
+        if (isFrame(shape) || shape.type === 'connector') return;
+        const bounds = getShapeBounds(shape);
+        const centerX = bounds.x + bounds.width / 2;
+        const centerY = bounds.y + bounds.height / 2;
+        const index = frameBounds.findIndex((frame) => containsPoint(frame, centerX, centerY));
+        if (index < 0) return;
+        const list = members.get(frames[index].id);
+        if (list) {
+            list.push(shape);
+        } else {
+            members.set(frames[index].id, [shape]);
+        }
+    });
+    return members;
+};
+
+// The next unused "Frame N" name
+export const getNextFrameName = (shapes: Shape[]) => {
+    const used = new Set(shapes.filter(isFrame).map((frame) => frame.text));
+    let n = 1;
+    while (used.has(`Frame ${n}`)) n++;
+    return `Frame ${n}`;
+};
@@ -0,0 +1,129 @@
+import type { DrawLine, Point, Shape } from './drawingTypes';
+import { applyGroupTransform } from './shapeTree';
+import { layoutText } from './textLayout';
+
+export interface Bounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const FREEHAND_STROKE_WIDTH = 5;
+// Pen pressure scales a freehand stroke between these multiples of its brush width
+export const MIN_PRESSURE_SCALE = 0.5;
+export const MAX_PRESSURE_SCALE = 1.5;
+
+export const normalizeBounds = (x: number, y: number, width: number, height: number): Bounds => ({
+    x: Math.min(x, x + width),
+    y: Math.min(y, y + height),
+    width: Math.abs(width),
+    height: Math.abs(height),
+});
+
+export const getPointsBounds = (points: Point[], padding = 0): Bounds | null => {
+    if (points.length === 0) return null;
+    const xs = points.map((point) => point.x);
+    const ys = points.map((point) => point.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return {
+        x: minX - padding,
+        y: minY - padding,
+        width: Math.max(...xs) - minX + padding * 2,
+        height: Math.max(...ys) - minY + padding * 2,
+    };
+};
+
+// Axis-aligned bounds of a box in a group's local space, seen from the group's parent
+export const transformBounds = (bounds: Bounds, group: Shape): Bounds => {
+    const corners = [
+        { x: bounds.x, y: bounds.y },
+        { x: bounds.x + bounds.width, y: bounds.y },
+        { x: bounds.x, y: bounds.y + bounds.height },
+        { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+    ].map((corner) => applyGroupTransform(group, corner));
+    return getPointsBounds(corners)!;
+};
+
+// Places a box given relative to the shape's origin, turned by the shape's rotation around that origin
+const rotateBounds = (local: Bounds, shape: Shape): Bounds =>
+    shape.rotation
+        ? transformBounds(local, shape)
+        : { x: shape.x + local.x, y: shape.y + local.y, width: local.width, height: local.height };
+
+export const getShapeBounds = (shape: Shape): Bounds => {
+    switch (shape.type) {
+        case 'circle': {
+            // Circles are drawn round from the horizontal size, centered in the stored box
+            const radius = Math.abs(shape.width) / 2;
+            return {
+                x: shape.x + shape.width / 2 - radius,
+                y: shape.y + shape.height / 2 - radius,
+                width: radius * 2,
+                height: radius * 2,
+            };
+        }
+        case 'text': {
+            const { width, height } = layoutText(shape);
+            return rotateBounds({ x: 0, y: 0, width, height }, shape);
+        }
+        case 'line': {
+            const local = getPointsBounds(shape.points || [], shape.strokeWidth / 2);
+            return local ? rotateBounds(local, shape) : { x: shape.x, y: shape.y, width: 0, height: 0 };
+        }
+        case 'pen':
+        case 'connector':
+            return getPointsBounds(shape.points || [], 5) || { x: shape.x, y: shape.y, width: 0, height: 0 };
+        case 'group': {
+            // Bounds of the children in group space, carried through the group's transform
+            const local = unionBounds((shape.children || []).map(getShapeBounds));
+            return local ? transformBounds(local, shape) : { x: shape.x, y: shape.y, width: 0, height: 0 };
+        }
+        default:
+            return rotateBounds(normalizeBounds(0, 0, shape.width, shape.height), shape);
+    }
+};
+
+export const getLinePoints = (line: DrawLine): Point[] => {
+    const points: Point[] = [];
+    for (let i = 0; i < line.points.length - 1; i += 2) {
+        points.push({ x: line.points[i], y: line.points[i + 1] });
+    }
+    return points;
+};
+
+// How far the paint of a freehand stroke reaches from its centerline
+export const getLineReach = (line: DrawLine) =>
+    ((line.width ?? FREEHAND_STROKE_WIDTH) * (line.pressures ? MAX_PRESSURE_SCALE : 1)) / 2;
+
+export const getLineBounds = (line: DrawLine): Bounds =>
+    getPointsBounds(getLinePoints(line), getLineReach(line)) || { x: 0, y: 0, width: 0, height: 0 };
+
+export const distanceToSegment = (point: Point, a: Point, b: Point) => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) return Math.hypot(point.x - a.x, point.y - a.y);
+    const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+    return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+};
+
+export const unionBounds = (bounds: Bounds[]): Bounds | null => {
+    if (bounds.length === 0) return null;
+    const minX = Math.min(...bounds.map((b) => b.x));
+    const minY = Math.min(...bounds.map((b) => b.y));
+    const maxX = Math.max(...bounds.map((b) => b.x + b.width));
+    const maxY = Math.max(...bounds.map((b) => b.y + b.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const expandBounds = (bounds: Bounds, padding: number): Bounds => ({
+    x: bounds.x - padding,
+    y: bounds.y - padding,
+    width: bounds.width + padding * 2,
+    height: bounds.height + padding * 2,
+});
+
+export const boundsIntersect = (a: Bounds, b: Bounds) =>
+    a.x <= b.x + b.width && a.x + a.width >= b.x && a.y <= b.y + b.height && a.y + a.height >= b.y;
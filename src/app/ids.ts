@@ -0,0 +1,7 @@
+// Ids for whatever goes into the shared board. They are random rather than taken from the clock, so items two
+// people create in the same millisecond, or many made in one go, never share an id and overwrite each other.
+// getRandomValues also works on boards served over plain http, where crypto.randomUUID is missing.
+export const createId = (prefix: string) => {
+    const bytes = crypto.getRandomValues(new Uint8Array(12));
+    return `${prefix}-${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+};
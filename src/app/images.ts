@@ -0,0 +1,70 @@
+import type { ImageCrop, Point, Shape } from './drawingTypes';
+import type { Bounds } from './geometry';
+import type { LoadedAsset } from './assetStore';
+import { createId } from './ids';
+
+// Image shapes: a picture from the asset store, of which the crop is stretched over the shape's box
+
+// A new image at the picture's own size, centered on `center`
+export const createImageShape = ({ asset, image }: LoadedAsset, center: Point): Shape => {
+    return {
+        id: createId('image'),
+        type: 'image',
+        x: center.x - image.naturalWidth / 2,
+        y: center.y - image.naturalHeight / 2,
+        width: image.naturalWidth,
+        height: image.naturalHeight,
+        fill: '',
+        stroke: '#000000',
+        strokeWidth: 0,
+        assetId: asset.id,
+    };
+};
+
+export const getImageCrop = (shape: Shape, image: HTMLImageElement): ImageCrop =>
+    shape.crop ?? { x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight };
+
+// Where the whole picture lies in the shape's own space, at the scale its crop is shown at
+export const getUncroppedBounds = (shape: Shape, image: HTMLImageElement): Bounds => {
+    const crop = getImageCrop(shape, image);
+    const scaleX = shape.width / crop.width;
+    const scaleY = shape.height / crop.height;
+    return {
+        x: -crop.x * scaleX,
+        y: -crop.y * scaleY,
+        width: image.naturalWidth * scaleX,
+        height: image.naturalHeight * scaleY,
+    };
+};
+
+/**
+ * The changes that make the image show only `box`, a part of its uncropped bounds in the shape's own space.
+ * The picture stays where it is on the board, rotation included; only less or more of it shows.
+ */
+export const cropImage = (shape: Shape, image: HTMLImageElement, box: Bounds): Partial<Shape> => {
+    const full = getUncroppedBounds(shape, image);
+    const scaleX = image.naturalWidth / full.width;
+    const scaleY = image.naturalHeight / full.height;
+    const crop = {
+        x: (box.x - full.x) * scaleX,
+        y: (box.y - full.y) * scaleY,
+        width: box.width * scaleX,
+        height: box.height * scaleY,
+    };
+    const angle = ((shape.rotation || 0) * Math.PI) / 180;
+    const isWhole = crop.x <= 0.5 && crop.y <= 0.5
+        && Math.abs(crop.width - image.naturalWidth) <= 1 && Math.abs(crop.height - image.naturalHeight) <= 1;
+    return {
+        x: shape.x + box.x * Math.cos(angle) - box.y * Math.sin(angle),
+        y: shape.y + box.x * Math.sin(angle) + box.y * Math.cos(angle),
+        width: box.width,
+        height: box.height,
+        crop: isWhole ? undefined : crop,
+    };
+};
+
+// One picture pixel per board unit, for the part of the picture the crop shows
+export const getNaturalSize = (shape: Shape, image: HTMLImageElement): Partial<Shape> => {
+    const crop = getImageCrop(shape, image);
+    return { width: crop.width, height: crop.height };
+};
@@ -0,0 +1,172 @@
+/*
+ * Every action the keyboard and the command palette can run, with its default keys.
+ * A binding is written like "Mod+Shift+Z": modifiers in a fixed order, then the key.
+ * Mod is Ctrl, or Cmd on a Mac. Users can rebind any command; only their changes are stored.
+ */
+
+export interface CommandDefinition {
+    id: string;
+    label: string;
+    category: 'Tools' | 'Edit' | 'Arrange' | 'View' | 'Board';
+    bindings: string[];
+}
+
+export const COMMANDS = [
+    { id: 'tool.cursor', label: 'Select', category: 'Tools', bindings: ['V'] },
+    { id: 'tool.draw', label: 'Pencil', category: 'Tools', bindings: ['P'] },
+    { id: 'tool.rectangle', label: 'Rectangle', category: 'Tools', bindings: ['R'] },
+    { id: 'tool.circle', label: 'Circle', category: 'Tools', bindings: ['O'] },
+    { id: 'tool.text', label: 'Text', category: 'Tools', bindings: ['T'] },
+    { id: 'tool.eraser', label: 'Eraser', category: 'Tools', bindings: ['E'] },
+    { id: 'tool.pen', label: 'Pen', category: 'Tools', bindings: [] },
+    { id: 'tool.line', label: 'Line', category: 'Tools', bindings: ['L'] },
+    { id: 'tool.connector', label: 'Connector', category: 'Tools', bindings: ['C'] },
+    { id: 'tool.sticky', label: 'Sticky note', category: 'Tools', bindings: ['S'] },
+    { id: 'tool.frame', label: 'Frame', category: 'Tools', bindings: ['F'] },
+    { id: 'tool.image', label: 'Image', category: 'Tools', bindings: [] },
+    { id: 'tool.laser', label: 'Laser pointer', category: 'Tools', bindings: [] },
+    { id: 'tool.comment', label: 'Comment', category: 'Tools', bindings: ['M'] },
+    { id: 'edit.undo', label: 'Undo', category: 'Edit', bindings: ['Mod+Z'] },
+    { id: 'edit.redo', label: 'Redo', category: 'Edit', bindings: ['Mod+Shift+Z', 'Mod+Y'] },
+    { id: 'edit.selectAll', label: 'Select all', category: 'Edit', bindings: ['Mod+A'] },
+    { id: 'edit.copy', label: 'Copy', category: 'Edit', bindings: ['Mod+C'] },
+    { id: 'edit.cut', label: 'Cut', category: 'Edit', bindings: ['Mod+X'] },
+    { id: 'edit.paste', label: 'Paste', category: 'Edit', bindings: ['Mod+V'] },
+    { id: 'edit.duplicate', label: 'Duplicate', category: 'Edit', bindings: ['Mod+D'] },
+    { id: 'edit.delete', label: 'Delete', category: 'Edit', bindings: ['Delete', 'Backspace'] },
+    { id: 'edit.nudgeLeft', label: 'Nudge left', category: 'Edit', bindings: ['ArrowLeft'] },
+    { id: 'edit.nudgeRight', label: 'Nudge right', category: 'Edit', bindings: ['ArrowRight'] },
+    { id: 'edit.nudgeUp', label: 'Nudge up', category: 'Edit', bindings: ['ArrowUp'] },
+    { id: 'edit.nudgeDown', label: 'Nudge down', category: 'Edit', bindings: ['ArrowDown'] },
+    { id: 'edit.nudgeLeftFar', label: 'Nudge left 10px', category: 'Edit', bindings: ['Shift+ArrowLeft'] },
+    { id: 'edit.nudgeRightFar', label: 'Nudge right 10px', category: 'Edit', bindings: ['Shift+ArrowRight'] },
+    { id: 'edit.nudgeUpFar', label: 'Nudge up 10px', category: 'Edit', bindings: ['Shift+ArrowUp'] },
+    { id: 'edit.nudgeDownFar', label: 'Nudge down 10px', category: 'Edit', bindings: ['Shift+ArrowDown'] },
+    { id: 'arrange.group', label: 'Group', category: 'Arrange', bindings: ['Mod+G'] },
+    { id: 'arrange.ungroup', label: 'Ungroup', category: 'Arrange', bindings: ['Mod+Shift+G'] },
+    { id: 'arrange.front', label: 'Bring to front', category: 'Arrange', bindings: ['Mod+Shift+]'] },
+    { id: 'arrange.forward', label: 'Bring forward', category: 'Arrange', bindings: ['Mod+]'] },
+    { id: 'arrange.backward', label: 'Send backward', category: 'Arrange', bindings: ['Mod+['] },
+    { id: 'arrange.back', label: 'Send to back', category: 'Arrange', bindings: ['Mod+Shift+['] },
+    { id: 'view.zoomIn', label: 'Zoom in', category: 'View', bindings: ['Mod+='] },
+    { id: 'view.zoomOut', label: 'Zoom out', category: 'View', bindings: ['Mod+-'] },
+    { id: 'view.resetZoom', label: 'Reset zoom to 100%', category: 'View', bindings: ['Mod+0'] },
+    { id: 'view.zoomToFit', label: 'Zoom to fit content', category: 'View', bindings: ['Shift+1'] },
+    { id: 'view.zoomToSelection', label: 'Zoom to selection', category: 'View', bindings: ['Shift+2'] },
+    { id: 'view.toggleGridSnap', label: 'Toggle snap to grid', category: 'View', bindings: [] },
+    { id: 'view.toggleMinimap', label: 'Toggle minimap', category: 'View', bindings: [] },
+    { id: 'view.toggleLayers', label: 'Toggle layers panel', category: 'View', bindings: [] },
+    { id: 'view.toggleSlides', label: 'Toggle slides panel', category: 'View', bindings: [] },
+    { id: 'view.toggleComments', label: 'Toggle comments panel', category: 'View', bindings: [] },
+    { id: 'view.present', label: 'Start presentation', category: 'View', bindings: ['Mod+Alt+P'] },
+    { id: 'view.commandPalette', label: 'Command palette', category: 'View', bindings: ['Mod+K'] },
+    { id: 'board.save', label: 'Save as .json', category: 'Board', bindings: ['Mod+S'] },
+    { id: 'board.open', label: 'Open .json', category: 'Board', bindings: ['Mod+O'] },
+    { id: 'board.export', label: 'Export', category: 'Board', bindings: ['Mod+Shift+E'] },
+    { id: 'board.history', label: 'Version history', category: 'Board', bindings: [] },
+] as const satisfies readonly CommandDefinition[];
+
+export type CommandId = (typeof COMMANDS)[number]['id'];
+
+// Bindings for every command, after the user's changes
+export type Keymap = Record<CommandId, string[]>;
+
+const KEYMAP_STORAGE_KEY = 'collaboration-intro-keymap';
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Shift', 'Alt'];
+
+// Keys named by where they sit rather than what they type, so Shift+1 stays "Shift+1" instead of "!"
+const CODE_KEYS: Record<string, string> = {
+    BracketLeft: '[',
+    BracketRight: ']',
+    Minus: '-',
+    Equal: '=',
+    Comma: ',',
+    Period: '.',
+    Slash: '/',
+    Backslash: '\\',
+    Semicolon: ';',
+    Quote: "'",
+    Backquote: '`',
+    Space: 'Space',
+};
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// The binding a key press stands for, or null for a lone modifier
+export const eventToBinding = (e: KeyboardEvent): string | null => {
+    if (MODIFIER_KEYS.includes(e.key)) return null;
+    const key = /^(Key[A-Z]|Digit\d)$/.test(e.code)
+        ? e.code.slice(-1)
+        : CODE_KEYS[e.code] ?? (e.key.length === 1 ? e.key.toUpperCase() : e.key);
+    return [
+        (e.ctrlKey || e.metaKey) && 'Mod',
+        e.altKey && 'Alt',
+        e.shiftKey && 'Shift',
+        key,
+    ].filter(Boolean).join('+');
+};
+
+// How a binding reads on this platform, e.g. "Ctrl+Shift+Z" or "⌘⇧Z"
+export const formatBinding = (binding: string) => {
+    const parts = binding.split('+').map((part, index, all) => {
+        // A binding can end in "+" itself, as in "Mod++"
+        if (part === '' && index === all.length - 1) return '+';
+        return part.replace(/^Arrow/, '');
+    }).filter(Boolean);
+    if (!isMac()) return parts.map((part) => (part === 'Mod' ? 'Ctrl' : part)).join('+');
+    const symbols: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' };
+    return parts.map((part) => symbols[part] ?? part).join('');
+};
+
+export const DEFAULT_KEYMAP = Object.fromEntries(
+    COMMANDS.map((command) => [command.id, [...command.bindings]])
+) as Keymap;
+
+// The user's changes from this browser on top of the defaults
+export const loadKeymap = (): Keymap => {
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(KEYMAP_STORAGE_KEY) ?? 'null');
+        if (stored && typeof stored === 'object') {
+            const keymap = { ...DEFAULT_KEYMAP };
+            COMMANDS.forEach(({ id }) => {
+                const bindings = stored[id];
+                if (Array.isArray(bindings) && bindings.every((binding) => typeof binding === 'string')) {
+                    keymap[id] = bindings;
+                }
+            });
+            return keymap;
+        }
+    } catch {
+        // Fall through to the defaults
+    }
+    return DEFAULT_KEYMAP;
+};
+
+export const saveKeymap = (keymap: Keymap) => {
+    const changes = Object.fromEntries(
+        COMMANDS
+            .filter(({ id }) => keymap[id].join('\n') !== DEFAULT_KEYMAP[id].join('\n'))
+            .map(({ id }) => [id, keymap[id]])
+    );
+    try {
+        window.localStorage.setItem(KEYMAP_STORAGE_KEY, JSON.stringify(changes));
+    } catch {
+        // Private browsing may block storage; the bindings then last for this visit only
+    }
+};
+
+export const findCommandForBinding = (keymap: Keymap, binding: string): CommandId | undefined =>
+    COMMANDS.find(({ id }) => keymap[id].includes(binding))?.id;
+
+// Gives `id` the binding, taking it away from any command that had it, so each key runs one command
+export const rebindCommand = (keymap: Keymap, id: CommandId, binding: string): Keymap => {
+    const next = { ...keymap };
+    COMMANDS.forEach((command) => {
+        if (next[command.id].includes(binding)) {
+            next[command.id] = next[command.id].filter((existing) => existing !== binding);
+        }
+    });
+    next[id] = [...next[id], binding];
+    return next;
+};
@@ -0,0 +1,47 @@
+import type { Shape } from './drawingTypes';
+import { getShapeBounds } from './geometry';
+import { shapeToSvg } from './sceneExport';
+
+// How a shape is listed in the panels: by name, next to a small picture of it
+
+const TYPE_LABELS: Record<Shape['type'], string> = {
+    rectangle: 'Rectangle',
+    circle: 'Circle',
+    ellipse: 'Ellipse',
+    line: 'Line',
+    diamond: 'Diamond',
+    triangle: 'Triangle',
+    star: 'Star',
+    cylinder: 'Cylinder',
+    cloud: 'Cloud',
+    icon: 'Icon',
+    text: 'Text',
+    image: 'Image',
+    pen: 'Pen path',
+    group: 'Group',
+    connector: 'Connector',
+    sticky: 'Sticky note',
+    frame: 'Frame',
+};
+
+// A given name, else the start of the shape's text, else what kind of shape it is
+export const getLayerName = (shape: Shape) => {
+    if (shape.name) return shape.name;
+    const firstLine = shape.type === 'connector' ? '' : (shape.text || '').split('\n')[0].trim();
+    return firstLine || TYPE_LABELS[shape.type];
+};
+
+const thumbnailCache = new WeakMap<Shape, string>();
+
+// The shape drawn on its own into a square, as a CSS image; shapes are immutable, so each is drawn once
+export const getThumbnail = (shape: Shape) => {
+    const cached = thumbnailCache.get(shape);
+    if (cached) return cached;
+    const bounds = getShapeBounds(shape);
+    const size = Math.max(bounds.width, bounds.height, 1);
+    const viewBox = [bounds.x + bounds.width / 2 - size / 2, bounds.y + bounds.height / 2 - size / 2, size, size].join(' ');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}">${shapeToSvg(shape)}</svg>`;
+    const thumbnail = `url("data:image/svg+xml,${encodeURIComponent(svg)}")`;
+    thumbnailCache.set(shape, thumbnail);
+    return thumbnail;
+};
@@ -0,0 +1,85 @@
+import type { Awareness } from 'y-protocols/awareness';
+import type { Point } from './drawingTypes';
+
+/*
+ * What each participant shares about themselves through the board's awareness channel.
+ * Unlike the scene, none of it is stored: it disappears as soon as the participant leaves.
+ */
+
+export interface PresenceUser {
+    name: string;
+    color: string;
+}
+
+// The stage offset and scale, plus the size of the view they apply to, so followers can match its center
+export interface PresenceViewport {
+    position: Point;
+    zoom: number;
+    width: number;
+    height: number;
+}
+
+export interface PresenceState {
+    user: PresenceUser;
+    // Pointer in world coordinates, or null while it is off the canvas
+    cursor: Point | null;
+    // Ids of the selected shapes, which may sit inside groups
+    selection: string[];
+    viewport: PresenceViewport | null;
+}
+
+export interface Peer extends PresenceState {
+    clientId: number;
+}
+
+const USER_STORAGE_KEY = 'collaboration-intro-user';
+
+export const PRESENCE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+const createUser = (): PresenceUser => ({
+    name: `Guest ${Math.floor(100 + Math.random() * 900)}`,
+    color: PRESENCE_COLORS[Math.floor(Math.random() * PRESENCE_COLORS.length)],
+});
+
+// The same name and color every visit from this browser
+export const loadLocalUser = (): PresenceUser => {
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(USER_STORAGE_KEY) ?? 'null');
+        if (stored && typeof stored.name === 'string' && typeof stored.color === 'string') return stored;
+    } catch {
+        // Fall through to a fresh identity
+    }
+    const user = createUser();
+    saveLocalUser(user);
+    return user;
+};
+
+export const saveLocalUser = (user: PresenceUser) => {
+    try {
+        window.localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+    } catch {
+        // Private browsing may block storage; the identity then lasts for this visit only
+    }
+};
+
+// Everyone else on the board who has announced themselves
+export const readPeers = (awareness: Awareness): Peer[] =>
+    Array.from(awareness.getStates().entries())
+        .filter(([clientId, state]) => clientId !== awareness.clientID && state.user)
+        .map(([clientId, state]) => ({
+            clientId,
+            user: state.user,
+            cursor: state.cursor ?? null,
+            selection: state.selection ?? [],
+            viewport: state.viewport ?? null,
+        }));
+
+// Where a view of the given size has to sit to show the same center as `viewport`, at its zoom or at `zoom`
+export const matchViewport = (viewport: PresenceViewport, width: number, height: number, zoom = viewport.zoom): Point => {
+    const centerX = (viewport.width / 2 - viewport.position.x) / viewport.zoom;
+    const centerY = (viewport.height / 2 - viewport.position.y) / viewport.zoom;
+    return {
+        x: width / 2 - centerX * zoom,
+        y: height / 2 - centerY * zoom,
+    };
+};
@@ -0,0 +1,100 @@
+import type { TextRun } from './drawingTypes';
+
+// Converts text runs to and from the HTML of the inline text editor
+
+type RunStyle = Omit<TextRun, 'text'>;
+
+const STYLE_KEYS: Array<keyof RunStyle> = ['bold', 'italic', 'underline', 'link'];
+
+// Only links that open a page or a mail client; anything else could run script when clicked
+export const isSafeLink = (href: string) => /^(https?:|mailto:)/i.test(href.trim());
+
+// Runs from files, pasted boards or other peers may carry any link; the unsafe ones are dropped
+export const dropUnsafeLinks = (runs: TextRun[]) =>
+    runs.some((run) => run.link && !isSafeLink(run.link))
+        ? runs.map(({ link, ...run }) => (link && isSafeLink(link) ? { ...run, link } : run))
+        : runs;
+
+export const hasInlineStyles = (runs: TextRun[]) => runs.some((run) => STYLE_KEYS.some((key) => run[key]));
+
+const escapeHtml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const runsToHtml = (runs: TextRun[]) =>
+    runs
+        .map((run) => {
+            let html = escapeHtml(run.text).replace(/\n/g, '<br>');
+            if (run.underline) html = `<u>${html}</u>`;
+            if (run.italic) html = `<i>${html}</i>`;
+            if (run.bold) html = `<b>${html}</b>`;
+            if (run.link && isSafeLink(run.link)) html = `<a href="${escapeHtml(run.link)}">${html}</a>`;
+            return html;
+        })
+        .join('');
+
+const BLOCK_TAGS = ['DIV', 'P', 'LI'];
+
+// Styles an element adds to the text inside it, from tags or from inline CSS the browser chose to write
+const readElementStyle = (element: HTMLElement, inherited: RunStyle): RunStyle => {
+    const style = { ...inherited };
+    const tag = element.tagName;
+    const weight = element.style.fontWeight;
+    if (tag === 'B' || tag === 'STRONG' || weight === 'bold' || Number(weight) >= 600) style.bold = true;
+    if (tag === 'I' || tag === 'EM' || element.style.fontStyle === 'italic') style.italic = true;
+    if (tag === 'U' || element.style.textDecoration.includes('underline')) style.underline = true;
+    const href = tag === 'A' ? element.getAttribute('href') : null;
+    if (href && isSafeLink(href)) style.link = href.trim();
+    return style;
+};
+
+const sameStyle = (a: RunStyle, b: RunStyle) => STYLE_KEYS.every((key) => (a[key] || undefined) === (b[key] || undefined));
+
+// Merges neighbours with the same style and leaves out styles that are off, so equal texts compare equal
+export const normalizeRuns = (runs: TextRun[]): TextRun[] => {
+    const merged: TextRun[] = [];
+    runs.forEach((run) => {
+        if (!run.text) return;
+        const last = merged[merged.length - 1];
+        if (last && sameStyle(last, run)) {
+            last.text += run.text;
+            return;
+        }
+        const clean: TextRun = { text: run.text };
+        STYLE_KEYS.forEach((key) => {
+            if (run[key]) Object.assign(clean, { [key]: run[key] });
+        });
+        merged.push(clean);
+    });
+    return merged;
+};
+
+/**
+ * Reads the runs back out of the editor. Line breaks come from <br>s and from the blocks some browsers
+ * wrap new lines in; the <br> browsers keep at the very end so the last line can be shown is dropped.
+ */
+export const readRunsFromHtml = (root: HTMLElement): TextRun[] => {
+    const runs: TextRun[] = [];
+    const endsWithBreak = () => runs.length === 0 || runs[runs.length - 1].text.endsWith('\n');
+
+    const walk = (node: Node, style: RunStyle) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            runs.push({ ...style, text: node.textContent || '' });
+            return;
+        }
+        if (!(node instanceof HTMLElement)) return;
+        if (node.tagName === 'BR') {
+            runs.push({ ...style, text: '\n' });
+            return;
+        }
+        if (BLOCK_TAGS.includes(node.tagName) && !endsWithBreak()) {
+            runs.push({ ...style, text: '\n' });
+        }
+        const childStyle = readElementStyle(node, style);
+        node.childNodes.forEach((child) => walk(child, childStyle));
+    };
+    root.childNodes.forEach((child) => walk(child, {}));
+
+    const last = runs[runs.length - 1];
+    if (last?.text.endsWith('\n')) last.text = last.text.slice(0, -1);
+    return normalizeRuns(runs);
+};
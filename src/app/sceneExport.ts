@@ -0,0 +1,485 @@
+import type { ArrowheadType, DrawLine, Point, Scene, Shape } from './drawingTypes';
+import { normalizeBounds, type Bounds } from './geometry';
+import { FREEHAND_TENSION, getLineStyle, getStrokeOutline, usesPressure } from './brush';
+import {
+    CONNECTOR_BAR_SIZE,
+    CONNECTOR_DOT_RADIUS,
+    CONNECTOR_LABEL_FONT_SIZE,
+    getConnectorLabelBounds,
+    getConnectorTip,
+} from './connectors';
+import { FRAME_TITLE_COLOR, FRAME_TITLE_FONT_SIZE, FRAME_TITLE_OFFSET, getFrameBounds, getFrameMembers } from './frames';
+import { DEFAULT_FONT_SIZE, LINK_COLOR, layoutText } from './textLayout';
+import { STICKY_LINE_HEIGHT, STICKY_PADDING, STICKY_TEXT_COLOR, layoutStickyText } from './stickyNotes';
+import { PATH_SHAPE_TYPES, getShapePath } from './shapeLibrary';
+import { ICON_VIEWBOX, findIcon } from './shapeIcons';
+import { getLoadedAsset } from './assetStore';
+import { getUncroppedBounds } from './images';
+import { isSafeLink } from './richText';
+
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+export type ExportScope = 'scene' | 'selection' | 'viewport' | 'frame';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    scope: ExportScope;
+    // The frame to export, for the 'frame' scope
+    frameId?: string;
+    pixelRatio: number;
+    includeGrid: boolean;
+}
+
+const GRID_SPACING = 50;
+const GRID_DOT_SIZE = 2;
+const ARROW_POINTER_SIZE = 10;
+
+const escapeXml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+const attrs = (values: Record<string, string | number | undefined>) =>
+    Object.entries(values)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+        .join(' ');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Same spline Konva draws for a Line with `tension`, so exported strokes match the canvas
+const getControlPoints = (x0: number, y0: number, x1: number, y1: number, x2: number, y2: number, t: number) => {
+    const d01 = Math.hypot(x1 - x0, y1 - y0);
+    const d12 = Math.hypot(x2 - x1, y2 - y1);
+    const fa = (t * d01) / (d01 + d12);
+    const fb = (t * d12) / (d01 + d12);
+    return [x1 - fa * (x2 - x0), y1 - fa * (y2 - y0), x1 + fb * (x2 - x0), y1 + fb * (y2 - y0)];
+};
+
+export const getTensionPath = (points: number[], tension: number) => {
+    if (points.length < 2) return '';
+    const parts = [`M ${round(points[0])} ${round(points[1])}`];
+    if (tension === 0 || points.length <= 4) {
+        for (let i = 2; i < points.length; i += 2) {
+            parts.push(`L ${round(points[i])} ${round(points[i + 1])}`);
+        }
+        return parts.join(' ');
+    }
+
+    const tp: number[] = [];
+    for (let n = 2; n < points.length - 2; n += 2) {
+        const cp = getControlPoints(points[n - 2], points[n - 1], points[n], points[n + 1], points[n + 2], points[n + 3], tension);
+        if (isNaN(cp[0])) continue;
+        tp.push(cp[0], cp[1], points[n], points[n + 1], cp[2], cp[3]);
+    }
+    if (tp.length === 0) {
+        parts.push(`L ${round(points[points.length - 2])} ${round(points[points.length - 1])}`);
+        return parts.join(' ');
+    }
+
+    parts.push(`Q ${tp.slice(0, 4).map(round).join(' ')}`);
+    let n = 4;
+    while (n < tp.length - 2) {
+        parts.push(`C ${tp.slice(n, n + 6).map(round).join(' ')}`);
+        n += 6;
+    }
+    parts.push(`Q ${round(tp[tp.length - 2])} ${round(tp[tp.length - 1])} ${round(points[points.length - 2])} ${round(points[points.length - 1])}`);
+    return parts.join(' ');
+};
+
+const arrowHead = (from: Point, to: Point, color: string) => {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const baseX = to.x - Math.cos(angle) * ARROW_POINTER_SIZE;
+    const baseY = to.y - Math.sin(angle) * ARROW_POINTER_SIZE;
+    const offsetX = Math.sin(angle) * (ARROW_POINTER_SIZE / 2);
+    const offsetY = -Math.cos(angle) * (ARROW_POINTER_SIZE / 2);
+    const points = [
+        [to.x, to.y],
+        [baseX + offsetX, baseY + offsetY],
+        [baseX - offsetX, baseY - offsetY],
+    ];
+    return `<polygon ${attrs({ points: points.map((p) => p.map(round).join(',')).join(' '), fill: color, stroke: color })} />`;
+};
+
+const connectorEndToSvg = (points: Point[], at: 'start' | 'end', type: ArrowheadType, shape: Shape) => {
+    const { tip, from, angle } = getConnectorTip(points, at);
+    switch (type) {
+        case 'arrow':
+            return arrowHead(from, tip, shape.stroke);
+        case 'dot':
+            return `<circle ${attrs({ cx: round(tip.x), cy: round(tip.y), r: CONNECTOR_DOT_RADIUS, fill: shape.stroke })} />`;
+        case 'bar': {
+            const dx = (Math.sin(angle) * CONNECTOR_BAR_SIZE) / 2;
+            const dy = (-Math.cos(angle) * CONNECTOR_BAR_SIZE) / 2;
+            return `<line ${attrs({
+                x1: round(tip.x + dx),
+                y1: round(tip.y + dy),
+                x2: round(tip.x - dx),
+                y2: round(tip.y - dy),
+                stroke: shape.stroke,
+                'stroke-width': shape.strokeWidth,
+            })} />`;
+        }
+        default:
+            return '';
+    }
+};
+
+const connectorToSvg = (shape: Shape) => {
+    const points = shape.points || [];
+    if (points.length < 2) return '';
+    const path = `<polyline ${attrs({
+        points: points.map((point) => `${round(point.x)},${round(point.y)}`).join(' '),
+        fill: 'none',
+        stroke: shape.stroke,
+        'stroke-width': shape.strokeWidth,
+        'stroke-linecap': 'round',
+        'stroke-linejoin': 'round',
+    })} />`;
+    let label = '';
+    if (shape.text) {
+        const box = getConnectorLabelBounds(points, shape.text);
+        label = `<rect ${attrs({ x: round(box.x), y: round(box.y), width: round(box.width), height: round(box.height), fill: 'white' })} />`
+            + `<text ${attrs({
+                x: round(box.x + box.width / 2),
+                y: round(box.y + box.height / 2),
+                'font-family': 'Arial',
+                'font-size': CONNECTOR_LABEL_FONT_SIZE,
+                fill: shape.stroke,
+                'text-anchor': 'middle',
+                'dominant-baseline': 'middle',
+            })}>${escapeXml(shape.text)}</text>`;
+    }
+    return `<g>${path}${connectorEndToSvg(points, 'start', shape.startArrow || 'none', shape)}`
+        + `${connectorEndToSvg(points, 'end', shape.endArrow || 'none', shape)}${label}</g>`;
+};
+
+// Konva turns rectangles, text and images around their own x/y
+const rotationTransform = (shape: Shape) =>
+    shape.rotation ? `rotate(${round(shape.rotation)} ${round(shape.x)} ${round(shape.y)})` : undefined;
+
+// For shapes drawn relative to their own x/y: moves there, then turns like Konva does
+const localTransform = (shape: Shape) =>
+    [`translate(${round(shape.x)} ${round(shape.y)})`, shape.rotation ? `rotate(${round(shape.rotation)})` : ''].filter(Boolean).join(' ');
+
+// The whole picture, placed so its crop covers the shape's box, and clipped to that box when cropped
+const imageToSvg = (shape: Shape) => {
+    const loaded = getLoadedAsset(shape.assetId);
+    if (!loaded) return '';
+    const full = getUncroppedBounds(shape, loaded.image);
+    const clipId = `image-crop-${shape.id}`;
+    const image = `<image ${attrs({
+        x: round(full.x),
+        y: round(full.y),
+        width: round(full.width),
+        height: round(full.height),
+        href: loaded.asset.dataUrl,
+        preserveAspectRatio: 'none',
+        'clip-path': shape.crop ? `url(#${clipId})` : undefined,
+    })} />`;
+    const clip = shape.crop
+        ? `<clipPath ${attrs({ id: clipId })}><rect ${attrs({ width: round(shape.width), height: round(shape.height) })} /></clipPath>`
+        : '';
+    return `<g ${attrs({ transform: localTransform(shape) })}>${clip}${image}</g>`;
+};
+
+// The icon's 24 by 24 drawing stretched over the shape's box
+const iconToSvg = (shape: Shape) => {
+    const icon = findIcon(shape.icon);
+    if (!icon) return '';
+    const box = normalizeBounds(0, 0, shape.width, shape.height);
+    const transform = `${localTransform(shape)} translate(${round(box.x)} ${round(box.y)}) `
+        + `scale(${round(box.width / ICON_VIEWBOX)} ${round(box.height / ICON_VIEWBOX)})`;
+    return `<path ${attrs({ d: icon.path, fill: shape.fill, transform })} />`;
+};
+
+// One tspan per styled segment, each line vertically centered in its row as on the canvas
+const textToSvg = (shape: Shape) => {
+    const layout = layoutText(shape);
+    const segments = layout.lines.flatMap((line) =>
+        line.segments.map(({ run, text, x }) => {
+            const tspan = `<tspan ${attrs({
+                x: round(shape.x + x),
+                y: round(shape.y + line.y + layout.lineHeight / 2),
+                'font-weight': run.bold ? 'bold' : undefined,
+                'font-style': run.italic ? 'italic' : undefined,
+                'text-decoration': run.underline || run.link ? 'underline' : undefined,
+                fill: run.link ? LINK_COLOR : undefined,
+            })}>${escapeXml(text)}</tspan>`;
+            return run.link && isSafeLink(run.link) ? `<a ${attrs({ href: run.link })}>${tspan}</a>` : tspan;
+        })
+    );
+    return `<text ${attrs({
+        'font-family': shape.fontFamily || 'Arial',
+        'font-size': shape.fontSize || DEFAULT_FONT_SIZE,
+        fill: shape.fill,
+        'dominant-baseline': 'middle',
+        'xml:space': 'preserve',
+        transform: rotationTransform(shape),
+    })}>${segments.join('')}</text>`;
+};
+
+// The note's text is wrapped ahead of time and each line centered in its row, as Konva draws it
+const stickyToSvg = (shape: Shape) => {
+    const { fontSize, lines } = layoutStickyText(shape);
+    const rowHeight = fontSize * STICKY_LINE_HEIGHT;
+    const top = shape.y + STICKY_PADDING + (Math.abs(shape.height) - STICKY_PADDING * 2 - lines.length * rowHeight) / 2;
+    const rows = lines.map((row, index) =>
+        `<tspan ${attrs({ x: round(shape.x + shape.width / 2), y: round(top + rowHeight * index + rowHeight / 2) })}>${escapeXml(row)}</tspan>`
+    );
+    const transform = rotationTransform(shape);
+    return `<g${transform ? ` ${attrs({ transform })}` : ''}>`
+        + `<rect ${attrs({ x: round(shape.x), y: round(shape.y), width: round(shape.width), height: round(shape.height), fill: shape.fill })} />`
+        + `<text ${attrs({
+            'font-family': shape.fontFamily || 'Arial',
+            'font-size': fontSize,
+            fill: STICKY_TEXT_COLOR,
+            'text-anchor': 'middle',
+            'dominant-baseline': 'middle',
+        })}>${rows.join('')}</text></g>`;
+};
+
+const frameToSvg = (frame: Shape) => {
+    const { x, y, width, height } = getFrameBounds(frame);
+    return `<g><rect ${attrs({
+        x: round(x),
+        y: round(y),
+        width: round(width),
+        height: round(height),
+        fill: frame.fill || 'none',
+        stroke: frame.stroke,
+        'stroke-width': frame.strokeWidth,
+    })} /><text ${attrs({
+        x: round(x),
+        y: round(y - FRAME_TITLE_OFFSET + FRAME_TITLE_FONT_SIZE / 2),
+        'font-family': 'Arial',
+        'font-size': FRAME_TITLE_FONT_SIZE,
+        fill: FRAME_TITLE_COLOR,
+        'dominant-baseline': 'middle',
+    })}>${escapeXml(frame.text || '')}</text></g>`;
+};
+
+const lineToSvg = (line: DrawLine) => {
+    const style = getLineStyle(line);
+    const blending = {
+        opacity: style.opacity === 1 ? undefined : style.opacity,
+        style: style.composite ? `mix-blend-mode: ${style.composite}` : undefined,
+    };
+    // Pressure strokes are filled outlines, as on the canvas
+    if (usesPressure(line)) {
+        return `<path ${attrs({ d: `${getTensionPath(getStrokeOutline(line), FREEHAND_TENSION)} Z`, fill: line.color, ...blending })} />`;
+    }
+    return `<path ${attrs({
+        d: getTensionPath(line.points, FREEHAND_TENSION),
+        fill: 'none',
+        stroke: line.color,
+        'stroke-width': style.width,
+        'stroke-dasharray': style.dash?.join(' '),
+        'stroke-linecap': 'round',
+        'stroke-linejoin': 'round',
+        ...blending,
+    })} />`;
+};
+
+// Hidden shapes are left out of exports, as they are off the canvas
+const isShown = (shape: Shape) => !shape.hidden;
+
+export const shapeToSvg = (shape: Shape): string => {
+    if (PATH_SHAPE_TYPES.includes(shape.type)) {
+        return `<path ${attrs({
+            d: getShapePath(shape),
+            fill: shape.fill,
+            stroke: shape.stroke,
+            'stroke-width': shape.strokeWidth,
+            'stroke-linejoin': 'round',
+            transform: localTransform(shape),
+        })} />`;
+    }
+    switch (shape.type) {
+        case 'rectangle':
+            return `<rect ${attrs({
+                x: round(Math.min(shape.x, shape.x + shape.width)),
+                y: round(Math.min(shape.y, shape.y + shape.height)),
+                width: round(Math.abs(shape.width)),
+                height: round(Math.abs(shape.height)),
+                rx: shape.cornerRadius,
+                fill: shape.fill,
+                stroke: shape.stroke,
+                'stroke-width': shape.strokeWidth,
+                transform: rotationTransform(shape),
+            })} />`;
+        case 'line':
+            return `<polyline ${attrs({
+                points: (shape.points || []).map((point) => `${round(point.x)},${round(point.y)}`).join(' '),
+                fill: 'none',
+                stroke: shape.stroke,
+                'stroke-width': shape.strokeWidth,
+                'stroke-linecap': 'round',
+                'stroke-linejoin': 'round',
+                transform: localTransform(shape),
+            })} />`;
+        case 'icon':
+            return iconToSvg(shape);
+        case 'circle':
+            return `<circle ${attrs({
+                cx: round(shape.x + shape.width / 2),
+                cy: round(shape.y + shape.height / 2),
+                r: round(Math.abs(shape.width) / 2),
+                fill: shape.fill,
+                stroke: shape.stroke,
+                'stroke-width': shape.strokeWidth,
+            })} />`;
+        case 'text':
+            return textToSvg(shape);
+        case 'image':
+            return imageToSvg(shape);
+        case 'pen': {
+            const points = shape.points || [];
+            if (points.length === 0) return '';
+            const handles = points.map((point) =>
+                `<circle ${attrs({ cx: round(point.x), cy: round(point.y), r: 5, fill: shape.stroke, stroke: 'black', 'stroke-width': 1 })} />`
+            );
+            const path = points.length > 1
+                ? `<polyline ${attrs({
+                    points: points.map((point) => `${round(point.x)},${round(point.y)}`).join(' '),
+                    fill: 'none',
+                    stroke: shape.stroke,
+                    'stroke-width': shape.strokeWidth,
+                    'stroke-linecap': 'round',
+                    'stroke-linejoin': 'round',
+                })} />${arrowHead(points[points.length - 2], points[points.length - 1], shape.stroke)}`
+                : '';
+            return `<g>${handles.join('')}${path}</g>`;
+        }
+        case 'group': {
+            const transform = [
+                `translate(${round(shape.x)} ${round(shape.y)})`,
+                shape.rotation ? `rotate(${round(shape.rotation)})` : '',
+                shape.scaleX !== undefined || shape.scaleY !== undefined
+                    ? `scale(${round(shape.scaleX ?? 1)} ${round(shape.scaleY ?? 1)})`
+                    : '',
+            ].filter(Boolean).join(' ');
+            return `<g ${attrs({ transform })}>${(shape.children || []).filter(isShown).map(shapeToSvg).join('')}</g>`;
+        }
+        case 'connector':
+            return connectorToSvg(shape);
+        case 'sticky':
+            return stickyToSvg(shape);
+        case 'frame':
+            return frameToSvg(shape);
+        default:
+            return '';
+    }
+};
+
+// Shapes in canvas order, with each frame's contents drawn right after it and cut off at its edges
+const shapesToSvg = (shapes: Shape[]) => {
+    const members = getFrameMembers(shapes);
+    const memberIds = new Set(Array.from(members.values()).flat().map((shape) => shape.id));
+    return shapes
+        .filter((shape) => !memberIds.has(shape.id) && isShown(shape))
+        .map((shape) => {
+            const contents = members.get(shape.id);
+            if (!contents) return shapeToSvg(shape);
+            const { x, y, width, height } = getFrameBounds(shape);
+            const clipId = `frame-clip-${shape.id}`;
+            return `${shapeToSvg(shape)}<clipPath ${attrs({ id: clipId })}>`
+                + `<rect ${attrs({ x: round(x), y: round(y), width: round(width), height: round(height) })} /></clipPath>`
+                + `<g ${attrs({ 'clip-path': `url(#${clipId})` })}>${contents.filter(isShown).map(shapeToSvg).join('')}</g>`;
+        });
+};
+
+/**
+ * Renders the scene as a standalone SVG document whose viewBox is `bounds` in world coordinates.
+ * Items keep the canvas paint order: freehand lines first, then shapes.
+ */
+export const renderSceneToSvg = (scene: Scene, bounds: Bounds, includeGrid: boolean) => {
+    const { x, y, width, height } = bounds;
+    // One dot per tile, with the tile shifted so dots land on multiples of the grid spacing
+    const grid = includeGrid
+        ? `<defs><pattern ${attrs({
+            id: 'grid',
+            x: -GRID_SPACING / 2,
+            y: -GRID_SPACING / 2,
+            width: GRID_SPACING,
+            height: GRID_SPACING,
+            patternUnits: 'userSpaceOnUse',
+        })}><circle ${attrs({ cx: GRID_SPACING / 2, cy: GRID_SPACING / 2, r: GRID_DOT_SIZE, fill: 'red' })} /></pattern></defs>`
+            + `<rect ${attrs({ x, y, width, height, fill: 'url(#grid)' })} />`
+        : '';
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" ${attrs({
+            width: round(width),
+            height: round(height),
+            viewBox: [x, y, width, height].map(round).join(' '),
+        })}>`,
+        `<rect ${attrs({ x, y, width, height, fill: 'white' })} />`,
+        grid,
+        ...scene.lines.map(lineToSvg),
+        ...shapesToSvg(scene.shapes),
+        '</svg>',
+    ].join('');
+};
+
+const svgToPng = (svg: string, width: number, height: number, pixelRatio: number) =>
+    new Promise<Blob>((resolve, reject) => {
+        const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+        const img = new window.Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(width * pixelRatio));
+            canvas.height = Math.max(1, Math.round(height * pixelRatio));
+            const ctx = canvas.getContext('2d');
+            URL.revokeObjectURL(url);
+            if (!ctx) {
+                reject(new Error('Canvas is not available for PNG export.'));
+                return;
+            }
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode the PNG.'))), 'image/png');
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Failed to render the board for PNG export.'));
+        };
+        img.src = url;
+    });
+
+const svgToPdf = async (svg: string, width: number, height: number) => {
+    // Both libraries are heavy, so only load them when a PDF is actually requested
+    const [{ jsPDF }, { svg2pdf }] = await Promise.all([import('jspdf'), import('svg2pdf.js')]);
+    const pdf = new jsPDF({
+        unit: 'px',
+        format: [width, height],
+        orientation: width > height ? 'landscape' : 'portrait',
+        hotfixes: ['px_scaling'],
+    });
+
+    // svg2pdf reads computed styles, so the SVG has to be in the document while it renders
+    const container = document.createElement('div');
+    container.style.position = 'fixed';
+    container.style.left = '-100000px';
+    container.innerHTML = svg;
+    document.body.appendChild(container);
+    try {
+        await svg2pdf(container.firstElementChild as SVGElement, pdf, { x: 0, y: 0, width, height });
+    } finally {
+        document.body.removeChild(container);
+    }
+    return pdf.output('blob');
+};
+
+export const exportScene = async (scene: Scene, bounds: Bounds, options: ExportOptions): Promise<Blob> => {
+    const svg = renderSceneToSvg(scene, bounds, options.includeGrid);
+    switch (options.format) {
+        case 'svg':
+            return new Blob([svg], { type: 'image/svg+xml' });
+        case 'png':
+            return svgToPng(svg, bounds.width, bounds.height, options.pixelRatio);
+        case 'pdf':
+            return svgToPdf(svg, bounds.width, bounds.height);
+    }
+};
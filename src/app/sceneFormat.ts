@@ -0,0 +1,194 @@
+import type { CommentThread, DrawLine, Scene, Shape, Slide, Viewport } from './drawingTypes';
+import { createAsset, loadAsset, type SceneAsset } from './assetStore';
+import { dropUnsafeLinks } from './richText';
+
+export const SCENE_FORMAT = 'collaboration-intro/scene';
+export const CURRENT_SCENE_VERSION = 8;
+
+// Shapes as written to disk; images reference an entry in `assets`
+export type SerializedShape = Omit<Shape, 'children'> & { children?: SerializedShape[] };
+
+export interface SceneDocument {
+    format: typeof SCENE_FORMAT;
+    version: typeof CURRENT_SCENE_VERSION;
+    savedAt: string;
+    viewport: Viewport;
+    shapes: SerializedShape[];
+    lines: DrawLine[];
+    slides: Slide[];
+    comments: CommentThread[];
+    assets: Record<string, SceneAsset>;
+}
+
+// Lines had no ids before version 5
+type LegacyDrawLine = Omit<DrawLine, 'id'>;
+
+// Version 1 was a plain dump of the board: image data stayed inline in the shape's `fill`
+interface SceneDocumentV1 {
+    version: 1;
+    viewport: Viewport;
+    shapes: Shape[];
+    lines: LegacyDrawLine[];
+}
+
+type LegacySceneDocument<V extends number> = Omit<SceneDocument, 'version' | 'lines' | 'slides' | 'comments'> & {
+    version: V;
+    lines: LegacyDrawLine[];
+};
+type SceneDocumentV2 = LegacySceneDocument<2>;
+type SceneDocumentV3 = LegacySceneDocument<3>;
+type SceneDocumentV4 = LegacySceneDocument<4>;
+type SceneDocumentV5 = Omit<SceneDocument, 'version' | 'slides' | 'comments'> & { version: 5 };
+type SceneDocumentV6 = Omit<SceneDocument, 'version' | 'comments'> & { version: 6 };
+type SceneDocumentV7 = Omit<SceneDocument, 'version' | 'comments'> & { version: 7 };
+
+interface VersionedDocument {
+    version: number;
+}
+
+const extractAsset = async (dataUrl: string, assets: Record<string, SceneAsset>) => {
+    const asset = await createAsset(dataUrl);
+    assets[asset.id] = asset;
+    return asset.id;
+};
+
+const migrateV1ToV2 = async (doc: SceneDocumentV1): Promise<SceneDocumentV2> => {
+    const assets: Record<string, SceneAsset> = {};
+    const shapes = await Promise.all(
+        doc.shapes.map(async (shape): Promise<SerializedShape> => {
+            if (shape.type !== 'image') return shape;
+            return { ...shape, fill: '', assetId: await extractAsset(shape.fill, assets) };
+        })
+    );
+
+    return {
+        format: SCENE_FORMAT,
+        version: 2,
+        savedAt: new Date().toISOString(),
+        viewport: doc.viewport,
+        shapes,
+        lines: doc.lines,
+        assets,
+    };
+};
+
+// Version 3 added nested group shapes; every v2 document is already a valid v3 one
+const migrateV2ToV3 = (doc: SceneDocumentV2): SceneDocumentV3 => ({ ...doc, version: 3 });
+
+// Version 4 added connector shapes, which older documents never contain
+const migrateV3ToV4 = (doc: SceneDocumentV3): SceneDocumentV4 => ({ ...doc, version: 4 });
+
+// Version 5 gave freehand lines ids, so collaborators can edit them independently
+const migrateV4ToV5 = (doc: SceneDocumentV4): SceneDocumentV5 => ({
+    ...doc,
+    version: 5,
+    lines: doc.lines.map((line, index) => ({ ...line, id: `line-${index}` })),
+});
+
+// Version 6 added presentation slides; older boards have none
+const migrateV5ToV6 = (doc: SceneDocumentV5): SceneDocumentV6 => ({ ...doc, version: 6, slides: [] });
+
+// Version 7 added cropped images; older documents always show the whole image
+const migrateV6ToV7 = (doc: SceneDocumentV6): SceneDocumentV7 => ({ ...doc, version: 7 });
+
+// Version 8 added comment threads; older boards have none
+const migrateV7ToV8 = (doc: SceneDocumentV7): SceneDocument => ({ ...doc, version: 8, comments: [] });
+
+// Each entry upgrades a document from its key version to the next one
+const migrations: Record<number, (doc: VersionedDocument) => VersionedDocument | Promise<VersionedDocument>> = {
+    1: (doc) => migrateV1ToV2(doc as SceneDocumentV1),
+    2: (doc) => migrateV2ToV3(doc as SceneDocumentV2),
+    3: (doc) => migrateV3ToV4(doc as SceneDocumentV3),
+    4: (doc) => migrateV4ToV5(doc as SceneDocumentV4),
+    5: (doc) => migrateV5ToV6(doc as SceneDocumentV5),
+    6: (doc) => migrateV6ToV7(doc as SceneDocumentV6),
+    7: (doc) => migrateV7ToV8(doc as SceneDocumentV7),
+};
+
+const dropUnsafeShapeLinks = (shape: SerializedShape): SerializedShape => ({
+    ...shape,
+    ...(shape.runs && { runs: dropUnsafeLinks(shape.runs) }),
+    ...(shape.children && { children: shape.children.map(dropUnsafeShapeLinks) }),
+});
+
+export const migrateSceneDocument = async (raw: unknown): Promise<SceneDocument> => {
+    if (typeof raw !== 'object' || raw === null || typeof (raw as VersionedDocument).version !== 'number') {
+        throw new Error('This file is not a whiteboard scene.');
+    }
+
+    let doc = raw as VersionedDocument;
+    if (doc.version > CURRENT_SCENE_VERSION) {
+        throw new Error(`This scene was saved by a newer version (v${doc.version}) of the app.`);
+    }
+
+    while (doc.version < CURRENT_SCENE_VERSION) {
+        const migrate = migrations[doc.version];
+        if (!migrate) {
+            throw new Error(`No migration from scene version ${doc.version}.`);
+        }
+        doc = await migrate(doc);
+    }
+
+    const scene = doc as SceneDocument;
+    if (!Array.isArray(scene.shapes) || !Array.isArray(scene.lines) || !Array.isArray(scene.slides) || !Array.isArray(scene.comments)) {
+        throw new Error('The scene is missing its shapes, lines, slides or comments.');
+    }
+    return { ...scene, shapes: scene.shapes.map(dropUnsafeShapeLinks) };
+};
+
+export const parseSceneDocument = (json: string) => migrateSceneDocument(JSON.parse(json));
+
+// The data of every picture the shapes show, from this page or else this browser's store
+const collectAssets = async (shapes: Shape[], assets: Record<string, SceneAsset>): Promise<void> => {
+    await Promise.all(
+        shapes.map(async (shape) => {
+            if (shape.children) return collectAssets(shape.children, assets);
+            if (shape.type !== 'image' || !shape.assetId) return;
+            // A picture that cannot be decoded is left out rather than failing the whole save
+            const loaded = await loadAsset(shape.assetId).catch(() => null);
+            if (loaded) assets[loaded.asset.id] = loaded.asset;
+        })
+    );
+};
+
+// The scene with image shapes referring to assets it does not carry, e.g. for versions of a board that has them
+export const serializeSceneWithoutAssets = (scene: Scene, viewport: Viewport): SceneDocument => ({
+    format: SCENE_FORMAT,
+    version: CURRENT_SCENE_VERSION,
+    savedAt: new Date().toISOString(),
+    viewport,
+    shapes: scene.shapes,
+    lines: scene.lines,
+    slides: scene.slides,
+    comments: scene.comments,
+    assets: {},
+});
+
+export const serializeScene = async (scene: Scene, viewport: Viewport): Promise<SceneDocument> => {
+    const assets: Record<string, SceneAsset> = {};
+    await collectAssets(scene.shapes, assets);
+    return { ...serializeSceneWithoutAssets(scene, viewport), assets };
+};
+
+const deserializeShape = async (
+    { children, ...shape }: SerializedShape,
+    assets: Record<string, SceneAsset>
+): Promise<Shape> => {
+    if (children) {
+        return { ...shape, children: await Promise.all(children.map((child) => deserializeShape(child, assets))) };
+    }
+    if (shape.type === 'image' && shape.assetId) {
+        await loadAsset(shape.assetId, assets[shape.assetId]?.dataUrl);
+    }
+    return shape;
+};
+
+// Rebuilds the live scene, adding its images to the asset store first so Konva can draw them right away
+export const deserializeScene = async (doc: SceneDocument): Promise<{ scene: Scene; viewport: Viewport }> => {
+    const shapes = await Promise.all(doc.shapes.map((shape) => deserializeShape(shape, doc.assets)));
+
+    return {
+        scene: { shapes, lines: doc.lines, slides: doc.slides, comments: doc.comments },
+        viewport: doc.viewport,
+    };
+};
@@ -0,0 +1,18 @@
+import { migrateSceneDocument, type SceneDocument } from './sceneFormat';
+import { SCENE_STORE, SHARED_BOARD_STORE, idbGet, idbPut } from './database';
+
+export const DEFAULT_BOARD_ID = 'default';
+
+export const saveSceneToStorage = (doc: SceneDocument, boardId = DEFAULT_BOARD_ID) =>
+    idbPut(SCENE_STORE, boardId, doc);
+
+export const loadSceneFromStorage = async (boardId = DEFAULT_BOARD_ID) => {
+    const stored = await idbGet<unknown>(SCENE_STORE, boardId);
+    return stored === undefined ? null : migrateSceneDocument(stored);
+};
+
+// Boards whose autosaved scene has had its one chance to fill the shared document; from then on the
+// shared document is the board, and the autosave only brings back this browser's view of it
+export const isBoardShared = async (boardId = DEFAULT_BOARD_ID) => (await idbGet<boolean>(SHARED_BOARD_STORE, boardId)) === true;
+
+export const markBoardShared = (boardId = DEFAULT_BOARD_ID) => idbPut(SHARED_BOARD_STORE, boardId, true);
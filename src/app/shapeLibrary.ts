@@ -0,0 +1,173 @@
+import type { Point, Shape } from './drawingTypes';
+import { normalizeBounds } from './geometry';
+
+/*
+ * Outlines of the diagram shapes drawn as paths. Each is described once, in a unit box, as runs of straight
+ * lines and elliptical arcs, which stay elliptical arcs when stretched over the shape's box.
+ * The same description gives the path drawn on the canvas and in exports, and the polygon hit-tests use.
+ */
+
+export const PATH_SHAPE_TYPES: Shape['type'][] = ['ellipse', 'diamond', 'triangle', 'star', 'cylinder', 'cloud'];
+
+export const DEFAULT_STAR_POINTS = 5;
+// Radius of the star's inner corners as a fraction of its outer radius
+export const DEFAULT_STAR_INNER_RADIUS = 0.5;
+export const DEFAULT_CORNER_RADIUS = 16;
+
+// How many straight pieces an arc becomes in a hit-test outline
+const ARC_SAMPLES = 12;
+
+// A step to `to`, straight or along a clockwise arc of an ellipse with the given radii
+interface Segment {
+    to: Point;
+    radii?: Point;
+}
+
+interface SubPath {
+    start: Point;
+    segments: Segment[];
+    closed: boolean;
+}
+
+const polygon = (points: Point[]): SubPath => ({
+    start: points[0],
+    segments: points.slice(1).map((to) => ({ to })),
+    closed: true,
+});
+
+const getStarCorners = (shape: Shape) => {
+    const count = Math.max(3, Math.round(shape.sides ?? DEFAULT_STAR_POINTS));
+    const inner = shape.innerRadius ?? DEFAULT_STAR_INNER_RADIUS;
+    return Array.from({ length: count * 2 }, (_, index) => {
+        const angle = -Math.PI / 2 + (index * Math.PI) / count;
+        const radius = index % 2 === 0 ? 0.5 : 0.5 * inner;
+        return { x: 0.5 + radius * Math.cos(angle), y: 0.5 + radius * Math.sin(angle) };
+    });
+};
+
+// Depth of a cylinder's top and bottom ellipses, as a fraction of its height
+const CYLINDER_CAP = 0.15;
+const CYLINDER_RADII = { x: 0.5, y: CYLINDER_CAP };
+
+const HALF = { x: 0.5, y: 0.5 };
+
+// Bumps of the cloud, going clockwise from its bottom left, sized so the cloud just fills its box
+const CLOUD_START = { x: 0.273, y: 0.927 };
+const CLOUD_BUMPS: Segment[] = [
+    { to: { x: 0.178, y: 0.408 }, radii: { x: 0.221, y: 0.26 } },
+    { to: { x: 0.431, y: 0.087 }, radii: { x: 0.21, y: 0.247 } },
+    { to: { x: 0.767, y: 0.136 }, radii: { x: 0.2, y: 0.235 } },
+    { to: { x: 0.914, y: 0.581 }, radii: { x: 0.21, y: 0.247 } },
+    { to: { x: 0.767, y: 0.927 }, radii: { x: 0.168, y: 0.198 } },
+    { to: CLOUD_START, radii: { x: 0.526, y: 0.618 } },
+];
+
+const describeShape = (shape: Shape): SubPath[] => {
+    switch (shape.type) {
+        case 'ellipse':
+            return [{
+                start: { x: 0, y: 0.5 },
+                segments: [{ to: { x: 1, y: 0.5 }, radii: HALF }, { to: { x: 0, y: 0.5 }, radii: HALF }],
+                closed: true,
+            }];
+        case 'diamond':
+            return [polygon([{ x: 0.5, y: 0 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }, { x: 0, y: 0.5 }])];
+        case 'triangle':
+            return [polygon([{ x: 0.5, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }])];
+        case 'star':
+            return [polygon(getStarCorners(shape))];
+        case 'cylinder':
+            // The body, then the front rim of the top, which is drawn over it
+            return [
+                {
+                    start: { x: 0, y: CYLINDER_CAP },
+                    segments: [
+                        { to: { x: 1, y: CYLINDER_CAP }, radii: CYLINDER_RADII },
+                        { to: { x: 1, y: 1 - CYLINDER_CAP } },
+                        { to: { x: 0, y: 1 - CYLINDER_CAP }, radii: CYLINDER_RADII },
+                    ],
+                    closed: true,
+                },
+                {
+                    start: { x: 1, y: CYLINDER_CAP },
+                    segments: [{ to: { x: 0, y: CYLINDER_CAP }, radii: CYLINDER_RADII }],
+                    closed: false,
+                },
+            ];
+        case 'cloud':
+            return [{ start: CLOUD_START, segments: CLOUD_BUMPS, closed: true }];
+        default:
+            return [];
+    }
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// SVG path data for the shape, relative to its x/y, for Konva's Path and for exports
+export const getShapePath = (shape: Shape) => {
+    const box = normalizeBounds(0, 0, shape.width, shape.height);
+    const place = (point: Point) => `${round(box.x + point.x * box.width)} ${round(box.y + point.y * box.height)}`;
+    return describeShape(shape)
+        .map((subPath) => {
+            const steps = subPath.segments.map((segment) => {
+                if (!segment.radii) return `L ${place(segment.to)}`;
+                return `A ${round(segment.radii.x * box.width)} ${round(segment.radii.y * box.height)} 0 0 1 ${place(segment.to)}`;
+            });
+            return `M ${place(subPath.start)} ${steps.join(' ')}${subPath.closed ? ' Z' : ''}`;
+        })
+        .join(' ');
+};
+
+// Points along a clockwise arc from `from` to `to`, not including `from`, in unit-box coordinates
+const sampleArc = (from: Point, to: Point, radii: Point): Point[] => {
+    // Work on a circle by squashing the ellipse, then stretch the samples back
+    const a = { x: from.x / radii.x, y: from.y / radii.y };
+    const b = { x: to.x / radii.x, y: to.y / radii.y };
+    const half = Math.hypot(b.x - a.x, b.y - a.y) / 2;
+    if (half === 0) return [to];
+    const offset = Math.sqrt(Math.max(0, 1 - half * half));
+    // Clockwise on screen keeps the center to the right of the direction of travel
+    const direction = { x: (b.x - a.x) / (half * 2), y: (b.y - a.y) / (half * 2) };
+    const center = { x: (a.x + b.x) / 2 - direction.y * offset, y: (a.y + b.y) / 2 + direction.x * offset };
+    const radius = Math.max(1, half);
+    const startAngle = Math.atan2(a.y - center.y, a.x - center.x);
+    let endAngle = Math.atan2(b.y - center.y, b.x - center.x);
+    if (endAngle <= startAngle) endAngle += Math.PI * 2;
+    return Array.from({ length: ARC_SAMPLES }, (_, index) => {
+        const angle = startAngle + ((endAngle - startAngle) * (index + 1)) / ARC_SAMPLES;
+        return {
+            x: (center.x + radius * Math.cos(angle)) * radii.x,
+            y: (center.y + radius * Math.sin(angle)) * radii.y,
+        };
+    });
+};
+
+// The shape's outer edge as a polygon relative to its x/y, with arcs flattened into short lines
+export const getShapeOutline = (shape: Shape): Point[] => {
+    const [outer] = describeShape(shape);
+    if (!outer) return [];
+    const box = normalizeBounds(0, 0, shape.width, shape.height);
+    const points = [outer.start];
+    outer.segments.forEach((segment) => {
+        const from = points[points.length - 1];
+        if (segment.radii) {
+            points.push(...sampleArc(from, segment.to, segment.radii));
+        } else {
+            points.push(segment.to);
+        }
+    });
+    return points.map((point) => ({ x: box.x + point.x * box.width, y: box.y + point.y * box.height }));
+};
+
+// Even-odd test, so a point inside the outline is inside the shape
+export const polygonContains = (points: Point[], point: Point) => {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i];
+        const b = points[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
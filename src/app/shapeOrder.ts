@@ -0,0 +1,54 @@
+import type { Shape } from './drawingTypes';
+
+// Z-order helpers: later entries in the array are drawn on top. Selected shapes keep their relative order.
+
+export const bringToFront = (shapes: Shape[], ids: string[]) => {
+    const rest = shapes.filter((shape) => !ids.includes(shape.id));
+    const selected = shapes.filter((shape) => ids.includes(shape.id));
+    if (selected.length === 0 || shapes.slice(rest.length).every((shape) => ids.includes(shape.id))) return shapes;
+    return [...rest, ...selected];
+};
+
+export const sendToBack = (shapes: Shape[], ids: string[]) => {
+    const selected = shapes.filter((shape) => ids.includes(shape.id));
+    if (selected.length === 0 || shapes.slice(0, selected.length).every((shape) => ids.includes(shape.id))) return shapes;
+    return [...selected, ...shapes.filter((shape) => !ids.includes(shape.id))];
+};
+
+// Swaps each selected shape with the unselected neighbour above it
+export const moveForward = (shapes: Shape[], ids: string[]) => {
+    const result = [...shapes];
+    let changed = false;
+    for (let i = result.length - 2; i >= 0; i--) {
+        if (ids.includes(result[i].id) && !ids.includes(result[i + 1].id)) {
+            [result[i], result[i + 1]] = [result[i + 1], result[i]];
+            changed = true;
+        }
+    }
+    return changed ? result : shapes;
+};
+
+// Swaps each selected shape with the unselected neighbour below it
+export const moveBackward = (shapes: Shape[], ids: string[]) => {
+    const result = [...shapes];
+    let changed = false;
+    for (let i = 1; i < result.length; i++) {
+        if (ids.includes(result[i].id) && !ids.includes(result[i - 1].id)) {
+            [result[i], result[i - 1]] = [result[i - 1], result[i]];
+            changed = true;
+        }
+    }
+    return changed ? result : shapes;
+};
+
+// Moves one shape to just above or just below another, as when dropped next to it in the layers panel
+export const moveNextTo = (shapes: Shape[], id: string, targetId: string, above: boolean) => {
+    const moved = shapes.find((shape) => shape.id === id);
+    if (!moved || id === targetId) return shapes;
+    const rest = shapes.filter((shape) => shape.id !== id);
+    const targetIndex = rest.findIndex((shape) => shape.id === targetId);
+    if (targetIndex < 0) return shapes;
+    const index = above ? targetIndex + 1 : targetIndex;
+    const result = [...rest.slice(0, index), moved, ...rest.slice(index)];
+    return result.every((shape, i) => shape === shapes[i]) ? shapes : result;
+};
@@ -0,0 +1,139 @@
+import type { Point, Shape } from './drawingTypes';
+
+// Helpers for the shape tree: a group holds its children in its own local coordinates
+
+export const isGroup = (shape: Shape) => shape.type === 'group';
+
+// Applies `fn` to every shape in the tree, children first, keeping untouched branches by reference
+export const mapShapeTree = (shapes: Shape[], fn: (shape: Shape) => Shape): Shape[] => {
+    let changed = false;
+    const result = shapes.map((shape) => {
+        let next = shape;
+        if (shape.children) {
+            const children = mapShapeTree(shape.children, fn);
+            if (children !== shape.children) next = { ...shape, children };
+        }
+        next = fn(next);
+        if (next !== shape) changed = true;
+        return next;
+    });
+    return changed ? result : shapes;
+};
+
+export const findShapeInTree = (shapes: Shape[], id: string): Shape | undefined => {
+    for (const shape of shapes) {
+        if (shape.id === id) return shape;
+        const found = shape.children && findShapeInTree(shape.children, id);
+        if (found) return found;
+    }
+    return undefined;
+};
+
+// Ids of the groups leading to `id`, outermost first; null when `id` is not in the tree
+export const getAncestorIds = (shapes: Shape[], id: string): string[] | null => {
+    for (const shape of shapes) {
+        if (shape.id === id) return [];
+        if (shape.children) {
+            const path = getAncestorIds(shape.children, id);
+            if (path) return [shape.id, ...path];
+        }
+    }
+    return null;
+};
+
+// Runs `updater` on the children of `groupId`, or on the top level when it is null
+export const updateChildren = (shapes: Shape[], groupId: string | null, updater: (children: Shape[]) => Shape[]) => {
+    if (groupId === null) return updater(shapes);
+    return mapShapeTree(shapes, (shape) => {
+        if (shape.id !== groupId || !shape.children) return shape;
+        const children = updater(shape.children);
+        return children === shape.children ? shape : { ...shape, children };
+    });
+};
+
+// Keeps only the selected shapes plus the groups that contain them, so they can be drawn in place
+export const pruneToSelection = (shapes: Shape[], ids: string[]): Shape[] =>
+    shapes.flatMap((shape) => {
+        if (ids.includes(shape.id)) return [shape];
+        if (!shape.children) return [];
+        const children = pruneToSelection(shape.children, ids);
+        return children.length > 0 ? [{ ...shape, children }] : [];
+    });
+
+export const flattenShapeTree = (shapes: Shape[]): Shape[] =>
+    shapes.flatMap((shape) => [shape, ...(shape.children ? flattenShapeTree(shape.children) : [])]);
+
+export const translateShape = (shape: Shape, dx: number, dy: number): Shape => ({
+    ...shape,
+    x: shape.x + dx,
+    y: shape.y + dy,
+    // Pen paths are drawn from absolute points rather than x/y; line points move with x/y
+    points: shape.type === 'line' ? shape.points : shape.points?.map((point) => ({ x: point.x + dx, y: point.y + dy })),
+});
+
+// Same order Konva applies a node's attributes: translate, then rotate, then scale
+export const applyGroupTransform = (group: Shape, point: Point): Point => {
+    const angle = ((group.rotation || 0) * Math.PI) / 180;
+    const px = point.x * (group.scaleX ?? 1);
+    const py = point.y * (group.scaleY ?? 1);
+    return {
+        x: group.x + px * Math.cos(angle) - py * Math.sin(angle),
+        y: group.y + px * Math.sin(angle) + py * Math.cos(angle),
+    };
+};
+
+// The inverse of applyGroupTransform: a point in the group's parent coordinates, seen from inside the group
+export const toGroupSpace = (group: Shape, point: Point): Point => {
+    const angle = ((group.rotation || 0) * Math.PI) / 180;
+    const dx = point.x - group.x;
+    const dy = point.y - group.y;
+    return {
+        x: (dx * Math.cos(angle) + dy * Math.sin(angle)) / (group.scaleX ?? 1),
+        y: (-dx * Math.sin(angle) + dy * Math.cos(angle)) / (group.scaleY ?? 1),
+    };
+};
+
+/**
+ * Moves a group's child into the group's parent coordinates. Rotation and scale are carried
+ * over onto the child; non-uniform scale of a rotated child is approximated.
+ */
+export const releaseFromGroup = (group: Shape, child: Shape): Shape => {
+    const scaleX = group.scaleX ?? 1;
+    const scaleY = group.scaleY ?? 1;
+    const rotation = (group.rotation || 0) + (child.rotation || 0);
+
+    if (child.type === 'group') {
+        const origin = applyGroupTransform(group, { x: child.x, y: child.y });
+        return {
+            ...child,
+            ...origin,
+            rotation,
+            scaleX: (child.scaleX ?? 1) * scaleX,
+            scaleY: (child.scaleY ?? 1) * scaleY,
+        };
+    }
+
+    if (child.type === 'pen') {
+        return { ...child, points: child.points?.map((point) => applyGroupTransform(group, point)) };
+    }
+
+    if (child.type === 'circle') {
+        // Circles are placed by their center, so carry the center over and keep them round
+        const center = applyGroupTransform(group, { x: child.x + child.width / 2, y: child.y + child.height / 2 });
+        const width = child.width * scaleX;
+        const height = child.height * scaleX;
+        return { ...child, x: center.x - width / 2, y: center.y - height / 2, width, height };
+    }
+
+    const origin = applyGroupTransform(group, { x: child.x, y: child.y });
+    return {
+        ...child,
+        ...origin,
+        rotation,
+        width: child.width * scaleX,
+        height: child.height * scaleY,
+        fontSize: child.fontSize !== undefined ? child.fontSize * scaleY : undefined,
+        // Line points are relative to x/y, so they scale like a box's size
+        points: child.type === 'line' ? child.points?.map((point) => ({ x: point.x * scaleX, y: point.y * scaleY })) : child.points,
+    };
+};
@@ -0,0 +1,318 @@
+import * as Y from 'yjs';
+import type { CommentThread, DrawLine, Scene, Shape, Slide, ThreadComment } from './drawingTypes';
+import { getLoadedAsset } from './assetStore';
+import type { SceneSnapshot } from './snapshots';
+import { syncConnectors } from './connectors';
+import { dropUnsafeLinks } from './richText';
+
+/*
+ * Layout of a board in the shared Yjs document:
+ *   shapes: shape id -> Y.Map of the shape's fields, plus `parentId` and `order` to rebuild the group tree.
+ *           One map per shape lets two people change different fields of the same shape without conflict.
+ *   lines:  Y.Array of Y.Map, each keeping its points in a Y.Array so a stroke grows by appending.
+ *   assets: asset id -> image data URL, shared by every image shape that shows it through its `assetId`.
+ *   slides: slide id -> Y.Map of the slide's fields, plus `order` for its place in the presentation.
+ *   snapshots: versions saved before they got a document of their own; moved there when the history is
+ *           next opened, see useSharedScene.
+ *   comments: thread id -> Y.Map of the thread's fields, its comments in a Y.Array so replies sent at
+ *           the same time all land. Not part of undo, which would take back what others have read.
+ */
+
+export const getSharedRoots = (doc: Y.Doc) => ({
+    shapes: doc.getMap<Y.Map<unknown>>('shapes'),
+    lines: doc.getArray<Y.Map<unknown>>('lines'),
+    assets: doc.getMap<string>('assets'),
+    slides: doc.getMap<Y.Map<unknown>>('slides'),
+    snapshots: doc.getMap<Y.Map<unknown>>('snapshots'),
+    comments: doc.getMap<Y.Map<unknown>>('comments'),
+});
+
+export type SharedRoots = ReturnType<typeof getSharedRoots>;
+
+// Fields rebuilt on each client instead of being stored
+const LOCAL_FIELDS = ['children'];
+
+interface TreeEntry {
+    shape: Shape;
+    parentId: string | null;
+    order: number;
+}
+
+const flattenWithParents = (shapes: Shape[], parentId: string | null = null, into = new Map<string, TreeEntry>()) => {
+    shapes.forEach((shape, order) => {
+        into.set(shape.id, { shape, parentId, order });
+        if (shape.children) flattenWithParents(shape.children, shape.id, into);
+    });
+    return into;
+};
+
+// Sets only the fields whose value changed, and drops the ones the shape no longer has
+const writeFields = (target: Y.Map<unknown>, fields: Record<string, unknown>, keep: string[] = []) => {
+    Object.entries(fields).forEach(([key, value]) => {
+        if (value !== undefined && target.get(key) !== value) target.set(key, value);
+    });
+    Array.from(target.keys()).forEach((key) => {
+        if (fields[key] === undefined && !keep.includes(key)) target.delete(key);
+    });
+};
+
+// An image's data goes into the shared assets the first time a shape shows it, for collaborators to load
+const getStoredFields = (shape: Shape, roots: SharedRoots) => {
+    const fields: Record<string, unknown> = {};
+    Object.entries(shape).forEach(([key, value]) => {
+        if (!LOCAL_FIELDS.includes(key) && value !== undefined) fields[key] = value;
+    });
+    const loaded = shape.type === 'image' ? getLoadedAsset(shape.assetId) : undefined;
+    if (loaded && !roots.assets.has(loaded.asset.id)) roots.assets.set(loaded.asset.id, loaded.asset.dataUrl);
+    return fields;
+};
+
+// Per-point line fields, kept in Y.Arrays
+const GROWING_FIELDS = ['points', 'pressures'];
+
+const createSharedLine = (line: DrawLine) => {
+    const shared = new Y.Map<unknown>();
+    Object.entries(line).forEach(([key, value]) => {
+        if (value === undefined) return;
+        shared.set(key, GROWING_FIELDS.includes(key) ? Y.Array.from(value as number[]) : value);
+    });
+    return shared;
+};
+
+// A stroke being drawn only grows, so new values are appended instead of replacing them all
+const writeGrowingField = (shared: Y.Map<unknown>, key: string, values: number[] | undefined) => {
+    const existing = shared.get(key) as Y.Array<number> | undefined;
+    if (!values) {
+        if (existing) shared.delete(key);
+        return;
+    }
+    if (!existing) {
+        shared.set(key, Y.Array.from(values));
+        return;
+    }
+    const grows = values.length >= existing.length
+        && (existing.length === 0 || values[existing.length - 1] === existing.get(existing.length - 1));
+    if (grows) {
+        if (values.length > existing.length) existing.push(values.slice(existing.length));
+    } else {
+        existing.delete(0, existing.length);
+        existing.push(values);
+    }
+};
+
+const writeLine = (shared: Y.Map<unknown>, line: DrawLine) => {
+    const { points, pressures, ...fields } = line;
+    writeFields(shared, fields, GROWING_FIELDS);
+    writeGrowingField(shared, 'points', points);
+    writeGrowingField(shared, 'pressures', pressures);
+};
+
+const writeLines = (lines: Y.Array<Y.Map<unknown>>, prev: DrawLine[], next: DrawLine[]) => {
+    const nextIds = new Set(next.map((line) => line.id));
+    for (let i = lines.length - 1; i >= 0; i--) {
+        if (!nextIds.has(lines.get(i).get('id') as string)) lines.delete(i, 1);
+    }
+
+    const previous = new Map(prev.map((line) => [line.id, line]));
+    const shared = new Map(lines.toArray().map((item) => [item.get('id') as string, item]));
+    next.forEach((line) => {
+        if (previous.get(line.id) === line && shared.has(line.id)) return;
+        const existing = shared.get(line.id);
+        if (existing) {
+            writeLine(existing, line);
+        } else {
+            lines.push([createSharedLine(line)]);
+        }
+    });
+};
+
+const writeSlides = (slides: SharedRoots['slides'], prev: Slide[], next: Slide[]) => {
+    const nextIds = new Set(next.map((slide) => slide.id));
+    Array.from(slides.keys()).forEach((id) => {
+        if (!nextIds.has(id)) slides.delete(id);
+    });
+    next.forEach((slide, order) => {
+        const shared = slides.get(slide.id);
+        if (shared && prev[order] === slide) return;
+        const target = shared ?? new Y.Map<unknown>();
+        if (!shared) slides.set(slide.id, target);
+        writeFields(target, { ...slide, order });
+    });
+};
+
+// Comments are only ever added or removed, so they are matched by id instead of being rewritten
+const writeThreadComments = (shared: Y.Map<unknown>, comments: ThreadComment[]) => {
+    let existing = shared.get('comments') as Y.Array<ThreadComment> | undefined;
+    if (!existing) {
+        existing = new Y.Array<ThreadComment>();
+        shared.set('comments', existing);
+    }
+    const nextIds = new Set(comments.map((comment) => comment.id));
+    for (let i = existing.length - 1; i >= 0; i--) {
+        if (!nextIds.has(existing.get(i).id)) existing.delete(i, 1);
+    }
+    const sharedIds = new Set(existing.toArray().map((comment) => comment.id));
+    const added = comments.filter((comment) => !sharedIds.has(comment.id));
+    if (added.length > 0) existing.push(added);
+};
+
+const writeThreads = (threads: SharedRoots['comments'], prev: CommentThread[], next: CommentThread[]) => {
+    const nextIds = new Set(next.map((thread) => thread.id));
+    Array.from(threads.keys()).forEach((id) => {
+        if (!nextIds.has(id)) threads.delete(id);
+    });
+    const previous = new Map(prev.map((thread) => [thread.id, thread]));
+    next.forEach((thread) => {
+        const shared = threads.get(thread.id);
+        if (shared && previous.get(thread.id) === thread) return;
+        const target = shared ?? new Y.Map<unknown>();
+        if (!shared) threads.set(thread.id, target);
+        const { comments, ...fields } = thread;
+        writeFields(target, fields, ['comments']);
+        writeThreadComments(target, comments);
+    });
+};
+
+/**
+ * Writes the difference between two versions of the local scene into the shared document.
+ * Call it inside a transaction; untouched shapes and lines are skipped by reference.
+ */
+export const writeSceneChanges = (roots: SharedRoots, prev: Scene, next: Scene) => {
+    if (prev.shapes !== next.shapes) {
+        const before = flattenWithParents(prev.shapes);
+        const after = flattenWithParents(next.shapes);
+
+        before.forEach((_, id) => {
+            if (!after.has(id)) roots.shapes.delete(id);
+        });
+        after.forEach((entry, id) => {
+            const previous = before.get(id);
+            const shared = roots.shapes.get(id);
+            if (
+                shared &&
+                previous?.shape === entry.shape &&
+                previous.parentId === entry.parentId &&
+                previous.order === entry.order
+            ) {
+                return;
+            }
+            const target = shared ?? new Y.Map<unknown>();
+            if (!shared) roots.shapes.set(id, target);
+            writeFields(target, {
+                ...getStoredFields(entry.shape, roots),
+                parentId: entry.parentId,
+                order: entry.order,
+            });
+        });
+    }
+
+    if (prev.lines !== next.lines) {
+        writeLines(roots.lines, prev.lines, next.lines);
+    }
+
+    if (prev.slides !== next.slides) {
+        writeSlides(roots.slides, prev.slides, next.slides);
+    }
+
+    if (prev.comments !== next.comments) {
+        writeThreads(roots.comments, prev.comments, next.comments);
+    }
+};
+
+/**
+ * Rebuilds the local scene from the shared document. Images whose asset has not been decoded yet
+ * are listed in `missingAssets` so the caller can load them and rebuild again.
+ */
+export const readScene = (roots: SharedRoots) => {
+    const missingAssets = new Set<string>();
+    const entries: TreeEntry[] = [];
+
+    roots.shapes.forEach((shared, id) => {
+        const { parentId = null, order = 0, ...fields } = Object.fromEntries(shared.entries()) as Record<string, unknown>;
+        const shape = { ...fields, id } as Shape;
+        if (shape.runs) shape.runs = dropUnsafeLinks(shape.runs);
+        if (shape.assetId && !getLoadedAsset(shape.assetId)) missingAssets.add(shape.assetId);
+        entries.push({ shape, parentId: parentId as string | null, order: order as number });
+    });
+
+    // Siblings are ordered by `order`; concurrent inserts at the same spot fall back to id order
+    entries.sort((a, b) => a.order - b.order || (a.shape.id < b.shape.id ? -1 : 1));
+    const childrenOf = new Map<string | null, TreeEntry[]>();
+    entries.forEach((entry) => {
+        childrenOf.set(entry.parentId, [...(childrenOf.get(entry.parentId) ?? []), entry]);
+    });
+
+    const placed = new Set<string>();
+    const build = (parentId: string | null): Shape[] =>
+        (childrenOf.get(parentId) ?? []).flatMap((entry) => {
+            if (placed.has(entry.shape.id)) return [];
+            placed.add(entry.shape.id);
+            return [entry.shape.type === 'group' ? { ...entry.shape, children: build(entry.shape.id) } : entry.shape];
+        });
+
+    // Shapes whose group was deleted, or caught in a cycle by concurrent regrouping, stay on the top level
+    const shapes = build(null);
+    entries.forEach((entry) => {
+        if (!placed.has(entry.shape.id)) {
+            placed.add(entry.shape.id);
+            shapes.push(entry.shape.type === 'group' ? { ...entry.shape, children: build(entry.shape.id) } : entry.shape);
+        }
+    });
+
+    const lines = roots.lines.toArray().map((shared) => {
+        const { points, pressures, ...fields } = Object.fromEntries(shared.entries()) as Record<string, unknown>;
+        return {
+            ...fields,
+            points: (points as Y.Array<number>).toArray(),
+            ...(pressures instanceof Y.Array && { pressures: pressures.toArray() as number[] }),
+        } as DrawLine;
+    });
+
+    const slides = Array.from(roots.slides.entries())
+        .map(([id, shared]) => {
+            const { order = 0, ...fields } = Object.fromEntries(shared.entries()) as Record<string, unknown>;
+            return { slide: { ...fields, id } as Slide, order: order as number };
+        })
+        .sort((a, b) => a.order - b.order || (a.slide.id < b.slide.id ? -1 : 1))
+        .map((entry) => entry.slide);
+
+    // Threads are ordered by their first comment, so pins keep their numbers as threads are added
+    const comments = Array.from(roots.comments.entries())
+        .map(([id, shared]) => {
+            const { comments: items, ...fields } = Object.fromEntries(shared.entries()) as Record<string, unknown>;
+            return {
+                ...fields,
+                id,
+                // Replies sent at the same time merge in no particular order
+                comments: items instanceof Y.Array
+                    ? (items.toArray() as ThreadComment[]).sort((x, y) => x.createdAt - y.createdAt)
+                    : [],
+            } as CommentThread;
+        })
+        .sort((a, b) => (a.comments[0]?.createdAt ?? 0) - (b.comments[0]?.createdAt ?? 0) || (a.id < b.id ? -1 : 1));
+
+    // Connector paths are derived data, so re-route them against the merged shapes
+    return {
+        scene: { shapes: syncConnectors(shapes), lines, slides, comments },
+        missingAssets: Array.from(missingAssets),
+    };
+};
+
+export const isSceneEmpty = (roots: SharedRoots) =>
+    roots.shapes.size === 0 && roots.lines.length === 0 && roots.slides.size === 0 && roots.comments.size === 0;
+
+// The versions of a board, in its history document or, from before that, its own; see useSharedScene
+export type SharedSnapshots = Y.Map<Y.Map<unknown>>;
+
+// Newest first
+export const readSnapshots = (snapshots: SharedSnapshots): SceneSnapshot[] =>
+    Array.from(snapshots.entries())
+        .map(([id, shared]) => ({ ...Object.fromEntries(shared.entries()), id }) as SceneSnapshot)
+        .sort((a, b) => b.createdAt - a.createdAt);
+
+export const writeSnapshot = (snapshots: SharedSnapshots, snapshot: SceneSnapshot) => {
+    const shared = snapshots.get(snapshot.id);
+    const target = shared ?? new Y.Map<unknown>();
+    if (!shared) snapshots.set(snapshot.id, target);
+    writeFields(target, { ...snapshot });
+};
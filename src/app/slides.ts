@@ -0,0 +1,36 @@
+import type { Shape, Slide } from './drawingTypes';
+import { getFrameBounds, isFrame } from './frames';
+import type { Bounds } from './geometry';
+import { createId } from './ids';
+
+/*
+ * Presentation slides. A frame slide shows wherever its frame is now; a view slide shows a fixed area of the board.
+ * Boards without slides present their frames, in stacking order.
+ */
+
+// The slides a presentation steps through, skipping slides whose frame was deleted
+export const getPresentationSlides = (slides: Slide[], shapes: Shape[]): Slide[] => {
+    const frameIds = new Set(shapes.filter(isFrame).map((frame) => frame.id));
+    if (slides.length === 0) {
+        return shapes.filter(isFrame).map((frame) => ({ id: `frame-slide-${frame.id}`, frameId: frame.id }));
+    }
+    return slides.filter((slide) => (slide.frameId ? frameIds.has(slide.frameId) : !!slide.view));
+};
+
+export const getSlideBounds = (slide: Slide, shapes: Shape[]): Bounds | null => {
+    if (slide.view) return slide.view;
+    const frame = shapes.find((shape) => shape.id === slide.frameId);
+    return frame ? getFrameBounds(frame) : null;
+};
+
+// A given name, else the name of its frame
+export const getSlideName = (slide: Slide, shapes: Shape[], index: number) => {
+    if (slide.name) return slide.name;
+    const frame = slide.frameId ? shapes.find((shape) => shape.id === slide.frameId) : undefined;
+    if (slide.frameId) return frame ? frame.text || 'Frame' : 'Deleted frame';
+    return `View ${index + 1}`;
+};
+
+export const createFrameSlide = (frame: Shape): Slide => ({ id: createId('slide'), frameId: frame.id });
+
+export const createViewSlide = (view: Bounds): Slide => ({ id: createId('slide'), view });
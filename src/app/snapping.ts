@@ -0,0 +1,170 @@
+import type { Point } from './drawingTypes';
+import type { Bounds } from './geometry';
+
+// Snapping for drags and resizes. Everything here works in world coordinates.
+
+export interface SnapGuide {
+    orientation: 'vertical' | 'horizontal';
+    position: number;
+    start: number;
+    end: number;
+}
+
+// A gap drawn between two boxes when the moving box sits at equal distance from its neighbours
+export interface SpacingHint {
+    from: Point;
+    to: Point;
+}
+
+export interface SnapFeedback {
+    guides: SnapGuide[];
+    spacing: SpacingHint[];
+}
+
+const ALIGNED_EPSILON = 0.5;
+
+export const snapToGrid = (value: number, spacing: number) => Math.round(value / spacing) * spacing;
+
+// Edges and center of a box along one axis
+const xStops = (bounds: Bounds) => [bounds.x, bounds.x + bounds.width / 2, bounds.x + bounds.width];
+const yStops = (bounds: Bounds) => [bounds.y, bounds.y + bounds.height / 2, bounds.y + bounds.height];
+
+// Smallest offset within `threshold` that lines one of `moving` up with one of `targets`
+const findAxisSnap = (moving: number[], targets: number[], threshold: number) => {
+    let best: number | null = null;
+    for (const value of moving) {
+        for (const target of targets) {
+            const offset = target - value;
+            if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) {
+                best = offset;
+            }
+        }
+    }
+    return best;
+};
+
+// Nearest boxes before and after `bounds` along an axis, among those sharing its span on the other axis
+const findNeighbours = (bounds: Bounds, others: Bounds[], axis: 'x' | 'y') => {
+    const size = axis === 'x' ? 'width' : 'height';
+    const cross = axis === 'x' ? 'y' : 'x';
+    const crossSize = axis === 'x' ? 'height' : 'width';
+    const center = bounds[axis] + bounds[size] / 2;
+
+    let before: Bounds | null = null;
+    let after: Bounds | null = null;
+    for (const other of others) {
+        const overlaps = other[cross] < bounds[cross] + bounds[crossSize] && other[cross] + other[crossSize] > bounds[cross];
+        if (!overlaps) continue;
+        if (other[axis] + other[size] <= center && (!before || other[axis] + other[size] > before[axis] + before[size])) {
+            before = other;
+        } else if (other[axis] >= center && (!after || other[axis] < after[axis])) {
+            after = other;
+        }
+    }
+    return before && after ? { before, after } : null;
+};
+
+// Offset that centers `bounds` between its neighbours when the two gaps are already nearly equal
+const findSpacingSnap = (bounds: Bounds, others: Bounds[], axis: 'x' | 'y', threshold: number) => {
+    const neighbours = findNeighbours(bounds, others, axis);
+    if (!neighbours) return null;
+    const size = axis === 'x' ? 'width' : 'height';
+    const gapBefore = bounds[axis] - (neighbours.before[axis] + neighbours.before[size]);
+    const gapAfter = neighbours.after[axis] - (bounds[axis] + bounds[size]);
+    if (gapBefore < 0 || gapAfter < 0 || Math.abs(gapAfter - gapBefore) > threshold * 2) return null;
+    return (gapAfter - gapBefore) / 2;
+};
+
+const getSpacingHints = (bounds: Bounds, others: Bounds[], axis: 'x' | 'y'): SpacingHint[] => {
+    const neighbours = findNeighbours(bounds, others, axis);
+    if (!neighbours) return [];
+    const { before, after } = neighbours;
+    if (axis === 'x') {
+        const gapBefore = bounds.x - (before.x + before.width);
+        const gapAfter = after.x - (bounds.x + bounds.width);
+        if (gapBefore < 0 || Math.abs(gapBefore - gapAfter) > ALIGNED_EPSILON) return [];
+        const y = bounds.y + bounds.height / 2;
+        return [
+            { from: { x: before.x + before.width, y }, to: { x: bounds.x, y } },
+            { from: { x: bounds.x + bounds.width, y }, to: { x: after.x, y } },
+        ];
+    }
+    const gapBefore = bounds.y - (before.y + before.height);
+    const gapAfter = after.y - (bounds.y + bounds.height);
+    if (gapBefore < 0 || Math.abs(gapBefore - gapAfter) > ALIGNED_EPSILON) return [];
+    const x = bounds.x + bounds.width / 2;
+    return [
+        { from: { x, y: before.y + before.height }, to: { x, y: bounds.y } },
+        { from: { x, y: bounds.y + bounds.height }, to: { x, y: after.y } },
+    ];
+};
+
+// A guide for every edge or center of `bounds` that lines up exactly with another box
+const getAlignmentGuides = (bounds: Bounds, others: Bounds[]): SnapGuide[] => {
+    const guides: SnapGuide[] = [];
+    for (const x of Array.from(new Set(xStops(bounds)))) {
+        const matches = others.filter((other) => xStops(other).some((stop) => Math.abs(stop - x) < ALIGNED_EPSILON));
+        if (matches.length === 0) continue;
+        guides.push({
+            orientation: 'vertical',
+            position: x,
+            start: Math.min(bounds.y, ...matches.map((other) => other.y)),
+            end: Math.max(bounds.y + bounds.height, ...matches.map((other) => other.y + other.height)),
+        });
+    }
+    for (const y of Array.from(new Set(yStops(bounds)))) {
+        const matches = others.filter((other) => yStops(other).some((stop) => Math.abs(stop - y) < ALIGNED_EPSILON));
+        if (matches.length === 0) continue;
+        guides.push({
+            orientation: 'horizontal',
+            position: y,
+            start: Math.min(bounds.x, ...matches.map((other) => other.x)),
+            end: Math.max(bounds.x + bounds.width, ...matches.map((other) => other.x + other.width)),
+        });
+    }
+    return guides;
+};
+
+/**
+ * Offset to apply to a moving box. Per axis, alignment with another box wins over equal spacing,
+ * which wins over the grid; a `gridSpacing` of 0 turns grid snapping off.
+ */
+export const snapBounds = (moving: Bounds, others: Bounds[], threshold: number, gridSpacing: number) => {
+    const snapAxis = (axis: 'x' | 'y') => {
+        const aligned = axis === 'x'
+            ? findAxisSnap(xStops(moving), others.flatMap(xStops), threshold)
+            : findAxisSnap(yStops(moving), others.flatMap(yStops), threshold);
+        if (aligned !== null) return aligned;
+        const spaced = findSpacingSnap(moving, others, axis, threshold);
+        if (spaced !== null) return spaced;
+        return gridSpacing > 0 ? snapToGrid(moving[axis], gridSpacing) - moving[axis] : 0;
+    };
+
+    const dx = snapAxis('x');
+    const dy = snapAxis('y');
+    const snapped = { ...moving, x: moving.x + dx, y: moving.y + dy };
+    const feedback: SnapFeedback = {
+        guides: getAlignmentGuides(snapped, others),
+        spacing: [...getSpacingHints(snapped, others, 'x'), ...getSpacingHints(snapped, others, 'y')],
+    };
+    return { dx, dy, feedback };
+};
+
+// Snaps a single point, such as a Transformer anchor, to the edges and centers of other boxes or the grid
+export const snapPoint = (point: Point, others: Bounds[], threshold: number, gridSpacing: number) => {
+    const snapAxis = (value: number, targets: number[]) => {
+        const aligned = findAxisSnap([value], targets, threshold);
+        if (aligned !== null) return value + aligned;
+        return gridSpacing > 0 ? snapToGrid(value, gridSpacing) : value;
+    };
+
+    const snapped = {
+        x: snapAxis(point.x, others.flatMap(xStops)),
+        y: snapAxis(point.y, others.flatMap(yStops)),
+    };
+    const feedback: SnapFeedback = {
+        guides: getAlignmentGuides({ ...snapped, width: 0, height: 0 }, others),
+        spacing: [],
+    };
+    return { point: snapped, feedback };
+};
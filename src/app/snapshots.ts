@@ -0,0 +1,110 @@
+import type { Scene, Shape } from './drawingTypes';
+import { expandBounds, getLineBounds, getShapeBounds, unionBounds } from './geometry';
+import { getMimeType } from './assetStore';
+import { createId } from './ids';
+import { deserializeScene, parseSceneDocument, serializeSceneWithoutAssets, type SerializedShape } from './sceneFormat';
+import { exportScene } from './sceneExport';
+
+/*
+ * Versions of a board, kept next to its shared document so everyone on the board can go back to them.
+ * Automatic snapshots are taken while the board changes, and only the newest are kept; named checkpoints
+ * stay until someone deletes them. Images are not copied: the board's shared assets keep every picture.
+ */
+
+export interface SceneSnapshot {
+    id: string;
+    createdAt: number;
+    // The name of whoever took it, as shown to others on the board
+    author: string;
+    // Named checkpoints are kept for good; automatic snapshots have no name
+    name?: string;
+    // A scene document without its assets, as JSON
+    scene: string;
+}
+
+// How often the client taking automatic snapshots looks for changes worth one
+export const SNAPSHOT_CHECK_INTERVAL = 60 * 1000;
+// The least time between automatic snapshots
+const AUTO_SNAPSHOT_INTERVAL = 10 * 60 * 1000;
+// Older automatic snapshots are dropped
+const MAX_AUTO_SNAPSHOTS = 20;
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_PADDING = 20;
+
+const SNAPSHOT_VIEWPORT = { position: { x: 0, y: 0 }, zoom: 1 };
+
+export const createSnapshot = (scene: Scene, author: string, name?: string): SceneSnapshot => ({
+    id: createId('snapshot'),
+    createdAt: Date.now(),
+    author,
+    name,
+    scene: JSON.stringify(serializeSceneWithoutAssets(scene, SNAPSHOT_VIEWPORT)),
+});
+
+// JSON with object keys sorted, so the same content always reads the same whatever order its fields were set in
+const stableStringify = (value: unknown) =>
+    JSON.stringify(value, (_key, item: unknown) =>
+        item && typeof item === 'object' && !Array.isArray(item)
+            ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : 1)))
+            : item
+    );
+
+const getContentKey = ({ shapes, lines, slides }: { shapes: unknown; lines: unknown; slides: unknown }) =>
+    stableStringify([shapes, lines, slides]);
+
+export const isSameShape = (a: Shape, b: Shape) => stableStringify(a) === stableStringify(b);
+
+// When the next automatic snapshot may be taken; `snapshots` are newest first
+export const getNextAutoSnapshotTime = ([latest]: SceneSnapshot[]) => (latest ? latest.createdAt + AUTO_SNAPSHOT_INTERVAL : 0);
+
+// Due when the newest snapshot is old enough and the board has changed since; `snapshots` are newest first
+export const isAutoSnapshotDue = async (snapshots: SceneSnapshot[], scene: Scene, now: number) => {
+    const [latest] = snapshots;
+    if (!latest) return scene.shapes.length > 0 || scene.lines.length > 0;
+    if (now < getNextAutoSnapshotTime(snapshots)) return false;
+    try {
+        const previous = await parseSceneDocument(latest.scene);
+        return getContentKey(previous) !== getContentKey(scene);
+    } catch {
+        return true;
+    }
+};
+
+// The automatic snapshots past the newest few; `snapshots` are newest first
+export const getExpiredSnapshots = (snapshots: SceneSnapshot[]) =>
+    snapshots.filter((snapshot) => !snapshot.name).slice(MAX_AUTO_SNAPSHOTS);
+
+/**
+ * The snapshot's scene, with its images loaded. Pictures this browser has not stored yet
+ * come from `getAssetDataUrl`, which looks them up in the board's shared assets.
+ */
+export const loadSnapshotScene = async (snapshot: SceneSnapshot, getAssetDataUrl: (id: string) => string | undefined) => {
+    const doc = await parseSceneDocument(snapshot.scene);
+    const addAssets = (shapes: SerializedShape[]) =>
+        shapes.forEach((shape) => {
+            const dataUrl = shape.assetId ? getAssetDataUrl(shape.assetId) : undefined;
+            if (shape.assetId && dataUrl) {
+                doc.assets[shape.assetId] = { id: shape.assetId, mimeType: getMimeType(dataUrl), dataUrl };
+            }
+            if (shape.children) addAssets(shape.children);
+        });
+    addAssets(doc.shapes);
+    const { scene } = await deserializeScene(doc);
+    return scene;
+};
+
+// A small picture of everything in the scene, or null for an empty one
+export const renderSnapshotThumbnail = async (scene: Scene): Promise<Blob | null> => {
+    const content = unionBounds([
+        ...scene.shapes.filter((shape) => !shape.hidden).map(getShapeBounds),
+        ...scene.lines.map(getLineBounds),
+    ]);
+    if (!content) return null;
+    const bounds = expandBounds(content, THUMBNAIL_PADDING);
+    return exportScene(scene, bounds, {
+        format: 'png',
+        scope: 'scene',
+        pixelRatio: THUMBNAIL_WIDTH / bounds.width,
+        includeGrid: false,
+    });
+};
@@ -0,0 +1,102 @@
+import type { Point } from './drawingTypes';
+import { boundsIntersect, type Bounds } from './geometry';
+
+/*
+ * A static R-tree over item bounds, packed with Sort-Tile-Recursive: items are sorted into vertical
+ * slices by x, each slice is cut into nodes by y, and the same is repeated on the nodes until one is left.
+ * Scenes are immutable, so the tree is rebuilt whenever the list changes instead of being updated.
+ */
+
+// Children per node; small enough that scanning a node is cheap, large enough to keep the tree shallow
+const NODE_SIZE = 16;
+
+interface IndexNode {
+    bounds: Bounds;
+    children: IndexNode[];
+    // Position of the item in the indexed list, for leaves
+    index: number;
+}
+
+export interface SpatialIndex<T> {
+    // Items whose bounds touch the area, in their original list order so stacking is preserved
+    search: (area: Bounds) => T[];
+    // Items whose bounds are within `radius` of the point
+    searchPoint: (point: Point, radius?: number) => T[];
+}
+
+// Bounds are worked out once per item object; scenes replace the objects they change, so the cache never goes stale
+export const memoizeBounds = <T extends object>(getBounds: (item: T) => Bounds) => {
+    const cache = new WeakMap<T, Bounds>();
+    return (item: T) => {
+        let bounds = cache.get(item);
+        if (!bounds) {
+            bounds = getBounds(item);
+            cache.set(item, bounds);
+        }
+        return bounds;
+    };
+};
+
+const getNodeBounds = (nodes: IndexNode[]): Bounds => {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    nodes.forEach(({ bounds }) => {
+        minX = Math.min(minX, bounds.x);
+        minY = Math.min(minY, bounds.y);
+        maxX = Math.max(maxX, bounds.x + bounds.width);
+        maxY = Math.max(maxY, bounds.y + bounds.height);
+    });
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+const centerX = (node: IndexNode) => node.bounds.x + node.bounds.width / 2;
+const centerY = (node: IndexNode) => node.bounds.y + node.bounds.height / 2;
+
+// Groups one level of nodes into parents of up to NODE_SIZE children each
+const packLevel = (nodes: IndexNode[]): IndexNode[] => {
+    const parentCount = Math.ceil(nodes.length / NODE_SIZE);
+    const sliceCount = Math.ceil(Math.sqrt(parentCount));
+    const sliceSize = sliceCount * NODE_SIZE;
+
+    const byX = [...nodes].sort((a, b) => centerX(a) - centerX(b));
+    const parents: IndexNode[] = [];
+    for (let i = 0; i < byX.length; i += sliceSize) {
+        const slice = byX.slice(i, i + sliceSize).sort((a, b) => centerY(a) - centerY(b));
+        for (let j = 0; j < slice.length; j += NODE_SIZE) {
+            const children = slice.slice(j, j + NODE_SIZE);
+            parents.push({ bounds: getNodeBounds(children), children, index: -1 });
+        }
+    }
+    return parents;
+};
+
+export const createSpatialIndex = <T,>(items: T[], getBounds: (item: T) => Bounds): SpatialIndex<T> => {
+    let level: IndexNode[] = items.map((item, index) => ({ bounds: getBounds(item), children: [], index }));
+    while (level.length > 1) {
+        level = packLevel(level);
+    }
+    const root = level[0];
+
+    const search = (area: Bounds) => {
+        if (!root) return [];
+        const found: number[] = [];
+        const stack = [root];
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            if (!boundsIntersect(area, node.bounds)) continue;
+            if (node.index >= 0) {
+                found.push(node.index);
+            } else {
+                stack.push(...node.children);
+            }
+        }
+        return found.sort((a, b) => a - b).map((index) => items[index]);
+    };
+
+    const searchPoint = (point: Point, radius = 0) =>
+        search({ x: point.x - radius, y: point.y - radius, width: radius * 2, height: radius * 2 });
+
+    return { search, searchPoint };
+};
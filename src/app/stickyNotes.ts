@@ -0,0 +1,75 @@
+import type { Shape } from './drawingTypes';
+import { measureText } from './textLayout';
+
+// Sticky notes: a colored square whose text wraps to the note and shrinks until it fits
+
+export const STICKY_COLORS = [
+    { value: '#fef08a', label: 'Yellow' },
+    { value: '#fed7aa', label: 'Orange' },
+    { value: '#fbcfe8', label: 'Pink' },
+    { value: '#ddd6fe', label: 'Purple' },
+    { value: '#bfdbfe', label: 'Blue' },
+    { value: '#bbf7d0', label: 'Green' },
+];
+
+export const STICKY_SIZE = 200;
+export const STICKY_PADDING = 12;
+export const STICKY_LINE_HEIGHT = 1.2;
+export const STICKY_TEXT_COLOR = '#1f2937';
+
+const MAX_FONT_SIZE = 32;
+const MIN_FONT_SIZE = 8;
+
+// Breaks text into lines no wider than `maxWidth`, at spaces where possible and inside words that are too long
+export const wrapText = (text: string, fontSize: number, fontFamily: string, maxWidth: number): string[] => {
+    const fits = (line: string) => measureText(line, fontSize, fontFamily).width <= maxWidth;
+    return text.split('\n').flatMap((paragraph) => {
+        const lines: string[] = [];
+        let current = '';
+        paragraph.split(' ').forEach((word) => {
+            const candidate = current ? `${current} ${word}` : word;
+            if (fits(candidate)) {
+                current = candidate;
+                return;
+            }
+            if (current) lines.push(current);
+            current = '';
+            // A word wider than the note is split letter by letter
+            let rest = word;
+            while (rest && !fits(rest)) {
+                let cut = rest.length - 1;
+                while (cut > 1 && !fits(rest.slice(0, cut))) cut--;
+                lines.push(rest.slice(0, cut));
+                rest = rest.slice(cut);
+            }
+            current = rest;
+        });
+        lines.push(current);
+        return lines;
+    });
+};
+
+const layoutCache = new WeakMap<Shape, { fontSize: number; lines: string[] }>();
+
+/**
+ * The largest font size at which the note's text fits inside it, with the text wrapped at that size.
+ * Text that does not fit even at the smallest size overflows and is clipped by the note.
+ */
+export const layoutStickyText = (shape: Shape) => {
+    const cached = layoutCache.get(shape);
+    if (cached) return cached;
+
+    const fontFamily = shape.fontFamily || 'Arial';
+    const innerWidth = Math.max(1, Math.abs(shape.width) - STICKY_PADDING * 2);
+    const innerHeight = Math.max(1, Math.abs(shape.height) - STICKY_PADDING * 2);
+    let layout = { fontSize: MIN_FONT_SIZE, lines: wrapText(shape.text || '', MIN_FONT_SIZE, fontFamily, innerWidth) };
+    for (let fontSize = MAX_FONT_SIZE; fontSize > MIN_FONT_SIZE; fontSize--) {
+        const lines = wrapText(shape.text || '', fontSize, fontFamily, innerWidth);
+        if (lines.length * fontSize * STICKY_LINE_HEIGHT <= innerHeight) {
+            layout = { fontSize, lines };
+            break;
+        }
+    }
+    layoutCache.set(shape, layout);
+    return layout;
+};
@@ -0,0 +1,175 @@
+import type { Shape, TextRun } from './drawingTypes';
+
+// Konva's defaults, so text made before these options existed keeps its look
+export const DEFAULT_FONT_SIZE = 20;
+export const DEFAULT_LINE_HEIGHT = 1;
+export const LINK_COLOR = '#2563eb';
+// Underlines sit half a font size below the middle of the line, like Konva draws them
+export const UNDERLINE_OFFSET = 0.5;
+export const UNDERLINE_THICKNESS = 1 / 15;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Konva sizes text to its content, so measure it the same way the canvas will draw it
+export const measureText = (text: string, fontSize: number, fontFamily: string, fontStyle = '') => {
+    const lines = text.split('\n');
+    if (!measureContext && typeof document !== 'undefined') {
+        measureContext = document.createElement('canvas').getContext('2d');
+    }
+    if (!measureContext) {
+        return { width: Math.max(...lines.map((line) => line.length)) * fontSize * 0.6, height: lines.length * fontSize };
+    }
+    measureContext.font = `${fontStyle} ${fontSize}px ${fontFamily}`.trim();
+    return {
+        width: Math.max(...lines.map((line) => measureContext!.measureText(line).width)),
+        height: lines.length * fontSize,
+    };
+};
+
+// Plain text is one unstyled run
+export const getTextRuns = (shape: Shape): TextRun[] => shape.runs ?? [{ text: shape.text || '' }];
+
+// The style part of a CSS font shorthand, shared by the canvas, the editor and exports
+export const getFontStyle = (run: TextRun) => [run.italic && 'italic', run.bold && 'bold'].filter(Boolean).join(' ');
+
+export interface TextSegment {
+    run: TextRun;
+    text: string;
+    x: number;
+    width: number;
+}
+
+export interface TextLine {
+    segments: TextSegment[];
+    y: number;
+    width: number;
+}
+
+export interface TextLayout {
+    lines: TextLine[];
+    width: number;
+    height: number;
+    // Height of one line in pixels; each line's text is vertically centered in it
+    lineHeight: number;
+}
+
+// A stretch of one run within a paragraph, with no spaces in it or nothing but spaces
+interface Piece {
+    run: TextRun;
+    text: string;
+    width: number;
+    isSpace: boolean;
+}
+
+const splitParagraphs = (runs: TextRun[]) => {
+    const paragraphs: Array<Array<{ run: TextRun; text: string }>> = [[]];
+    runs.forEach((run) => {
+        run.text.split('\n').forEach((text, index) => {
+            if (index > 0) paragraphs.push([]);
+            if (text) paragraphs[paragraphs.length - 1].push({ run, text });
+        });
+    });
+    return paragraphs;
+};
+
+// Joins neighbouring pieces of the same run, and places them one after another
+const toLine = (pieces: Piece[], y: number): TextLine => {
+    const segments: TextSegment[] = [];
+    let x = 0;
+    pieces.forEach((piece) => {
+        const last = segments[segments.length - 1];
+        if (last && last.run === piece.run) {
+            last.text += piece.text;
+            last.width += piece.width;
+        } else {
+            segments.push({ run: piece.run, text: piece.text, x, width: piece.width });
+        }
+        x += piece.width;
+    });
+    return { segments, y, width: x };
+};
+
+const layoutCache = new WeakMap<Shape, TextLayout>();
+
+/**
+ * Breaks a text shape into lines of styled segments. Without a wrap width every paragraph is one line;
+ * with one, lines break between words, and inside words too long to fit on a line of their own.
+ * Shapes are immutable, so each layout is worked out once.
+ */
+export const layoutText = (shape: Shape): TextLayout => {
+    const cached = layoutCache.get(shape);
+    if (cached) return cached;
+
+    const fontSize = shape.fontSize || DEFAULT_FONT_SIZE;
+    const fontFamily = shape.fontFamily || 'Arial';
+    const lineHeight = fontSize * (shape.lineHeight ?? DEFAULT_LINE_HEIGHT);
+    const maxWidth = shape.wrapWidth;
+    const measure = (run: TextRun, text: string) => measureText(text, fontSize, fontFamily, getFontStyle(run)).width;
+
+    const lines: Piece[][] = [];
+    splitParagraphs(getTextRuns(shape)).forEach((paragraph) => {
+        let line: Piece[] = [];
+        let lineWidth = 0;
+        let isWrapped = false;
+        const breakLine = () => {
+            // Spaces at a wrap point are not drawn
+            while (line.length > 0 && line[line.length - 1].isSpace) lineWidth -= line.pop()!.width;
+            lines.push(line);
+            line = [];
+            lineWidth = 0;
+            isWrapped = true;
+        };
+        const add = (piece: Piece) => {
+            line.push(piece);
+            lineWidth += piece.width;
+        };
+
+        paragraph.forEach(({ run, text }) => {
+            (text.match(/\s+|\S+/g) || []).forEach((part) => {
+                const piece = { run, text: part, width: measure(run, part), isSpace: /^\s/.test(part) };
+                if (piece.isSpace) {
+                    // Spaces starting a paragraph indent it; spaces left over from a wrap are dropped
+                    if (line.length > 0 || !isWrapped) add(piece);
+                    return;
+                }
+                // A word continuing from the previous run, e.g. half bold, is not a place to break
+                const continuesWord = line.length > 0 && !line[line.length - 1].isSpace;
+                if (maxWidth === undefined || lineWidth + piece.width <= maxWidth) {
+                    add(piece);
+                } else if (!continuesWord && line.length > 0 && piece.width <= maxWidth) {
+                    breakLine();
+                    add(piece);
+                } else {
+                    // Too long for any line: fill this one letter by letter and carry on below
+                    Array.from(part).forEach((char) => {
+                        const width = measure(run, char);
+                        if (line.length > 0 && lineWidth + width > maxWidth) breakLine();
+                        add({ run, text: char, width, isSpace: false });
+                    });
+                }
+            });
+        });
+        lines.push(line);
+    });
+
+    const laidOut = lines.map((pieces, index) => toLine(pieces, index * lineHeight));
+    const width = maxWidth ?? Math.max(0, ...laidOut.map((line) => line.width));
+    // Alignment shifts each line within the text box
+    laidOut.forEach((line) => {
+        const offset = shape.align === 'center' ? (width - line.width) / 2 : shape.align === 'right' ? width - line.width : 0;
+        line.segments.forEach((segment) => {
+            segment.x += offset;
+        });
+    });
+
+    const layout = { lines: laidOut, width, height: laidOut.length * lineHeight, lineHeight };
+    layoutCache.set(shape, layout);
+    return layout;
+};
+
+// The link under a point given relative to the text's origin, if any
+export const findLinkAt = (layout: TextLayout, x: number, y: number) => {
+    const line = layout.lines[Math.floor(y / layout.lineHeight)];
+    const segment = line?.segments.find((item) => x >= item.x && x <= item.x + item.width);
+    return segment?.run.link;
+};
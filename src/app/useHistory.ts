@@ -0,0 +1,100 @@
+import { useCallback, useReducer } from 'react';
+
+export interface CommitOptions {
+    // Consecutive commits with the same key collapse into one undo step until the gesture is sealed.
+    mergeKey?: string;
+}
+
+interface HistoryState<T> {
+    past: T[];
+    present: T;
+    future: T[];
+    mergeKey: string | null;
+}
+
+type HistoryAction<T> =
+    | { type: 'commit'; updater: (present: T) => T; mergeKey: string | null }
+    | { type: 'seal' }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'reset'; present: T };
+
+const HISTORY_LIMIT = 200;
+
+const historyReducer = <T,>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+    switch (action.type) {
+        case 'commit': {
+            const next = action.updater(state.present);
+            if (next === state.present) return state;
+
+            // Keep folding into the current entry while the same gesture is still running
+            if (action.mergeKey !== null && action.mergeKey === state.mergeKey) {
+                return { ...state, present: next, future: [] };
+            }
+
+            return {
+                past: [...state.past, state.present].slice(-HISTORY_LIMIT),
+                present: next,
+                future: [],
+                mergeKey: action.mergeKey,
+            };
+        }
+        case 'seal':
+            return state.mergeKey === null ? state : { ...state, mergeKey: null };
+        case 'undo': {
+            if (state.past.length === 0) return state;
+            const previous = state.past[state.past.length - 1];
+            return {
+                past: state.past.slice(0, -1),
+                present: previous,
+                future: [state.present, ...state.future],
+                mergeKey: null,
+            };
+        }
+        case 'redo': {
+            if (state.future.length === 0) return state;
+            const [next, ...rest] = state.future;
+            return {
+                past: [...state.past, state.present],
+                present: next,
+                future: rest,
+                mergeKey: null,
+            };
+        }
+        case 'reset':
+            return { past: [], present: action.present, future: [], mergeKey: null };
+        default:
+            return state;
+    }
+};
+
+/**
+ * Undo/redo stack over an immutable value. Every commit pushes the previous value
+ * onto the stack unless it continues the gesture identified by `mergeKey`.
+ */
+export const useHistory = <T,>(initial: T) => {
+    const [state, dispatch] = useReducer(
+        historyReducer as (state: HistoryState<T>, action: HistoryAction<T>) => HistoryState<T>,
+        { past: [], present: initial, future: [], mergeKey: null }
+    );
+
+    const commit = useCallback((updater: (present: T) => T, options: CommitOptions = {}) => {
+        dispatch({ type: 'commit', updater, mergeKey: options.mergeKey ?? null });
+    }, []);
+
+    const seal = useCallback(() => dispatch({ type: 'seal' }), []);
+    const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+    const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+    const reset = useCallback((present: T) => dispatch({ type: 'reset', present }), []);
+
+    return {
+        present: state.present,
+        canUndo: state.past.length > 0,
+        canRedo: state.future.length > 0,
+        commit,
+        seal,
+        undo,
+        redo,
+        reset,
+    };
+};
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Awareness } from 'y-protocols/awareness';
+import type { Point } from './drawingTypes';
+import { loadLocalUser, readPeers, saveLocalUser, type Peer, type PresenceState, type PresenceViewport } from './presence';
+
+// Pointer moves are batched so a fast mouse does not flood the sync server
+const CURSOR_INTERVAL = 50;
+
+/**
+ * Shares this participant's name, pointer, selection and view with everyone on the board, and lists theirs.
+ * `awareness` is null until the board is connected; whatever was set before that is published then.
+ */
+export const usePresence = (awareness: Awareness | null) => {
+    const [peers, setPeers] = useState<Peer[]>([]);
+    const [user, setUserState] = useState(loadLocalUser);
+    const local = useRef<PresenceState>({ user, cursor: null, selection: [], viewport: null });
+    const cursorTimeout = useRef<number | null>(null);
+
+    useEffect(() => {
+        if (!awareness) return;
+        const handleChange = () => setPeers(readPeers(awareness));
+
+        awareness.setLocalState({ ...local.current });
+        awareness.on('change', handleChange);
+        handleChange();
+
+        return () => {
+            awareness.off('change', handleChange);
+            setPeers([]);
+        };
+    }, [awareness]);
+
+    useEffect(() => () => {
+        if (cursorTimeout.current !== null) window.clearTimeout(cursorTimeout.current);
+    }, []);
+
+    const publish = useCallback(<K extends keyof PresenceState>(field: K, value: PresenceState[K]) => {
+        local.current = { ...local.current, [field]: value };
+        awareness?.setLocalStateField(field, value);
+    }, [awareness]);
+
+    const setCursor = useCallback((cursor: Point | null) => {
+        local.current = { ...local.current, cursor };
+        // Leaving the canvas is sent right away so the pointer does not linger on other screens
+        if (cursor === null) {
+            publish('cursor', null);
+            return;
+        }
+        if (cursorTimeout.current !== null) return;
+        cursorTimeout.current = window.setTimeout(() => {
+            cursorTimeout.current = null;
+            publish('cursor', local.current.cursor);
+        }, CURSOR_INTERVAL);
+    }, [publish]);
+
+    const setSelection = useCallback((selection: string[]) => publish('selection', selection), [publish]);
+
+    const setViewport = useCallback((viewport: PresenceViewport) => publish('viewport', viewport), [publish]);
+
+    const setName = useCallback((name: string) => {
+        const next = { ...local.current.user, name };
+        saveLocalUser(next);
+        setUserState(next);
+        publish('user', next);
+    }, [publish]);
+
+    return { user, peers, setCursor, setSelection, setViewport, setName };
+};
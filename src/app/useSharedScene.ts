@@ -0,0 +1,357 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import { IndexeddbPersistence } from 'y-indexeddb';
+import type { Awareness } from 'y-protocols/awareness';
+import type { Scene } from './drawingTypes';
+import type { CommitOptions } from './useHistory';
+import { loadAsset } from './assetStore';
+import { getSharedRoots, isSceneEmpty, readScene, readSnapshots, writeSceneChanges, writeSnapshot } from './sharedScene';
+import {
+    createSnapshot,
+    getExpiredSnapshots,
+    getNextAutoSnapshotTime,
+    isAutoSnapshotDue,
+    loadSnapshotScene,
+    type SceneSnapshot,
+} from './snapshots';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+// Started next to `next dev` with `npm run collab`
+const COLLAB_SERVER_URL = process.env.NEXT_PUBLIC_COLLAB_SERVER_URL || 'ws://localhost:1234';
+const ROOM_PREFIX = 'collaboration-intro-';
+// Versions of a board live in a document of their own, in the room next to the board's, so joining or
+// editing a board never loads them. It is opened only while the versions are shown or one is saved.
+const HISTORY_ROOM_SUFFIX = '-history';
+// Kept open this long after its last use, so what was just saved gets out and reopening is instant
+const HISTORY_CLOSE_DELAY = 10 * 1000;
+
+const createSession = () => {
+    const doc = new Y.Doc();
+    const roots = getSharedRoots(doc);
+    // Marks transactions made by commit(), so undo only ever reverts this client's own edits
+    const origin = {};
+    const undoManager = new Y.UndoManager([roots.shapes, roots.lines, roots.slides], {
+        trackedOrigins: new Set([origin]),
+        // Steps are split explicitly by commit() and seal(), the same way mergeKey works in useHistory
+        captureTimeout: Number.MAX_SAFE_INTEGER,
+    });
+    return { doc, roots, origin, undoManager };
+};
+
+const createHistorySession = (boardId: string) => {
+    const doc = new Y.Doc();
+    const room = `${ROOM_PREFIX}${boardId}${HISTORY_ROOM_SUFFIX}`;
+    const persistence = new IndexeddbPersistence(room, doc);
+    const provider = new WebsocketProvider(COLLAB_SERVER_URL, room, doc);
+    // Loaded once the local copy is in and the server has either synced or turned out unreachable
+    const loaded = new Promise<void>((resolve) => {
+        const settle = () => {
+            persistence.whenSynced.then(() => resolve());
+        };
+        provider.on('sync', (synced: boolean) => {
+            if (synced) settle();
+        });
+        provider.on('connection-close', settle);
+        provider.on('connection-error', settle);
+    });
+    return {
+        doc,
+        snapshots: doc.getMap<Y.Map<unknown>>('snapshots'),
+        loaded,
+        users: 0,
+        closeTimeout: undefined as number | undefined,
+        destroy: () => {
+            provider.destroy();
+            persistence.destroy();
+            doc.destroy();
+        },
+    };
+};
+
+type HistorySession = ReturnType<typeof createHistorySession>;
+
+// Saves a version; old automatic snapshots make room for the new one
+const addSnapshot = (history: HistorySession, snapshot: SceneSnapshot) => {
+    history.doc.transact(() => {
+        writeSnapshot(history.snapshots, snapshot);
+        getExpiredSnapshots(readSnapshots(history.snapshots)).forEach(({ id }) => history.snapshots.delete(id));
+    });
+};
+
+/**
+ * The board's scene, shared with everyone on the same board through a Yjs document.
+ * Offers the same commit/seal/undo/redo API as useHistory. The document is kept in IndexedDB,
+ * so edits made offline survive a reload and are merged when the sync server is reachable again.
+ * `boardId` is read once; remount the component to switch boards.
+ */
+export const useSharedScene = (boardId: string) => {
+    const [session] = useState(createSession);
+    const [present, setPresentState] = useState<Scene>({ shapes: [], lines: [], slides: [], comments: [] });
+    const [stackSizes, setStackSizes] = useState({ undo: 0, redo: 0 });
+    const [status, setStatus] = useState<ConnectionStatus>('connecting');
+    const [isSynced, setIsSynced] = useState(false);
+    const [awareness, setAwareness] = useState<Awareness | null>(null);
+    const [snapshots, setSnapshots] = useState<SceneSnapshot[] | null>(null);
+    const presentRef = useRef(present);
+    const mergeKey = useRef<string | null>(null);
+    const historySession = useRef<HistorySession | null>(null);
+    // When this client's next automatic snapshot may be due, and the scene it last found saved
+    const nextAutoSnapshot = useRef(0);
+    const checkedScene = useRef<Scene | null>(null);
+
+    const setPresent = useCallback((scene: Scene) => {
+        presentRef.current = scene;
+        setPresentState(scene);
+    }, []);
+
+    useEffect(() => {
+        const { doc, roots, origin, undoManager } = session;
+        const loading = new Set<string>();
+        let destroyed = false;
+
+        // Remote edits and undo/redo change the document directly, so the scene is read back from it
+        const rebuild = () => {
+            const { scene, missingAssets } = readScene(roots);
+            setPresent(scene);
+            missingAssets
+                .filter((assetId) => !loading.has(assetId))
+                .forEach((assetId) => {
+                    loading.add(assetId);
+                    // An asset neither stored here nor shared yet is tried again on the next update
+                    loadAsset(assetId, roots.assets.get(assetId))
+                        .then((loaded) => {
+                            if (!loaded) loading.delete(assetId);
+                            else if (!destroyed) rebuild();
+                        })
+                        .catch(() => loading.delete(assetId));
+                });
+        };
+
+        const handleUpdate = (_update: Uint8Array, transactionOrigin: unknown) => {
+            if (transactionOrigin !== origin) rebuild();
+        };
+
+        const updateStackSizes = () => {
+            setStackSizes({ undo: undoManager.undoStack.length, redo: undoManager.redoStack.length });
+        };
+
+        doc.on('update', handleUpdate);
+        undoManager.on('stack-item-added', updateStackSizes);
+        undoManager.on('stack-item-popped', updateStackSizes);
+        undoManager.on('stack-cleared', updateStackSizes);
+
+        const room = `${ROOM_PREFIX}${boardId}`;
+        const persistence = new IndexeddbPersistence(room, doc);
+        const provider = new WebsocketProvider(COLLAB_SERVER_URL, room, doc);
+
+        // Ready once the local copy is loaded and the server has either synced or turned out unreachable
+        let serverSettled = false;
+        const settleServer = () => {
+            if (serverSettled) return;
+            serverSettled = true;
+            persistence.whenSynced.then(() => {
+                if (!destroyed) setIsSynced(true);
+            });
+        };
+        const handleSync = (synced: boolean) => {
+            if (synced) settleServer();
+        };
+        const handleStatus = ({ status: next }: { status: ConnectionStatus }) => setStatus(next);
+
+        provider.on('status', handleStatus);
+        provider.on('sync', handleSync);
+        provider.on('connection-close', settleServer);
+        provider.on('connection-error', settleServer);
+        setAwareness(provider.awareness);
+        rebuild();
+
+        return () => {
+            destroyed = true;
+            doc.off('update', handleUpdate);
+            undoManager.off('stack-item-added', updateStackSizes);
+            undoManager.off('stack-item-popped', updateStackSizes);
+            undoManager.off('stack-cleared', updateStackSizes);
+            provider.off('status', handleStatus);
+            provider.off('sync', handleSync);
+            provider.off('connection-close', settleServer);
+            provider.off('connection-error', settleServer);
+            setAwareness(null);
+            provider.destroy();
+            persistence.destroy();
+        };
+    }, [session, boardId, setPresent]);
+
+    const commit = useCallback((updater: (present: Scene) => Scene, options: CommitOptions = {}) => {
+        const prev = presentRef.current;
+        const next = updater(prev);
+        if (next === prev) return;
+
+        // A new undo step starts unless this commit continues the current gesture
+        const key = options.mergeKey ?? null;
+        if (key === null || key !== mergeKey.current) {
+            session.undoManager.stopCapturing();
+        }
+        mergeKey.current = key;
+
+        session.doc.transact(() => writeSceneChanges(session.roots, prev, next), session.origin);
+        setPresent(next);
+    }, [session, setPresent]);
+
+    const seal = useCallback(() => {
+        mergeKey.current = null;
+        session.undoManager.stopCapturing();
+    }, [session]);
+
+    const undo = useCallback(() => {
+        mergeKey.current = null;
+        session.undoManager.undo();
+    }, [session]);
+
+    const redo = useCallback(() => {
+        mergeKey.current = null;
+        session.undoManager.redo();
+    }, [session]);
+
+    // Fills a board nobody has drawn on yet, e.g. from a copy saved before boards were shared
+    const initialize = useCallback((scene: Scene) => {
+        if (!isSceneEmpty(session.roots)) return;
+        session.doc.transact(() => writeSceneChanges(session.roots, presentRef.current, scene), session.origin);
+        session.undoManager.clear();
+        setPresent(scene);
+    }, [session, setPresent]);
+
+    useEffect(
+        () => () => {
+            const history = historySession.current;
+            if (!history) return;
+            window.clearTimeout(history.closeTimeout);
+            history.destroy();
+            historySession.current = null;
+        },
+        []
+    );
+
+    // Opens the board's history, or keeps it open; it closes a little after the last `release`
+    const openHistory = useCallback(() => {
+        let history = historySession.current;
+        if (!history) {
+            const opened = createHistorySession(boardId);
+            const handleSnapshots = () => setSnapshots(readSnapshots(opened.snapshots));
+            opened.snapshots.observeDeep(handleSnapshots);
+            opened.loaded.then(() => {
+                if (historySession.current !== opened) return;
+                // Versions saved while they were kept in the board's own document move over
+                const { doc, roots, origin } = session;
+                const moved = readSnapshots(roots.snapshots);
+                if (moved.length > 0) {
+                    opened.doc.transact(() => moved.forEach((snapshot) => writeSnapshot(opened.snapshots, snapshot)));
+                    doc.transact(() => moved.forEach(({ id }) => roots.snapshots.delete(id)), origin);
+                }
+                handleSnapshots();
+            });
+            historySession.current = opened;
+            history = opened;
+        }
+        const current = history;
+        window.clearTimeout(current.closeTimeout);
+        current.users += 1;
+        let isReleased = false;
+        const release = () => {
+            if (isReleased) return;
+            isReleased = true;
+            current.users -= 1;
+            if (current.users > 0) return;
+            current.closeTimeout = window.setTimeout(() => {
+                current.destroy();
+                if (historySession.current !== current) return;
+                historySession.current = null;
+                setSnapshots(null);
+            }, HISTORY_CLOSE_DELAY);
+        };
+        return { history: current, release };
+    }, [session, boardId]);
+
+    // Keeps `snapshots` loaded and up to date until the returned function is called
+    const watchSnapshots = useCallback(() => openHistory().release, [openHistory]);
+
+    // Runs `action` once the history has loaded
+    const withHistory = useCallback(
+        async (action: (history: HistorySession) => void | Promise<void>) => {
+            const { history, release } = openHistory();
+            try {
+                await history.loaded;
+                await action(history);
+            } finally {
+                release();
+            }
+        },
+        [openHistory]
+    );
+
+    // Saves the scene as it is at the call
+    const takeSnapshot = useCallback((author: string, name?: string) => {
+        const snapshot = createSnapshot(presentRef.current, author, name);
+        return withHistory((history) => addSnapshot(history, snapshot));
+    }, [withHistory]);
+
+    // Called now and then by every client. Only the one with the lowest id on the board takes them, and it
+    // opens the history only once the last snapshot is old enough and the board has changed since it looked.
+    const takeAutoSnapshot = useCallback(async (author: string) => {
+        if (!awareness || Math.min(...Array.from(awareness.getStates().keys())) !== awareness.clientID) return;
+        const scene = presentRef.current;
+        if (Date.now() < nextAutoSnapshot.current || scene === checkedScene.current) return;
+        await withHistory(async (history) => {
+            const saved = readSnapshots(history.snapshots);
+            nextAutoSnapshot.current = getNextAutoSnapshotTime(saved);
+            if (Date.now() < nextAutoSnapshot.current) return;
+            if (await isAutoSnapshotDue(saved, scene, Date.now())) {
+                addSnapshot(history, createSnapshot(scene, author));
+                nextAutoSnapshot.current = getNextAutoSnapshotTime(readSnapshots(history.snapshots));
+            }
+            checkedScene.current = scene;
+        });
+    }, [awareness, withHistory]);
+
+    // Naming an automatic snapshot keeps it for good
+    const renameSnapshot = useCallback((snapshot: SceneSnapshot, name: string) => {
+        withHistory((history) => {
+            history.doc.transact(() => writeSnapshot(history.snapshots, { ...snapshot, name: name || undefined }));
+        });
+    }, [withHistory]);
+
+    const deleteSnapshot = useCallback((id: string) => {
+        withHistory((history) => {
+            history.doc.transact(() => history.snapshots.delete(id));
+        });
+    }, [withHistory]);
+
+    const loadSnapshot = useCallback(
+        (snapshot: SceneSnapshot) => loadSnapshotScene(snapshot, (id) => session.roots.assets.get(id)),
+        [session]
+    );
+
+    return {
+        present,
+        canUndo: stackSizes.undo > 0,
+        canRedo: stackSizes.redo > 0,
+        commit,
+        seal,
+        undo,
+        redo,
+        initialize,
+        status,
+        isSynced,
+        // Who else is on the board; see usePresence
+        awareness,
+        // Saved versions of the board, newest first; null until watchSnapshots has loaded them
+        snapshots,
+        watchSnapshots,
+        takeSnapshot,
+        takeAutoSnapshot,
+        renameSnapshot,
+        deleteSnapshot,
+        loadSnapshot,
+    };
+};